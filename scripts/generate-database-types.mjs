@@ -0,0 +1,204 @@
+// Generates src/types/database.ts from supabase/migrations/*.sql.
+//
+// Works fully offline: the schema is rebuilt by replaying the migration DDL,
+// so no linked Supabase project or `supabase gen types` login is needed.
+//
+//   npm run generate:types          # write the file
+//   npm run generate:types -- --check  # exit 1 when the file is stale
+
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { findUnresolvedReferences, parseMigrations } from './lib/migrations.mjs';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const migrationsDir = join(root, 'supabase', 'migrations');
+const outputFile = join(root, 'src', 'types', 'database.ts');
+
+const SCALAR_TYPES = [
+  [/^(uuid|text|citext|character varying|varchar|char|character|name|inet|bytea)\b/, 'string'],
+  [/^(timestamp|timestamptz|date|time|timetz|interval)\b/, 'string'],
+  [/^(smallint|integer|int|int2|int4|int8|bigint|serial|bigserial|real|double precision|float4|float8|numeric|decimal)\b/, 'number'],
+  [/^(boolean|bool)\b/, 'boolean'],
+  [/^(jsonb?)\b/, 'Json'],
+  [/^tsvector\b/, 'unknown'],
+  [/^void\b/, 'undefined']
+];
+
+function tsType(sqlType, schema, column) {
+  if (column?.allowedValues) {
+    return column.allowedValues.map(value => JSON.stringify(value)).join(' | ');
+  }
+  if (sqlType.endsWith('[]')) {
+    return `${wrapArray(tsType(sqlType.slice(0, -2).trim(), schema))}[]`;
+  }
+  if (schema.enums.has(sqlType)) {
+    return `Database["public"]["Enums"]["${sqlType}"]`;
+  }
+  if (schema.tables.has(sqlType)) {
+    return `Database["public"]["Tables"]["${sqlType}"]["Row"]`;
+  }
+  for (const [pattern, type] of SCALAR_TYPES) {
+    if (pattern.test(sqlType)) return type;
+  }
+  return 'unknown';
+}
+
+function wrapArray(type) {
+  return type.includes('|') ? `(${type})` : type;
+}
+
+// Indents a list of (possibly multi-line) entries, returning flat lines
+function indent(lines, depth) {
+  const pad = '  '.repeat(depth);
+  return lines
+    .flatMap(line => line.split('\n'))
+    .map(line => (line ? pad + line : line));
+}
+
+function renderTable(table, schema) {
+  const columns = [...table.columns.values()].sort((a, b) => a.name.localeCompare(b.name));
+  const row = columns.map(column => {
+    const type = tsType(column.type, schema, column);
+    return `${column.name}: ${column.nullable ? `${type} | null` : type}`;
+  });
+  const insert = columns
+    .filter(column => !column.generated)
+    .map(column => {
+      const type = tsType(column.type, schema, column);
+      const optional = column.nullable || column.hasDefault;
+      return `${column.name}${optional ? '?' : ''}: ${column.nullable ? `${type} | null` : type}`;
+    });
+  const update = columns
+    .filter(column => !column.generated)
+    .map(column => {
+      const type = tsType(column.type, schema, column);
+      return `${column.name}?: ${column.nullable ? `${type} | null` : type}`;
+    });
+
+  return [
+    `${table.name}: {`,
+    '  Row: {',
+    ...indent(row, 2),
+    '  }',
+    '  Insert: {',
+    ...indent(insert, 2),
+    '  }',
+    '  Update: {',
+    ...indent(update, 2),
+    '  }',
+    '  Relationships: []',
+    '}'
+  ];
+}
+
+function renderFunction(fn, schema) {
+  const args = fn.args.map(arg => `${arg.name}${arg.optional ? '?' : ''}: ${tsType(arg.type, schema)}`);
+  let returns;
+  if (fn.returns.kind === 'table') {
+    const columns = fn.returns.columns.map(column => `${column.name}: ${tsType(column.type, schema)}`);
+    returns = ['Returns: {', ...indent(columns, 1), '}[]'];
+  } else {
+    const type = tsType(fn.returns.type, schema);
+    returns = [`Returns: ${fn.returns.kind === 'setof' ? `${wrapArray(type)}[]` : type}`];
+  }
+
+  return [
+    `${fn.name}: {`,
+    args.length ? '  Args: {' : '  Args: Record<PropertyKey, never>',
+    ...(args.length ? [...indent(args, 2), '  }'] : []),
+    ...indent(returns, 1),
+    '}'
+  ];
+}
+
+function renderBlock(name, entries) {
+  if (entries.length === 0) return [`${name}: {`, '  [_ in never]: never', '}'];
+  return [`${name}: {`, ...indent(entries.flat(), 1), '}'];
+}
+
+function generate() {
+  const schema = parseMigrations(migrationsDir);
+  const tables = [...schema.tables.values()].sort((a, b) => a.name.localeCompare(b.name));
+  const functions = [...schema.functions.values()].sort((a, b) => a.name.localeCompare(b.name));
+  const enums = [...schema.enums.entries()].sort(([a], [b]) => a.localeCompare(b));
+  const unresolved = findUnresolvedReferences(schema);
+
+  const publicSchema = [
+    ...renderBlock('Tables', tables.map(table => renderTable(table, schema))),
+    ...renderBlock('Views', []),
+    ...renderBlock('Functions', functions.map(fn => renderFunction(fn, schema))),
+    ...renderBlock('Enums', enums.map(([name, values]) => [`${name}: ${values.map(v => JSON.stringify(v)).join(' | ')}`])),
+    ...renderBlock('CompositeTypes', [])
+  ];
+
+  return [
+    '// This file is generated by scripts/generate-database-types.mjs from',
+    '// supabase/migrations. Do not edit by hand: run `npm run generate:types`.',
+    '',
+    'export type Json =',
+    '  | string',
+    '  | number',
+    '  | boolean',
+    '  | null',
+    '  | { [key: string]: Json | undefined }',
+    '  | Json[]',
+    '',
+    'export type Database = {',
+    '  public: {',
+    ...indent(publicSchema, 2),
+    '  }',
+    '}',
+    '',
+    'type PublicSchema = Database["public"]',
+    '',
+    'export type TableName = keyof PublicSchema["Tables"]',
+    '',
+    'export type Tables<T extends TableName> = PublicSchema["Tables"][T]["Row"]',
+    '',
+    'export type TablesInsert<T extends TableName> = PublicSchema["Tables"][T]["Insert"]',
+    '',
+    'export type TablesUpdate<T extends TableName> = PublicSchema["Tables"][T]["Update"]',
+    '',
+    'export interface UnresolvedReference {',
+    '  table: string',
+    '  referencedBy: string',
+    '  file: string',
+    '}',
+    '',
+    '// Runtime snapshot of the migrated schema, used by the drift checks',
+    'export const migrationSchema = {',
+    '  tables: {',
+    ...indent(tables.map(table => `${table.name}: [${[...table.columns.keys()].sort().map(name => JSON.stringify(name)).join(', ')}],`), 2),
+    '  },',
+    '  unresolvedReferences: [',
+    ...indent(unresolved.map(ref => `{ table: ${JSON.stringify(ref.table)}, referencedBy: ${JSON.stringify(ref.referencedBy)}, file: ${JSON.stringify(basename(ref.file))} },`), 2),
+    '  ] as readonly UnresolvedReference[],',
+    '} as const',
+    ''
+  ].join('\n');
+}
+
+const output = generate();
+
+for (const reference of findUnresolvedReferences(parseMigrations(migrationsDir))) {
+  console.warn(`warning: ${reference.referencedBy} references table "${reference.table}", which no migration creates (${basename(reference.file)})`);
+}
+
+if (process.argv.includes('--check')) {
+  let current = '';
+  try {
+    current = readFileSync(outputFile, 'utf8');
+  } catch {
+    // Missing file counts as stale
+  }
+  if (current !== output) {
+    console.error('src/types/database.ts is out of date. Run `npm run generate:types`.');
+    process.exit(1);
+  }
+  console.log('src/types/database.ts is up to date.');
+} else {
+  mkdirSync(dirname(outputFile), { recursive: true });
+  writeFileSync(outputFile, output);
+  console.log(`Wrote ${outputFile}`);
+}
@@ -0,0 +1,319 @@
+// Offline parser for supabase/migrations/*.sql.
+//
+// Replays the CREATE/ALTER/DROP statements in filename order and returns the
+// resulting public schema. It understands the subset of Postgres DDL used by
+// this repo's migrations; anything else is ignored rather than guessed at.
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+const COLUMN_KEYWORDS = new Set([
+  'NOT', 'NULL', 'DEFAULT', 'PRIMARY', 'REFERENCES', 'CHECK', 'UNIQUE',
+  'GENERATED', 'CONSTRAINT', 'COLLATE'
+]);
+
+const TABLE_CONSTRAINTS = /^(CONSTRAINT|PRIMARY\s+KEY|UNIQUE|FOREIGN\s+KEY|CHECK|EXCLUDE)\b/i;
+
+export function listMigrationFiles(migrationsDir) {
+  return readdirSync(migrationsDir)
+    .filter(file => file.endsWith('.sql'))
+    .sort()
+    .map(file => join(migrationsDir, file));
+}
+
+export function parseMigrations(migrationsDir) {
+  const schema = { tables: new Map(), functions: new Map(), enums: new Map(), policies: [] };
+
+  for (const file of listMigrationFiles(migrationsDir)) {
+    for (const statement of splitStatements(stripComments(readFileSync(file, 'utf8')))) {
+      applyStatement(schema, statement, file);
+    }
+  }
+
+  return schema;
+}
+
+// Tables named by policies or foreign keys that no migration creates
+export function findUnresolvedReferences(schema) {
+  const references = [];
+
+  for (const policy of schema.policies) {
+    for (const match of policy.body.matchAll(/\b(?:FROM|JOIN)\s+([\w."]+)/gi)) {
+      const { schema: owner, name } = unqualify(match[1]);
+      if (owner === 'public') {
+        references.push({ table: name, referencedBy: `policy "${policy.name}" on ${policy.table}`, file: policy.file });
+      }
+    }
+  }
+
+  for (const table of schema.tables.values()) {
+    for (const column of table.columns.values()) {
+      if (!column.references) continue;
+      const { schema: owner, name } = unqualify(column.references.replace(/\(.*$/, ''));
+      if (owner === 'public') {
+        references.push({ table: name, referencedBy: `${table.name}.${column.name}`, file: table.file });
+      }
+    }
+  }
+
+  const seen = new Set();
+  return references
+    .filter(reference => !schema.tables.has(reference.table))
+    .filter(reference => {
+      const key = `${reference.table}|${reference.referencedBy}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+function stripComments(sql) {
+  let out = '';
+  let i = 0;
+  while (i < sql.length) {
+    if (sql.startsWith('$$', i)) {
+      const end = sql.indexOf('$$', i + 2);
+      const stop = end === -1 ? sql.length : end + 2;
+      out += sql.slice(i, stop);
+      i = stop;
+    } else if (sql[i] === "'") {
+      const end = findQuoteEnd(sql, i);
+      out += sql.slice(i, end);
+      i = end;
+    } else if (sql.startsWith('--', i)) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+    } else if (sql.startsWith('/*', i)) {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else {
+      out += sql[i++];
+    }
+  }
+  return out;
+}
+
+function findQuoteEnd(sql, start) {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (sql[i] === "'" && sql[i + 1] === "'") i += 2;
+    else if (sql[i] === "'") return i + 1;
+    else i++;
+  }
+  return sql.length;
+}
+
+function splitStatements(sql) {
+  const statements = [];
+  let current = '';
+  let i = 0;
+  while (i < sql.length) {
+    if (sql.startsWith('$$', i)) {
+      const end = sql.indexOf('$$', i + 2);
+      const stop = end === -1 ? sql.length : end + 2;
+      current += sql.slice(i, stop);
+      i = stop;
+    } else if (sql[i] === "'") {
+      const end = findQuoteEnd(sql, i);
+      current += sql.slice(i, end);
+      i = end;
+    } else if (sql[i] === ';') {
+      if (current.trim()) statements.push(current.trim());
+      current = '';
+      i++;
+    } else {
+      current += sql[i++];
+    }
+  }
+  if (current.trim()) statements.push(current.trim());
+  return statements;
+}
+
+// Splits on commas that are not nested inside parentheses or quotes
+export function splitTopLevel(text) {
+  const parts = [];
+  let depth = 0;
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "'") {
+      const end = findQuoteEnd(text, i);
+      current += text.slice(i, end);
+      i = end - 1;
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+// Returns the text between the parenthesis at `open` and its match
+function balanced(text, open) {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === "'") {
+      i = findQuoteEnd(text, i) - 1;
+      continue;
+    }
+    if (text[i] === '(') depth++;
+    if (text[i] === ')' && --depth === 0) return { body: text.slice(open + 1, i), end: i + 1 };
+  }
+  return { body: text.slice(open + 1), end: text.length };
+}
+
+function unqualify(name) {
+  const parts = name.replace(/"/g, '').split('.');
+  return { schema: parts.length > 1 ? parts[0] : 'public', name: parts[parts.length - 1] };
+}
+
+function applyStatement(schema, statement, file) {
+  let match;
+
+  if ((match = statement.match(/^CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?([\w."]+)\s*\(/i))) {
+    const { schema: owner, name } = unqualify(match[1]);
+    if (owner !== 'public') return;
+    const { body } = balanced(statement, match[0].length - 1);
+    const table = { name, file, columns: new Map(), primaryKey: [] };
+    for (const part of splitTopLevel(body)) {
+      if (TABLE_CONSTRAINTS.test(part)) {
+        const pk = part.match(/PRIMARY\s+KEY\s*\(([^)]*)\)/i);
+        if (pk) table.primaryKey = pk[1].split(',').map(col => col.trim().replace(/"/g, ''));
+        continue;
+      }
+      const column = parseColumn(part);
+      if (column) table.columns.set(column.name, column);
+    }
+    for (const key of table.primaryKey) {
+      const column = table.columns.get(key);
+      if (column) column.nullable = false;
+    }
+    if (!schema.tables.has(name)) schema.tables.set(name, table);
+    return;
+  }
+
+  if ((match = statement.match(/^ALTER\s+TABLE\s+(?:IF\s+EXISTS\s+)?(?:ONLY\s+)?([\w."]+)\s+([\s\S]*)$/i))) {
+    const { schema: owner, name } = unqualify(match[1]);
+    const table = schema.tables.get(name);
+    if (owner !== 'public' || !table) return;
+    for (const action of splitTopLevel(match[2])) applyAlterAction(table, action);
+    return;
+  }
+
+  if ((match = statement.match(/^DROP\s+TABLE\s+(?:IF\s+EXISTS\s+)?([\w.",\s]+?)(?:\s+CASCADE|\s+RESTRICT)?$/i))) {
+    for (const ref of match[1].split(',')) schema.tables.delete(unqualify(ref.trim()).name);
+    return;
+  }
+
+  if ((match = statement.match(/^CREATE\s+TYPE\s+([\w."]+)\s+AS\s+ENUM\s*\(([\s\S]*)\)$/i))) {
+    const { name } = unqualify(match[1]);
+    schema.enums.set(name, splitTopLevel(match[2]).map(value => value.replace(/^'|'$/g, '')));
+    return;
+  }
+
+  if ((match = statement.match(/^CREATE\s+(?:OR\s+REPLACE\s+)?FUNCTION\s+([\w."]+)\s*\(/i))) {
+    const { schema: owner, name } = unqualify(match[1]);
+    if (owner !== 'public') return;
+    const { body: argList, end } = balanced(statement, match[0].length - 1);
+    const returns = parseReturns(statement.slice(end));
+    if (!returns || returns.kind === 'trigger') return;
+    schema.functions.set(name, { name, file, args: parseFunctionArgs(argList), returns });
+    return;
+  }
+
+  if ((match = statement.match(/^DROP\s+FUNCTION\s+(?:IF\s+EXISTS\s+)?([\w."]+)/i))) {
+    schema.functions.delete(unqualify(match[1]).name);
+    return;
+  }
+
+  if ((match = statement.match(/^CREATE\s+POLICY\s+"([^"]+)"\s+ON\s+([\w."]+)([\s\S]*)$/i))) {
+    schema.policies.push({ name: match[1], table: unqualify(match[2]).name, file, body: match[3] });
+    return;
+  }
+
+  if ((match = statement.match(/^DROP\s+POLICY\s+(?:IF\s+EXISTS\s+)?"([^"]+)"\s+ON\s+([\w."]+)/i))) {
+    const table = unqualify(match[2]).name;
+    schema.policies = schema.policies.filter(policy => !(policy.name === match[1] && policy.table === table));
+  }
+}
+
+function applyAlterAction(table, action) {
+  let match;
+  if ((match = action.match(/^ADD\s+(?:COLUMN\s+)?(?:IF\s+NOT\s+EXISTS\s+)?([\s\S]+)$/i)) && !TABLE_CONSTRAINTS.test(match[1])) {
+    const column = parseColumn(match[1]);
+    if (column && !table.columns.has(column.name)) table.columns.set(column.name, column);
+  } else if ((match = action.match(/^DROP\s+(?:COLUMN\s+)?(?:IF\s+EXISTS\s+)?"?(\w+)"?/i)) && !/^DROP\s+CONSTRAINT/i.test(action)) {
+    table.columns.delete(match[1]);
+  } else if ((match = action.match(/^RENAME\s+(?:COLUMN\s+)?"?(\w+)"?\s+TO\s+"?(\w+)"?/i))) {
+    const column = table.columns.get(match[1]);
+    if (column) {
+      table.columns.delete(match[1]);
+      table.columns.set(match[2], { ...column, name: match[2] });
+    }
+  } else if ((match = action.match(/^ALTER\s+(?:COLUMN\s+)?"?(\w+)"?\s+(SET|DROP)\s+NOT\s+NULL/i))) {
+    const column = table.columns.get(match[1]);
+    if (column) column.nullable = match[2].toUpperCase() === 'DROP';
+  } else if ((match = action.match(/^ALTER\s+(?:COLUMN\s+)?"?(\w+)"?\s+SET\s+DEFAULT/i))) {
+    const column = table.columns.get(match[1]);
+    if (column) column.hasDefault = true;
+  }
+}
+
+function parseColumn(definition) {
+  const tokens = definition.trim().split(/\s+/);
+  const name = tokens.shift()?.replace(/"/g, '');
+  if (!name) return null;
+
+  const typeTokens = [];
+  while (tokens.length && !COLUMN_KEYWORDS.has(tokens[0].toUpperCase())) typeTokens.push(tokens.shift());
+  const rest = tokens.join(' ');
+  const upper = rest.toUpperCase();
+
+  const check = rest.match(/CHECK\s*\(\s*"?\w+"?\s+IN\s*\(([^)]*)\)\s*\)/i);
+
+  return {
+    name,
+    type: typeTokens.join(' ').toLowerCase(),
+    nullable: !/NOT\s+NULL/.test(upper) && !/PRIMARY\s+KEY/.test(upper),
+    hasDefault: /\bDEFAULT\b/.test(upper) || /GENERATED/.test(upper) || /^(big)?serial/.test(typeTokens.join(' ').toLowerCase()),
+    generated: /GENERATED\s+ALWAYS\s+AS\s*\(/.test(upper),
+    references: rest.match(/REFERENCES\s+([\w."]+)/i)?.[1] || null,
+    allowedValues: check ? splitTopLevel(check[1]).map(value => value.trim().replace(/^'|'$/g, '')) : null
+  };
+}
+
+function parseFunctionArgs(argList) {
+  return splitTopLevel(argList)
+    .filter(Boolean)
+    .map(arg => {
+      const withoutMode = arg.replace(/^(IN|INOUT|VARIADIC)\s+/i, '');
+      if (/^OUT\s+/i.test(arg)) return null;
+      const [definition, defaultValue] = withoutMode.split(/\s+(?:DEFAULT|=)\s+/i);
+      const [name, ...type] = definition.trim().split(/\s+/);
+      return { name: name.replace(/"/g, ''), type: type.join(' ').toLowerCase(), optional: defaultValue !== undefined };
+    })
+    .filter(Boolean);
+}
+
+function parseReturns(afterArgs) {
+  const table = afterArgs.match(/^\s*RETURNS\s+TABLE\s*\(/i);
+  if (table) {
+    const { body } = balanced(afterArgs, table[0].length - 1);
+    const columns = splitTopLevel(body).map(parseColumn).filter(Boolean);
+    return { kind: 'table', columns };
+  }
+
+  const match = afterArgs.match(/^\s*RETURNS\s+(SETOF\s+)?([\w."\[\] ]+?)(?=\s+(?:LANGUAGE|AS|SECURITY|STABLE|IMMUTABLE|VOLATILE|SET|STRICT|CALLED|PARALLEL)\b|\s*$)/i);
+  if (!match) return null;
+
+  const type = match[2].trim().toLowerCase();
+  if (type === 'trigger') return { kind: 'trigger' };
+  return { kind: match[1] ? 'setof' : 'scalar', type: unqualify(type).name };
+}
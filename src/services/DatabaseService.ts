@@ -1,100 +1,231 @@
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from '../supabase';
-
-interface UserProfile {
-  id: string;
-  user_id: string;
-  email: string;
-  display_name?: string;
-  company_id?: string;
-  created_at?: string;
-}
-
-interface PrepItem {
-  id: string;
-  name: string;
-  quantity: string;
-  unit: string;
-  category?: string;
-  completed?: boolean;
-  assignedTo?: string;
-  notes?: string;
-}
-
-interface PrepList {
-  id: string;
-  name: string;
-  items: PrepItem[];
-  company_id?: string;
-  user_id?: string;
-  created_at?: string;
-  updated_at?: string;
-}
-
-interface Event {
-  id: string;
-  name: string;
-  date: string;
-  invoiceNumber?: string;
-  prepItems: PrepItem[];
-  status: 'planning' | 'prep' | 'active' | 'complete';
-  totalServings: number;
-  company_id?: string;
-  user_id?: string;
-  created_at?: string;
-  updated_at?: string;
+import type { Json, TableName } from '../types/database';
+
+import { Repository, RepositoryConfig, SaveOptions } from './Repository';
+import type { AuditEntry } from './audit';
+import type { BundleItem, BundleItemResult, BundleOptions, BundleResult, BundleRpcResult } from './bundle';
+import {
+  ARCHIVE_TABLES,
+  ArchiveData,
+  CompanyArchive,
+  CompanyImportOptions,
+  CompanyImportReport,
+  ImportTableSummary,
+  buildArchive,
+  missingReferences,
+  remapArchive,
+  verifyArchive
+} from './companyArchive';
+import {
+  COMPANY_ROLES,
+  Company,
+  CompanyInvite,
+  CompanyMember,
+  CompanyRole,
+  Container,
+  ContainerRow,
+  Event,
+  EventQueryOptions,
+  EventRecipe,
+  InviteRole,
+  Method,
+  MethodRow,
+  PrepList,
+  PrepListRow,
+  Recipe,
+  RecipeRow,
+  TRASH_TABLES,
+  TrashItem,
+  TrashModels,
+  TrashTable,
+  UserProfile,
+  companyInviteTable,
+  companyMemberTable,
+  companyTable,
+  containerTable,
+  eventRecipeTable,
+  eventTable,
+  methodTable,
+  prepListTable,
+  recipeTable,
+  toEventQuery
+} from './entities';
+import {
+  PermissionAction,
+  PermissionCheck,
+  PermissionSubject,
+  PermissionTable,
+  checkPermission
+} from './permissions';
+import { MAX_PAGE_SIZE, Page, QueryOptions } from './query';
+import { RlsHarnessConfig, RlsReport, formatRlsReport, runRlsScenarios } from './rlsHarness';
+import { buildEventPrepItems, carryOverProgress } from './prepGeneration';
+import { SeedOptions, SeedReport, generateSeedData } from './seedData';
+import { RealtimeManager } from './realtime';
+import { CompanyPresence } from './presence';
+import { PrepItemOp, PrepItemOpEvent, PrepListEvent, PrepListSession, prepListTopic } from './prepListSession';
+import { SearchOptions, SearchResults, toSearchResults } from './search';
+import { ConflictResolver, OfflineError, SyncManager, SyncStatus, isCachedTable } from './sync';
+import {
+  AuthExpiredError,
+  DatabaseError,
+  FieldError,
+  NotFoundError,
+  PermissionDeniedError,
+  ValidationError,
+  toDatabaseError,
+  withStatus
+} from './errors';
+import { ConnectionHealth, ResilienceConfig, ResilientExecutor } from './resilience';
+import { UnitSystem, normalizeIngredients, scaleRecipe } from './ingredients';
+import { formatFieldErrors, prepItemSchema, validateSchema } from './schemas';
+import {
+  ImportOptions,
+  ImportPreview,
+  ImportResult,
+  RecipeFormat,
+  methodsToCsv,
+  previewMethodCsv,
+  previewRecipeCsv,
+  previewRecipeJsonLd,
+  recipesToCsv,
+  recipesToJsonLd
+} from './recipeFormats';
+import {
+  SchemaDriftReport,
+  WriteSurface,
+  detectLiveDrift,
+  detectMigrationDrift,
+  writeSurfaceOf
+} from './schemaDrift';
+
+export type {
+  Company,
+  CompanyInvite,
+  CompanyMember,
+  CompanyRole,
+  Container,
+  Event,
+  EventQueryOptions,
+  EventRecipe,
+  Ingredient,
+  InviteRole,
+  Method,
+  PrepItem,
+  PrepList,
+  Recipe,
+  TrashItem,
+  TrashTable,
+  UserProfile
+} from './entities';
+export type { PermissionAction, PermissionCheck, PermissionSubject, PermissionTable } from './permissions';
+export type { FilterOperator, Page, QueryFilter, QueryOptions, QuerySort } from './query';
+export type { RlsHarnessConfig, RlsReport, RlsScenario, RlsScenarioResult } from './rlsHarness';
+export { defaultRlsScenarios, formatRlsReport, toJUnitXml } from './rlsHarness';
+export type { ConflictResolution, ConflictResolver, ResolvedConflict, SyncConflict, SyncStatus } from './sync';
+export { OfflineError, conflictResolvers } from './sync';
+export type { DatabaseErrorKind, DatabaseErrorOptions, FieldError } from './errors';
+export {
+  AuthExpiredError,
+  ConflictError,
+  DatabaseError,
+  NetworkError,
+  NotFoundError,
+  PermissionDeniedError,
+  SchemaMissingError,
+  ValidationError,
+  toDatabaseError
+} from './errors';
+export type { CircuitBreakerPolicy, ConnectionHealth, ResilienceConfig, RetryPolicy } from './resilience';
+export { CircuitOpenError, TimeoutError, isTransientError } from './resilience';
+export type { InvalidRow, SaveOptions } from './Repository';
+export type { ArrayMergeConflict, ArrayMergeOptions, ArrayMergeResult } from './merge';
+export { ingredientKey, mergeArrays, mergeIngredients, mergePrepItems, prepItemKey, sameJson } from './merge';
+export type { AuditEntry, AuditOperation } from './audit';
+export type { ImportOptions, ImportPreview, ImportResult, ImportRow, RecipeFormat } from './recipeFormats';
+export { formatDuration, parseCsv, parseDuration, recipeToJsonLd, toCsv } from './recipeFormats';
+export type {
+  ArchiveData,
+  ArchiveManifest,
+  ArchiveMember,
+  ArchiveSection,
+  CollisionStrategy,
+  CompanyArchive,
+  CompanyImportOptions,
+  CompanyImportReport,
+  ImportTableSummary
+} from './companyArchive';
+export { ARCHIVE_FORMAT, ARCHIVE_VERSION, canonicalJson, verifyArchive } from './companyArchive';
+export type {
+  SeedCompany,
+  SeedCompanyReport,
+  SeedData,
+  SeedOptions,
+  SeedReport,
+  SeedUser,
+  SeedVolume
+} from './seedData';
+export { DEFAULT_SEED_VOLUME, createRandom, generateSeedData } from './seedData';
+export type { BundleAction, BundleItem, BundleItemResult, BundleItemStatus, BundleOptions, BundleResult } from './bundle';
+export type { EntitySchema, Schema } from './schemas';
+export {
+  containerSchema,
+  eventRecipeSchema,
+  eventSchema,
+  formatFieldErrors,
+  ingredientSchema,
+  methodSchema,
+  prepItemSchema,
+  prepListSchema,
+  recipeSchema,
+  rules,
+  validateSchema
+} from './schemas';
+export type {
+  PrepItemOp,
+  PrepItemOpEvent,
+  PrepItemsReplacedEvent,
+  PrepListEvent,
+  PrepListSessionState
+} from './prepListSession';
+export { PrepListSession, applyPrepItemOp } from './prepListSession';
+export type { PresenceChange, PresenceLocation, PresenceMember, PresenceProfile } from './presence';
+export { CompanyPresence } from './presence';
+export type {
+  RealtimeChange,
+  RealtimeFilter,
+  RealtimeHealth,
+  RealtimeSubscribeOptions,
+  RealtimeTable
+} from './realtime';
+export type { SearchHit, SearchMatch, SearchOptions, SearchResults } from './search';
+
+// Tables holding named kitchen records (used by the test data helpers)
+type KitchenTable = Extract<TableName, 'prep_lists' | 'events' | 'recipes' | 'methods' | 'containers'>;
+
+// save_bundle's limit per call
+const BUNDLE_LIMIT = 1000;
+
+// An archived id the database already holds (see find_taken_ids)
+interface TakenId {
+  // In the company being imported into; rows elsewhere are only copied
+  inCompany: boolean;
+  trashed: boolean;
 }
 
-interface Recipe {
-  id: string;
-  name: string;
-  description?: string;
-  ingredients: string[];
-  instructions: string[];
-  yield?: string;
-  prepTime?: number;
-  cookTime?: number;
-  totalTime?: number;
-  difficulty?: 'Easy' | 'Medium' | 'Hard';
-  tags?: string[];
-  notes?: string;
-  image?: string;
-  company_id?: string;
-  user_id?: string;
-  createdAt?: string;
-  updatedAt?: string;
-}
-
-interface Method {
-  id: string;
-  name: string;
-  description?: string;
-  category?: string;
-  videoUrl?: string;
-  instructions: string[];
-  estimatedTime?: number;
-  difficultyLevel?: 'Beginner' | 'Intermediate' | 'Advanced';
-  tags?: string[];
-  equipment?: string[];
-  tips?: string[];
-  company_id?: string;
-  createdAt?: string;
-  updatedAt?: string;
-}
-
-interface Container {
-  id: string;
-  name: string;
-  type: string;
-  size?: string;
-  description?: string;
-  company_id?: string;
-}
+// Seed batches createTestData made, remembered per user for cleanupTestData
+const TEST_DATA_KEY = 'testData';
 
 export class DatabaseService {
   private static isInitialized = false;
   private static connectionPromise: Promise<boolean> | null = null;
   private static currentUser: any = null;
   private static userProfile: UserProfile | null = null;
+  // Joined company presence channels, by company id
+  private static presence = new Map<string, Promise<CompanyPresence>>();
+  // Role per company for the signed-in user, cached until auth or membership changes
+  private static companyRoles: Map<string, CompanyRole> | null = null;
 
   // Initialize the service and set up auth listener
   static async initialize(): Promise<void> {
@@ -105,11 +236,23 @@ export class DatabaseService {
       const { data: { session } } = await supabase.auth.getSession();
       this.currentUser = session?.user || null;
 
+      // Each user gets their own offline cache and write queue
+      this.sync.start();
+      await this.sync.useNamespace(this.currentUser?.id || 'anonymous');
+
       // Listen for auth changes
       supabase.auth.onAuthStateChange((event, session) => {
+        const userChanged = (session?.user?.id || null) !== (this.currentUser?.id || null);
         this.currentUser = session?.user || null;
         this.userProfile = null; // Reset profile cache
+        this.companyRoles = null;
         this.connectionPromise = null; // Reset connection cache on auth change
+        void this.sync.useNamespace(this.currentUser?.id || 'anonymous');
+        // Channels were authorised for the previous user
+        if (userChanged) {
+          this.realtime.resubscribeAll();
+          void this.leaveAllPresence();
+        }
         console.log(`[DatabaseService] Auth state changed: ${event}`);
       });
 
@@ -117,7 +260,7 @@ export class DatabaseService {
       console.log('[DatabaseService] Initialized successfully');
     } catch (error) {
       console.error('[DatabaseService] Initialization failed:', error);
-      throw error;
+      throw toDatabaseError(error, { operation: 'initialize' });
     }
   }
 
@@ -131,24 +274,31 @@ export class DatabaseService {
       const { data: existingProfile, error: fetchError } = await supabase
         .from('user_profiles')
         .select('*')
-        .eq('user_id', this.currentUser.id)
+        .eq('id', this.currentUser.id)
         .single();
 
       if (existingProfile && !fetchError) {
         this.userProfile = existingProfile;
+        void this.sync.remember('userProfile', existingProfile);
+        return this.userProfile;
+      }
+
+      // Offline: keep stamping saves with the last known active company
+      if (fetchError && this.sync.handleFailure(fetchError)) {
+        this.userProfile = await this.sync.recall<UserProfile>('userProfile');
         return this.userProfile;
       }
 
       // If no profile exists, create one
       const newProfile = {
-        user_id: this.currentUser.id,
+        id: this.currentUser.id,
         email: this.currentUser.email,
-        display_name: this.currentUser.user_metadata?.full_name || null
+        full_name: this.currentUser.user_metadata?.full_name || null
       };
 
       const { data: createdProfile, error: createError } = await supabase
         .from('user_profiles')
-        .upsert(newProfile, { onConflict: 'user_id' })
+        .upsert(newProfile, { onConflict: 'id' })
         .select()
         .single();
 
@@ -158,6 +308,7 @@ export class DatabaseService {
       }
 
       this.userProfile = createdProfile;
+      void this.sync.remember('userProfile', createdProfile);
       return this.userProfile;
     } catch (error) {
       console.error('[DatabaseService] Error ensuring user profile:', error);
@@ -165,14 +316,19 @@ export class DatabaseService {
     }
   }
 
-  // Improved connection testing with proper error handling
+  // Explicit connectivity probe for diagnostics; ordinary calls no longer run
+  // it first and report through getConnectionHealth instead
   static async testConnection(): Promise<boolean> {
     // Return existing connection test if in progress
     if (this.connectionPromise) {
       return this.connectionPromise;
     }
 
-    this.connectionPromise = this._performConnectionTest();
+    // A failed test is not cached, so the next call tries again
+    this.connectionPromise = this._performConnectionTest().then(connected => {
+      if (!connected) this.connectionPromise = null;
+      return connected;
+    });
     return this.connectionPromise;
   }
 
@@ -220,376 +376,781 @@ export class DatabaseService {
     }
   }
 
-  // Enhanced error handling wrapper
+  // Timeouts, retries and the circuit breaker for every database call
+  private static readonly executor = new ResilientExecutor();
+
+  // e.g. configureResilience({ operations: { 'recipes.load': { timeoutMs: 5000 } } })
+  static configureResilience(config: Partial<ResilienceConfig>): void {
+    this.executor.configure(config);
+  }
+
+  // Health seen by real calls (there is no pre-flight probe); see also testConnection
+  static getConnectionHealth(): ConnectionHealth {
+    return this.executor.getHealth();
+  }
+
+  // Runs a database call with the retry policy and rethrows failures as the
+  // DatabaseError family. `table` defaults to the prefix of 'table.method' names.
   private static async executeWithErrorHandling<T>(
     operation: string,
-    fn: () => Promise<T>
+    fn: () => Promise<T>,
+    table: TableName | null = null
   ): Promise<T> {
     try {
-      // Ensure connection is available
-      const isConnected = await this.testConnection();
-      if (!isConnected) {
-        throw new Error('Database connection not available. Please check your Supabase configuration.');
+      if (!import.meta.env.VITE_SUPABASE_URL || !import.meta.env.VITE_SUPABASE_ANON_KEY) {
+        throw new OfflineError('Database connection not available. Please check your Supabase configuration.');
       }
+      await this.initialize();
 
       // Ensure user profile exists for authenticated operations
       if (this.currentUser) {
         await this.ensureUserProfile();
       }
 
-      return await fn();
+      return await this.executor.run(operation, fn);
     } catch (error: any) {
-      // Enhanced error logging with context
+      const failure = toDatabaseError(error, {
+        operation,
+        table: table || (operation.includes('.') ? operation.split('.')[0] : null)
+      });
+      // Already retried here; enclosing operations should not retry it again
+      this.executor.markHandled(failure);
+
       console.error(`[DatabaseService:${operation}] Operation failed:`, {
-        error: error.message,
-        code: error.code,
-        details: error.details,
-        hint: error.hint,
+        kind: failure.kind,
+        error: failure.message,
+        code: failure.code,
+        details: error?.details,
+        hint: error?.hint,
         user: this.currentUser?.id || 'unauthenticated'
       });
 
-      // Provide better error messages for common issues
-      if (error.code === '42P01') {
-        throw new Error(`Table not found. Please ensure database migrations have been run.`);
-      }
-      if (error.code === '42501' || error.message?.includes('RLS')) {
-        throw new Error(`Access denied. Please check Row Level Security policies or authentication.`);
-      }
-      if (error.code === '23505') {
-        throw new Error(`Duplicate entry detected. This item may already exist.`);
-      }
-      if (error.message?.includes('JWT')) {
-        throw new Error(`Authentication token invalid. Please refresh and try again.`);
-      }
-
-      throw error;
+      throw failure;
     }
   }
 
-  // Prep Lists with improved error handling
-  static async savePrepList(prepList: PrepList): Promise<PrepList> {
-    return this.executeWithErrorHandling('savePrepList', async () => {
-      // Validate required fields
-      if (!prepList.id || !prepList.name?.trim()) {
-        throw new Error('Prep list must have a valid ID and name');
-      }
+  // Builds a repository whose calls run through the shared error handling
+  private static createRepository<TDomain extends { id: string }, TRow extends { id: string }>(
+    definition: Omit<RepositoryConfig<TDomain, TRow>, 'context' | 'execute'>
+  ): Repository<TDomain, TRow> {
+    return new Repository<TDomain, TRow>({
+      ...definition,
+      context: () => ({
+        userId: this.currentUser?.id || null,
+        companyId: this.userProfile?.company_id || null
+      }),
+      execute: (operation, fn) => this.executeWithErrorHandling(operation, fn),
+      sync: isCachedTable(definition.table) ? this.sync : undefined
+    });
+  }
 
-      // Sanitize data
-      const sanitizedList = {
-        id: prepList.id,
-        name: prepList.name.trim(),
-        items: Array.isArray(prepList.items) ? prepList.items : [],
-        company_id: prepList.company_id || null,
-        user_id: this.currentUser?.id || null
-      };
+  // Offline cache and write queue shared by the kitchen table repositories
+  private static readonly sync = new SyncManager();
+
+  // Per-table repositories: save, saveMany, load, getById, delete, deleteMany
+  static readonly prepLists = this.createRepository(prepListTable);
+  static readonly events = this.createRepository(eventTable);
+  static readonly eventRecipes = this.createRepository(eventRecipeTable);
+  static readonly recipes = this.createRepository(recipeTable);
+  static readonly methods = this.createRepository(methodTable);
+  static readonly containers = this.createRepository(containerTable);
+
+  // Typed postgres_changes subscriptions, delivered as the same domain models
+  // the load methods return
+  static readonly realtime = new RealtimeManager(supabase as unknown as SupabaseClient, {
+    prep_lists: row => this.prepLists.tryFromRow(row),
+    events: row => this.events.tryFromRow(row),
+    event_recipes: row => this.eventRecipes.tryFromRow(row),
+    recipes: row => this.recipes.tryFromRow(row),
+    methods: row => this.methods.tryFromRow(row),
+    containers: row => this.containers.tryFromRow(row)
+  });
+
+  // Company tables are written through the RPCs and methods below, not upserts
+  private static readonly companies = this.createRepository(companyTable);
+  private static readonly companyMembers = this.createRepository(companyMemberTable);
+  private static readonly companyInvites = this.createRepository(companyInviteTable);
+
+  private static async loadCompanyRoles(): Promise<Map<string, CompanyRole>> {
+    if (!this.currentUser) return new Map();
+    if (this.companyRoles) return this.companyRoles;
+
+    const { data, error, status } = await supabase
+      .from('company_employees')
+      .select('company_id, role')
+      .eq('auth_user_id', this.currentUser.id);
+
+    if (error) {
+      // Offline: decide with the roles seen last time; RLS re-checks on replay
+      const remembered = this.sync.handleFailure(error)
+        ? await this.sync.recall<[string, CompanyRole][]>('companyRoles')
+        : null;
+      if (!remembered) throw toDatabaseError(withStatus(error, status), { operation: 'loadCompanyRoles', table: 'company_employees' });
+      return new Map(remembered);
+    }
+    this.companyRoles = new Map((data || []).map(row => [row.company_id, row.role]));
+    void this.sync.remember('companyRoles', [...this.companyRoles]);
+    return this.companyRoles;
+  }
 
-      const { data, error } = await supabase
-        .from('prep_lists')
-        .upsert(sanitizedList, {
-          onConflict: 'id',
-          ignoreDuplicates: false
-        })
-        .select()
-        .single();
+  // Checks the role permission matrix (the same one RLS enforces). A subject
+  // without company_id or user_id gets the active company and the caller, as
+  // saves stamp new rows; without a subject the check is for such a new row.
+  static async permissionFor(
+    action: PermissionAction,
+    table: PermissionTable,
+    subject?: PermissionSubject
+  ): Promise<PermissionCheck> {
+    if (this.currentUser) {
+      await this.ensureUserProfile();
+    }
 
-      if (error) throw error;
+    return checkPermission(
+      action,
+      table,
+      {
+        company_id: subject?.company_id === undefined ? this.getActiveCompanyId() : subject.company_id,
+        user_id: subject?.user_id === undefined ? this.currentUser?.id || null : subject.user_id
+      },
+      { userId: this.currentUser?.id || null, roles: await this.loadCompanyRoles() }
+    );
+  }
 
-      return {
-        id: data.id,
-        name: data.name,
-        items: data.items || [],
-        company_id: data.company_id,
-        user_id: data.user_id,
-        created_at: data.created_at,
-        updated_at: data.updated_at
-      };
-    });
+  // e.g. can('delete', 'recipes', recipe) or can('complete', 'events')
+  static async can(action: PermissionAction, table: PermissionTable, subject?: PermissionSubject): Promise<boolean> {
+    return (await this.permissionFor(action, table, subject)).allowed;
   }
 
-  static async loadPrepLists(): Promise<PrepList[]> {
-    return this.executeWithErrorHandling('loadPrepLists', async () => {
-      const { data, error } = await supabase
-        .from('prep_lists')
-        .select('*')
-        .order('created_at', { ascending: false });
+  // Fails before the request is sent, with the reason RLS would otherwise hide
+  private static async assertCan(action: PermissionAction, table: PermissionTable, subject?: PermissionSubject): Promise<void> {
+    let check: PermissionCheck;
+    try {
+      check = await this.permissionFor(action, table, subject);
+    } catch (error) {
+      // Offline with no roles remembered: the write is queued and RLS decides on replay
+      if (this.sync.handleFailure(error)) return;
+      throw toDatabaseError(error, { operation: `${table}.${action}`, table });
+    }
+    if (!check.allowed) {
+      throw new PermissionDeniedError(`Permission denied: ${check.reason}`, { operation: `${table}.${action}`, table });
+    }
+  }
 
-      if (error) throw error;
+  private static async assertCanDelete<T extends PermissionSubject & { id: string }>(
+    table: PermissionTable,
+    repository: Repository<T, any>,
+    id: string
+  ): Promise<void> {
+    const existing = await repository.getById(id);
+    if (existing) {
+      await this.assertCan('delete', table, existing);
+    }
+  }
 
-      // Validate and clean data
-      return (data || [])
-        .filter(item => item && item.id && item.name)
-        .map(item => ({
-          id: item.id,
-          name: item.name,
-          items: Array.isArray(item.items) ? item.items : [],
-          company_id: item.company_id,
-          user_id: item.user_id,
-          created_at: item.created_at,
-          updated_at: item.updated_at
-        }));
-    });
+  // Prep Lists
+  static async savePrepList(prepList: PrepList, options?: SaveOptions): Promise<PrepList> {
+    await this.assertCan('save', 'prep_lists', prepList);
+    return this.prepLists.save(prepList, options);
+  }
+
+  // Without options returns every row; with options returns one page
+  static loadPrepLists(): Promise<PrepList[]>;
+  static loadPrepLists(options: QueryOptions<PrepListRow>): Promise<Page<PrepList>>;
+  static async loadPrepLists(options?: QueryOptions<PrepListRow>): Promise<PrepList[] | Page<PrepList>> {
+    return options ? this.prepLists.query(options) : this.prepLists.load();
   }
 
   static async deletePrepList(id: string): Promise<void> {
-    return this.executeWithErrorHandling('deletePrepList', async () => {
-      if (!id?.trim()) {
-        throw new Error('Valid ID required for deletion');
+    await this.assertCanDelete('prep_lists', this.prepLists, id);
+    return this.prepLists.delete(id);
+  }
+
+  // Applies one item edit atomically on the server and broadcasts it to
+  // everyone with the list open; opId lets a session recognise its own echo
+  static async applyPrepItemOp(listId: string, op: PrepItemOp, opId?: string): Promise<PrepItemOpEvent> {
+    await this.assertCan('save', 'prep_lists');
+    if (op.type === 'add') {
+      const fields = validateSchema(prepItemSchema, op.item).map(error => ({ ...error, path: `item.${error.path}` }));
+      if (fields.length > 0) {
+        throw new ValidationError(`Invalid prep item: ${formatFieldErrors(fields)}`, { operation: 'applyPrepItemOp', table: 'prep_lists', fields });
       }
+    }
 
-      const { error } = await supabase
-        .from('prep_lists')
-        .delete()
-        .eq('id', id.trim());
+    return this.executeWithErrorHandling('applyPrepItemOp', async () => {
+      const { data, error, status } = await supabase.rpc('apply_prep_item_op', {
+        target_list: listId,
+        op: op as unknown as Json,
+        op_id: opId
+      });
 
-      if (error) throw error;
+      if (error) throw withStatus(error, status);
+      return data as unknown as PrepItemOpEvent;
     });
   }
 
-  // Events with improved error handling
-  static async saveEvent(event: Event): Promise<Event> {
-    return this.executeWithErrorHandling('saveEvent', async () => {
-      // Validate required fields
-      if (!event.id || !event.name?.trim() || !event.date) {
-        throw new Error('Event must have valid ID, name, and date');
+  // Live view of one prep list; call close() when done
+  static async openPrepListSession(listId: string): Promise<PrepListSession> {
+    const session = new PrepListSession(listId, {
+      load: async () => {
+        const list = await this.prepLists.getById(listId);
+        return list ? { items: list.items, version: list.item_version ?? 0 } : null;
+      },
+      send: (op, opId) => this.applyPrepItemOp(listId, op, opId),
+      listen: ({ onEvent, onSubscribed }) => {
+        const forward = ({ payload }: { payload: PrepListEvent }) => onEvent(payload);
+        const channel = supabase
+          .channel(prepListTopic(listId), { config: { private: true } })
+          .on('broadcast', { event: 'item_op' }, forward)
+          .on('broadcast', { event: 'items_replaced' }, forward)
+          .subscribe(status => {
+            console.log(`[DatabaseService] Prep list channel for '${listId}': ${status}`);
+            if (status === 'SUBSCRIBED') onSubscribed();
+          });
+
+        return () => {
+          void supabase.removeChannel(channel);
+        };
       }
+    });
 
-      const sanitizedEvent = {
-        id: event.id,
-        name: event.name.trim(),
-        date: event.date,
-        invoice_number: event.invoiceNumber || null,
-        prep_items: Array.isArray(event.prepItems) ? event.prepItems : [],
-        status: event.status || 'planning',
-        total_servings: Number(event.totalServings) || 0,
-        company_id: event.company_id || null,
-        user_id: this.currentUser?.id || null
-      };
+    return session.open();
+  }
 
-      const { data, error } = await supabase
-        .from('events')
-        .upsert(sanitizedEvent, {
-          onConflict: 'id',
-          ignoreDuplicates: false
-        })
-        .select()
-        .single();
+  // Events
+  static async saveEvent(event: Event, options?: SaveOptions): Promise<Event> {
+    await this.assertCan('save', 'events', event);
+    if (event.status === 'complete') {
+      await this.assertCan('complete', 'events', event);
+    }
+    return this.events.save(event, options);
+  }
 
-      if (error) throw error;
-
-      return {
-        id: data.id,
-        name: data.name,
-        date: data.date,
-        invoiceNumber: data.invoice_number,
-        prepItems: data.prep_items || [],
-        status: data.status,
-        totalServings: data.total_servings || 0,
-        company_id: data.company_id,
-        user_id: data.user_id,
-        created_at: data.created_at,
-        updated_at: data.updated_at
-      };
+  // e.g. loadEvents({ status: ['planning', 'prep'], dateFrom: '2025-01-01', limit: 25 })
+  static loadEvents(): Promise<Event[]>;
+  static loadEvents(options: EventQueryOptions): Promise<Page<Event>>;
+  static async loadEvents(options?: EventQueryOptions): Promise<Event[] | Page<Event>> {
+    return options ? this.events.query(toEventQuery(options)) : this.events.load();
+  }
+
+  static async deleteEvent(id: string): Promise<void> {
+    await this.assertCanDelete('events', this.events, id);
+    return this.events.delete(id);
+  }
+
+  // Event recipes: which recipes an event serves, and for how many
+  static async loadEventRecipes(eventId: string): Promise<EventRecipe[]> {
+    const page = await this.eventRecipes.query({
+      filters: [{ column: 'event_id', operator: 'eq', value: eventId }],
+      sort: { column: 'sort_order', ascending: true },
+      limit: MAX_PAGE_SIZE
     });
+    return page.items;
   }
 
-  static async loadEvents(): Promise<Event[]> {
-    return this.executeWithErrorHandling('loadEvents', async () => {
-      const { data, error } = await supabase
-        .from('events')
-        .select('*')
-        .order('date', { ascending: false });
+  static async linkRecipeToEvent(
+    eventId: string,
+    recipeId: string,
+    servings: number,
+    details: { notes?: string; sortOrder?: number } = {}
+  ): Promise<EventRecipe> {
+    const existing = (await this.loadEventRecipes(eventId)).find(link => link.recipeId === recipeId);
+    const event = await this.events.getById(eventId);
+    if (!event) {
+      throw new NotFoundError(`Event ${eventId} not found`, { operation: 'linkRecipeToEvent', table: 'events' });
+    }
 
-      if (error) throw error;
+    const link: EventRecipe = {
+      id: existing?.id || crypto.randomUUID(),
+      eventId,
+      recipeId,
+      servings,
+      notes: details.notes ?? existing?.notes,
+      sortOrder: details.sortOrder ?? existing?.sortOrder ?? 0,
+      company_id: existing?.company_id,
+      user_id: existing?.user_id
+    };
+    await this.assertCan('save', 'event_recipes', link);
+    return this.eventRecipes.save(link);
+  }
 
-      return (data || [])
-        .filter(item => item && item.id && item.name)
-        .map(item => ({
-          id: item.id,
-          name: item.name,
-          date: item.date,
-          invoiceNumber: item.invoice_number,
-          prepItems: Array.isArray(item.prep_items) ? item.prep_items : [],
-          status: item.status || 'planning',
-          totalServings: Number(item.total_servings) || 0,
-          company_id: item.company_id,
-          user_id: item.user_id,
-          created_at: item.created_at,
-          updated_at: item.updated_at
-        }));
-    });
+  static async unlinkRecipeFromEvent(eventId: string, recipeId: string): Promise<void> {
+    const existing = (await this.loadEventRecipes(eventId)).find(link => link.recipeId === recipeId);
+    if (existing) {
+      await this.assertCan('delete', 'event_recipes', existing);
+      await this.eventRecipes.delete(existing.id);
+    }
   }
 
-  // Recipes with improved validation
-  static async saveRecipe(recipe: Recipe): Promise<Recipe> {
-    return this.executeWithErrorHandling('saveRecipe', async () => {
-      if (!recipe.id || !recipe.name?.trim()) {
-        throw new Error('Recipe must have valid ID and name');
+  // Scales each linked recipe, merges shared ingredients and saves the result
+  // as the event's prep list (regenerating keeps items already ticked off)
+  static async generatePrepListForEvent(
+    eventId: string,
+    options: { name?: string; system?: UnitSystem } = {}
+  ): Promise<PrepList> {
+    return this.executeWithErrorHandling('generatePrepListForEvent', async () => {
+      const event = await this.events.getById(eventId);
+      if (!event) {
+        throw new NotFoundError(`Event ${eventId} not found`, { table: 'events' });
       }
 
-      const sanitizedRecipe = {
-        id: recipe.id,
-        name: recipe.name.trim(),
-        description: recipe.description?.trim() || null,
-        ingredients: Array.isArray(recipe.ingredients) ? recipe.ingredients : [],
-        instructions: Array.isArray(recipe.instructions) ? recipe.instructions : [],
-        yield: recipe.yield?.trim() || null,
-        prep_time: Number(recipe.prepTime) || null,
-        cook_time: Number(recipe.cookTime) || null,
-        total_time: Number(recipe.totalTime) || null,
-        difficulty: recipe.difficulty || 'Medium',
-        tags: Array.isArray(recipe.tags) ? recipe.tags : [],
-        notes: recipe.notes?.trim() || null,
-        image: recipe.image?.trim() || null,
-        company_id: recipe.company_id || null,
-        user_id: this.currentUser?.id || null
-      };
+      const links = await this.loadEventRecipes(eventId);
+      if (links.length === 0) {
+        throw new ValidationError(`Event '${event.name}' has no linked recipes to generate a prep list from`, { table: 'event_recipes' });
+      }
 
-      const { data, error } = await supabase
-        .from('recipes')
-        .upsert(sanitizedRecipe, {
-          onConflict: 'id',
-          ignoreDuplicates: false
-        })
-        .select()
-        .single();
+      const recipes = await this.recipes.query({
+        filters: [{ column: 'id', operator: 'in', value: [...new Set(links.map(link => link.recipeId))] }],
+        limit: MAX_PAGE_SIZE
+      });
 
-      if (error) throw error;
-
-      return {
-        id: data.id,
-        name: data.name,
-        description: data.description,
-        ingredients: data.ingredients || [],
-        instructions: data.instructions || [],
-        yield: data.yield,
-        prepTime: data.prep_time,
-        cookTime: data.cook_time,
-        totalTime: data.total_time,
-        difficulty: data.difficulty,
-        tags: data.tags || [],
-        notes: data.notes,
-        image: data.image,
-        company_id: data.company_id,
-        user_id: data.user_id,
-        createdAt: data.created_at,
-        updatedAt: data.updated_at
+      const existing = await this.prepLists.query({
+        filters: [{ column: 'event_id', operator: 'eq', value: eventId }],
+        limit: 1
+      });
+      const previous = existing.items[0];
+
+      const items = buildEventPrepItems(eventId, links, recipes.items, { system: options.system });
+      const prepList: PrepList = {
+        id: previous?.id || crypto.randomUUID(),
+        name: options.name || previous?.name || `${event.name} Prep`,
+        items: carryOverProgress(previous?.items, items),
+        event_id: eventId,
+        company_id: previous?.company_id,
+        user_id: previous?.user_id
       };
+      await this.assertCan('save', 'prep_lists', prepList);
+      return this.prepLists.save(prepList);
     });
   }
 
-  static async loadRecipes(): Promise<Recipe[]> {
-    return this.executeWithErrorHandling('loadRecipes', async () => {
-      const { data, error } = await supabase
+  // Recipes
+  static async saveRecipe(recipe: Recipe, options?: SaveOptions): Promise<Recipe> {
+    await this.assertCan('save', 'recipes', recipe);
+    return this.recipes.save(recipe, options);
+  }
+
+  // Without options returns every row; with options returns one page
+  static loadRecipes(): Promise<Recipe[]>;
+  static loadRecipes(options: QueryOptions<RecipeRow>): Promise<Page<Recipe>>;
+  static async loadRecipes(options?: QueryOptions<RecipeRow>): Promise<Recipe[] | Page<Recipe>> {
+    return options ? this.recipes.query(options) : this.recipes.load();
+  }
+
+  static async deleteRecipe(id: string): Promise<void> {
+    await this.assertCanDelete('recipes', this.recipes, id);
+    return this.recipes.delete(id);
+  }
+
+  // Scales ingredient quantities from the recipe's yield to `servings`
+  static scaleRecipe(recipe: Recipe, servings: number, options: { baseServings?: number; system?: UnitSystem } = {}): Recipe {
+    return scaleRecipe(recipe, servings, options);
+  }
+
+  // Rewrites recipes still stored with free-text ingredients in structured form
+  static async upgradeRecipeIngredients(): Promise<number> {
+    await this.assertCan('save', 'recipes');
+    return this.executeWithErrorHandling('upgradeRecipeIngredients', async () => {
+      const { data, error, status } = await supabase
         .from('recipes')
-        .select('*')
-        .order('created_at', { ascending: false });
+        .select('id, ingredients');
 
-      if (error) throw error;
+      if (error) throw withStatus(error, status);
 
-      return (data || [])
-        .filter(item => item && item.id && item.name)
-        .map(item => ({
-          id: item.id,
-          name: item.name,
-          description: item.description,
-          ingredients: Array.isArray(item.ingredients) ? item.ingredients : [],
-          instructions: Array.isArray(item.instructions) ? item.instructions : [],
-          yield: item.yield,
-          prepTime: item.prep_time,
-          cookTime: item.cook_time,
-          totalTime: item.total_time,
-          difficulty: item.difficulty || 'Medium',
-          tags: Array.isArray(item.tags) ? item.tags : [],
-          notes: item.notes,
-          image: item.image,
-          company_id: item.company_id,
-          user_id: item.user_id,
-          createdAt: item.created_at,
-          updatedAt: item.updated_at
-        }));
+      const legacy = (data || []).filter(row =>
+        Array.isArray(row.ingredients) && row.ingredients.some(entry => typeof entry === 'string')
+      );
+
+      for (const row of legacy) {
+        const { error: updateError, status: updateStatus } = await supabase
+          .from('recipes')
+          .update({ ingredients: normalizeIngredients(row.ingredients) as unknown as Json })
+          .eq('id', row.id);
+
+        if (updateError) throw withStatus(updateError, updateStatus);
+      }
+
+      console.log(`[DatabaseService] Upgraded ingredients on ${legacy.length} recipes`);
+      return legacy.length;
     });
   }
 
-  // Method and Container operations (similar pattern)
-  static async saveMethod(method: Method): Promise<Method> {
-    return this.executeWithErrorHandling('saveMethod', async () => {
-      if (!method.id || !method.name?.trim()) {
-        throw new Error('Method must have valid ID and name');
-      }
+  // Ranked fuzzy/full-text recipe search (search_recipes RPC)
+  static async searchRecipes(
+    options: SearchOptions<NonNullable<Recipe['difficulty']>> = {}
+  ): Promise<SearchResults<Recipe>> {
+    return this.executeWithErrorHandling('searchRecipes', async () => {
+      const { data, error, status } = await supabase.rpc('search_recipes', {
+        search_query: options.query?.trim() || undefined,
+        tag_filter: options.tags?.length ? options.tags : undefined,
+        difficulty_filter: options.difficulty?.length ? options.difficulty : undefined,
+        min_total_time: options.minTime,
+        max_total_time: options.maxTime,
+        result_limit: options.limit,
+        result_offset: options.offset
+      });
 
-      const sanitizedMethod = {
-        id: method.id,
-        name: method.name.trim(),
-        description: method.description?.trim() || null,
-        category: method.category?.trim() || null,
-        video_url: method.videoUrl?.trim() || null,
-        instructions: Array.isArray(method.instructions) ? method.instructions : [],
-        estimated_time: Number(method.estimatedTime) || null,
-        difficulty_level: method.difficultyLevel || 'Intermediate',
-        tags: Array.isArray(method.tags) ? method.tags : [],
-        equipment: Array.isArray(method.equipment) ? method.equipment : [],
-        tips: Array.isArray(method.tips) ? method.tips : [],
-        company_id: method.company_id || null,
-        user_id: this.currentUser?.id || null
-      };
+      if (error) throw withStatus(error, status);
+      return toSearchResults(data || [], row => this.recipes.fromRow(row));
+    });
+  }
 
-      const { data, error } = await supabase
-        .from('methods')
-        .upsert(sanitizedMethod, { onConflict: 'id' })
-        .select()
-        .single();
+  // Parses CSV or schema.org Recipe JSON-LD (a JSON document or a whole web
+  // page) and validates every row, without saving anything
+  static previewRecipeImport(source: string, format: RecipeFormat): ImportPreview<Recipe> {
+    return format === 'csv' ? previewRecipeCsv(source) : previewRecipeJsonLd(source);
+  }
 
-      if (error) throw error;
-
-      return {
-        id: data.id,
-        name: data.name,
-        description: data.description,
-        category: data.category,
-        videoUrl: data.video_url,
-        instructions: data.instructions || [],
-        estimatedTime: data.estimated_time,
-        difficultyLevel: data.difficulty_level,
-        tags: data.tags || [],
-        equipment: data.equipment || [],
-        tips: data.tips || [],
-        company_id: data.company_id,
-        createdAt: data.created_at,
-        updatedAt: data.updated_at
-      };
+  // Saves the previewed recipes in one bundle. Rows keep an id they bring
+  // along, so re-importing an export updates instead of duplicating.
+  static async importRecipes(source: string, format: RecipeFormat, options: ImportOptions = {}): Promise<ImportResult<Recipe>> {
+    return this.importPreview('recipes', this.previewRecipeImport(source, format), options);
+  }
+
+  // Every recipe unless a list is given
+  static async exportRecipes(format: RecipeFormat, recipes?: Recipe[]): Promise<string> {
+    const rows = recipes || await this.loadRecipes();
+    return format === 'csv' ? recipesToCsv(rows) : recipesToJsonLd(rows);
+  }
+
+  // Methods
+  static async saveMethod(method: Method, options?: SaveOptions): Promise<Method> {
+    await this.assertCan('save', 'methods', method);
+    return this.methods.save(method, options);
+  }
+
+  // Without options returns every row; with options returns one page
+  static loadMethods(): Promise<Method[]>;
+  static loadMethods(options: QueryOptions<MethodRow>): Promise<Page<Method>>;
+  static async loadMethods(options?: QueryOptions<MethodRow>): Promise<Method[] | Page<Method>> {
+    return options ? this.methods.query(options) : this.methods.load();
+  }
+
+  static async deleteMethod(id: string): Promise<void> {
+    await this.assertCanDelete('methods', this.methods, id);
+    return this.methods.delete(id);
+  }
+
+  // Ranked fuzzy/full-text method search (search_methods RPC)
+  static async searchMethods(
+    options: SearchOptions<NonNullable<Method['difficultyLevel']>> = {}
+  ): Promise<SearchResults<Method>> {
+    return this.executeWithErrorHandling('searchMethods', async () => {
+      const { data, error, status } = await supabase.rpc('search_methods', {
+        search_query: options.query?.trim() || undefined,
+        tag_filter: options.tags?.length ? options.tags : undefined,
+        difficulty_filter: options.difficulty?.length ? options.difficulty : undefined,
+        min_estimated_time: options.minTime,
+        max_estimated_time: options.maxTime,
+        result_limit: options.limit,
+        result_offset: options.offset
+      });
+
+      if (error) throw withStatus(error, status);
+      return toSearchResults(data || [], row => this.methods.fromRow(row));
     });
   }
 
-  static async loadMethods(): Promise<Method[]> {
-    return this.executeWithErrorHandling('loadMethods', async () => {
-      const { data, error } = await supabase
-        .from('methods')
-        .select('*')
-        .order('created_at', { ascending: false });
+  static previewMethodImport(csv: string): ImportPreview<Method> {
+    return previewMethodCsv(csv);
+  }
+
+  static async importMethods(csv: string, options: ImportOptions = {}): Promise<ImportResult<Method>> {
+    return this.importPreview('methods', this.previewMethodImport(csv), options);
+  }
 
-      if (error) throw error;
+  static async exportMethods(methods?: Method[]): Promise<string> {
+    return methodsToCsv(methods || await this.loadMethods());
+  }
+
+  // Containers
+  static async saveContainer(container: Container, options?: SaveOptions): Promise<Container> {
+    await this.assertCan('save', 'containers', container);
+    return this.containers.save(container, options);
+  }
+
+  // Without options returns every row; with options returns one page
+  static loadContainers(): Promise<Container[]>;
+  static loadContainers(options: QueryOptions<ContainerRow>): Promise<Page<Container>>;
+  static async loadContainers(options?: QueryOptions<ContainerRow>): Promise<Container[] | Page<Container>> {
+    return options ? this.containers.query(options) : this.containers.load();
+  }
+
+  static async deleteContainer(id: string): Promise<void> {
+    await this.assertCanDelete('containers', this.containers, id);
+    return this.containers.delete(id);
+  }
 
-      return (data || [])
-        .filter(item => item && item.id && item.name)
-        .map(item => ({
+  // Trash: deleting a kitchen row moves it here until it is restored or
+  // purged. Restoring an event or recipe also restores its event recipes.
+  static async listTrash(tables: TrashTable[] = TRASH_TABLES): Promise<TrashItem[]> {
+    const groups = await Promise.all(tables.map(async table => {
+      const items = await this.repositoryFor(table).trash();
+      return items.map(item => {
+        // Recipes and methods use camelCase timestamps
+        const stamped = item as { deleted_at?: string | null; deletedAt?: string | null };
+        return { table, id: item.id, deletedAt: stamped.deleted_at || stamped.deletedAt || '', item } as TrashItem;
+      });
+    }));
+    return groups.flat().sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  static async restorePrepList(id: string): Promise<PrepList> {
+    await this.assertCan('delete', 'prep_lists');
+    return this.prepLists.restore(id);
+  }
+
+  static async restoreEvent(id: string): Promise<Event> {
+    await this.assertCan('delete', 'events');
+    return this.events.restore(id);
+  }
+
+  static async restoreEventRecipe(id: string): Promise<EventRecipe> {
+    await this.assertCan('delete', 'event_recipes');
+    return this.eventRecipes.restore(id);
+  }
+
+  static async restoreRecipe(id: string): Promise<Recipe> {
+    await this.assertCan('delete', 'recipes');
+    return this.recipes.restore(id);
+  }
+
+  static async restoreMethod(id: string): Promise<Method> {
+    await this.assertCan('delete', 'methods');
+    return this.methods.restore(id);
+  }
+
+  static async restoreContainer(id: string): Promise<Container> {
+    await this.assertCan('delete', 'containers');
+    return this.containers.restore(id);
+  }
+
+  // Permanently deletes rows trashed more than `olderThanDays` ago (0 empties
+  // the trash). Purges the active company, which needs an admin, or the
+  // caller's personal rows when they have no company. The nightly job purges
+  // after 30 days.
+  static async purgeTrash(options: { olderThanDays?: number } = {}): Promise<Record<TrashTable, number>> {
+    const days = options.olderThanDays ?? 30;
+    if (!(days >= 0)) {
+      throw new ValidationError('olderThanDays must be zero or more', { operation: 'purgeTrash' });
+    }
+
+    return this.executeWithErrorHandling('purgeTrash', async () => {
+      await this.ensureUserProfile();
+      const { data, error, status } = await supabase.rpc('purge_deleted_rows', {
+        retention: `${days} days`,
+        target_company: this.userProfile?.company_id || undefined
+      });
+
+      if (error) throw withStatus(error, status);
+      const purged = Object.fromEntries(TRASH_TABLES.map(table => [table, 0])) as Record<TrashTable, number>;
+      for (const row of data || []) purged[row.table_name as TrashTable] = row.purged;
+      console.log('[DatabaseService] Purged trash', purged);
+      return purged;
+    });
+  }
+
+  // Change history: every insert, update, delete, restore and revert of a
+  // kitchen row is recorded by the database (audit_log)
+  static async getHistory(table: TrashTable, id: string, options: { limit?: number } = {}): Promise<AuditEntry[]> {
+    return this.repositoryFor(table).history(id, options);
+  }
+
+  // Puts a row back to how it was at a version from getHistory
+  static async revertTo<T extends TrashTable>(table: T, id: string, version: number): Promise<TrashModels[T]> {
+    await this.assertCan('save', table);
+    return this.repositoryFor(table).revert(id, version);
+  }
+
+  private static repositoryFor<T extends TrashTable>(table: T): Repository<TrashModels[T], any> {
+    const repositories: { [K in TrashTable]: Repository<TrashModels[K], any> } = {
+      prep_lists: this.prepLists,
+      events: this.events,
+      event_recipes: this.eventRecipes,
+      recipes: this.recipes,
+      methods: this.methods,
+      containers: this.containers
+    };
+    return repositories[table];
+  }
+
+  // Bundles: inserts, updates and deletes across the kitchen tables in one
+  // transaction (save_bundle), e.g. an imported event with its recipes, links
+  // and prep list. Needs a connection; nothing is queued offline.
+  static async saveBundle(items: BundleItem[], options: BundleOptions = {}): Promise<BundleResult> {
+    return this.sendBundle('saveBundle', items, operations => supabase.rpc('save_bundle', {
+      operations,
+      atomic: options.atomic ?? true
+    }));
+  }
+
+  // Validates and permission-checks a bundle, sends it through `send` (an RPC
+  // that answers like save_bundle) and caches the rows it wrote
+  private static async sendBundle(
+    operation: string,
+    items: BundleItem[],
+    send: (operations: Json) => PromiseLike<{ data: Json | null; error: PostgrestError | null; status: number }>
+  ): Promise<BundleResult> {
+    if (items.length === 0) return { committed: true, items: [] };
+
+    const fields: FieldError[] = [];
+    items.forEach((item, index) => {
+      if (item.action === 'delete') {
+        if (!item.id?.trim()) fields.push({ path: `[${index}].id`, message: 'Required' });
+        return;
+      }
+      const repository = this.repositoryFor(item.table) as Repository<TrashModels[TrashTable], any>;
+      for (const error of repository.validate(item.entity)) {
+        fields.push({ path: error.path ? `[${index}].${error.path}` : `[${index}]`, message: error.message });
+      }
+    });
+    if (fields.length > 0) {
+      throw new ValidationError(`Invalid bundle: ${formatFieldErrors(fields)}`, { operation, fields });
+    }
+
+    // Saves are checked against the company and owner each row is written with
+    const checks = new Map<string, [PermissionAction, TrashTable, PermissionSubject]>();
+    const addCheck = (action: PermissionAction, table: TrashTable, subject: PermissionSubject = {}) => {
+      checks.set(JSON.stringify([action, table, subject.company_id, subject.user_id]), [action, table, subject]);
+    };
+    for (const item of items) {
+      if (item.action === 'delete') {
+        addCheck('delete', item.table);
+        continue;
+      }
+      const subject = { company_id: item.entity.company_id, user_id: item.entity.user_id };
+      addCheck('save', item.table, subject);
+      if (item.table === 'events' && item.entity.status === 'complete') {
+        addCheck('complete', item.table, subject);
+      }
+    }
+    for (const [action, table, subject] of checks.values()) {
+      await this.assertCan(action, table, subject);
+    }
+
+    return this.executeWithErrorHandling(operation, async () => {
+      const operations = items.map(item => item.action === 'delete'
+        ? { table: item.table, action: 'delete', id: item.id.trim() }
+        : {
+          table: item.table,
+          action: item.action || 'save',
+          row: (this.repositoryFor(item.table) as Repository<TrashModels[TrashTable], any>).toRow(item.entity)
+        });
+
+      const { data, error, status } = await send(operations as unknown as Json);
+      if (error) throw withStatus(error, status);
+
+      const result = data as unknown as BundleRpcResult;
+      const saved = new Map<TrashTable, any[]>();
+      const deleted = new Map<TrashTable, string[]>();
+      const bundleItems = result.items.map((item): BundleItemResult => {
+        if (item.status === 'saved' && item.row) saved.set(item.table, [...(saved.get(item.table) || []), item.row]);
+        if (item.status === 'deleted' && item.id) deleted.set(item.table, [...(deleted.get(item.table) || []), item.id]);
+        return {
+          index: item.index,
+          table: item.table,
+          action: item.action,
           id: item.id,
-          name: item.name,
-          description: item.description,
-          category: item.category,
-          videoUrl: item.video_url,
-          instructions: Array.isArray(item.instructions) ? item.instructions : [],
-          estimatedTime: item.estimated_time,
-          difficultyLevel: item.difficulty_level || 'Intermediate',
-          tags: Array.isArray(item.tags) ? item.tags : [],
-          equipment: Array.isArray(item.equipment) ? item.equipment : [],
-          tips: Array.isArray(item.tips) ? item.tips : [],
-          company_id: item.company_id,
-          createdAt: item.created_at,
-          updatedAt: item.updated_at
-        }));
+          status: item.status,
+          entity: item.row ? this.repositoryFor(item.table).tryFromRow(item.row) : null,
+          error: item.error && toDatabaseError(item.error, { operation, table: item.table })
+        };
+      });
+
+      for (const [table, rows] of saved) {
+        if (isCachedTable(table)) await this.sync.cacheRows(table, rows);
+      }
+      for (const [table, ids] of deleted) {
+        if (isCachedTable(table)) await this.sync.uncache(table, ids);
+      }
+
+      const failures = bundleItems.filter(item => item.status === 'failed');
+      if (failures.length > 0) {
+        console.warn(`[DatabaseService] Bundle ${result.committed ? 'partly applied' : 'rolled back'}:`, failures.map(item => `[${item.index}] ${item.table}: ${item.error?.message}`));
+      }
+      return { committed: result.committed, items: bundleItems };
     });
   }
 
+  // Nothing is saved while any row is invalid, unless skipInvalid
+  private static async importPreview<T extends 'recipes' | 'methods'>(
+    table: T,
+    preview: ImportPreview<TrashModels[T]>,
+    options: ImportOptions
+  ): Promise<ImportResult<TrashModels[T]>> {
+    if (preview.invalidCount > 0 && !options.skipInvalid) {
+      const fields = preview.rows.flatMap(row => row.errors.map(error => ({
+        path: `row ${row.row}${error.path ? `.${error.path}` : ''}`,
+        message: error.message
+      })));
+      throw new ValidationError(`${preview.invalidCount} of ${preview.rows.length} rows cannot be imported: ${formatFieldErrors(fields)}`, {
+        operation: `${table}.import`,
+        table,
+        fields
+      });
+    }
+    if (preview.valid.length === 0) return { preview, saved: [] };
+
+    const result = await this.saveBundle(preview.valid.map(entity => ({ table, entity }) as BundleItem));
+    if (!result.committed) {
+      const failed = result.items.find(item => item.error);
+      throw failed?.error || new DatabaseError('Import was rolled back', { operation: `${table}.import`, table });
+    }
+    return { preview, saved: result.items.map(item => item.entity as TrashModels[T]) };
+  }
+
+  // Offline sync: kitchen tables are read from and written to a local cache
+  // while the server is unreachable, and queued writes replay on reconnect
+  static getSyncStatus(): SyncStatus {
+    return this.sync.getStatus();
+  }
+
+  // Calls the listener now and on every change; returns an unsubscribe function
+  static onSyncStatusChange(listener: (status: SyncStatus) => void): () => void {
+    return this.sync.subscribe(listener);
+  }
+
+  // Replays queued writes now instead of waiting for the reconnect probe
+  static async syncNow(): Promise<SyncStatus> {
+    await this.sync.sync();
+    return this.sync.getStatus();
+  }
+
+  // e.g. setConflictResolver(conflictResolvers.serverWins); defaults to lastWriteWins
+  static setConflictResolver(resolver: ConflictResolver): void {
+    this.sync.setResolver(resolver);
+  }
+
+  // Writes the server rejected stay queued as failed until retried or discarded
+  static async retryFailedSync(): Promise<SyncStatus> {
+    await this.sync.retryFailed();
+    return this.sync.getStatus();
+  }
+
+  static async discardFailedSync(): Promise<void> {
+    await this.sync.discardFailed();
+  }
+
+  // Columns each write path sends to the database
+  private static writeSurfaces(): WriteSurface[] {
+    return [
+      { source: 'ensureUserProfile', table: 'user_profiles', columns: ['id', 'email', 'full_name'] },
+      { source: 'updateUserProfile', table: 'user_profiles', columns: ['full_name', 'company_id'] },
+      writeSurfaceOf('savePrepList', prepListTable),
+      writeSurfaceOf('saveEvent', eventTable),
+      writeSurfaceOf('linkRecipeToEvent', eventRecipeTable),
+      writeSurfaceOf('saveRecipe', recipeTable),
+      writeSurfaceOf('saveMethod', methodTable),
+      writeSurfaceOf('saveContainer', containerTable),
+      writeSurfaceOf('inviteToCompany', companyInviteTable),
+      { source: 'changeMemberRole', table: 'company_employees', columns: ['role'] }
+    ];
+  }
+
+  // Offline schema drift report against supabase/migrations
+  static checkSchemaDrift(): SchemaDriftReport {
+    return detectMigrationDrift(this.writeSurfaces());
+  }
+
   // Enhanced connection diagnostics
   static async diagnoseConnection(): Promise<{
     configured: boolean;
@@ -600,6 +1161,7 @@ export class DatabaseService {
     user: any;
     userProfile: UserProfile | null;
     rlsStatus: { [table: string]: { enabled: boolean, policies: string[] } };
+    schemaDrift: SchemaDriftReport | null;
   }> {
     const diagnosis = {
       configured: false,
@@ -609,7 +1171,8 @@ export class DatabaseService {
       errors: [] as string[],
       user: null as any,
       userProfile: null as UserProfile | null,
-      rlsStatus: {} as { [table: string]: { enabled: boolean, policies: string[] } }
+      rlsStatus: {} as { [table: string]: { enabled: boolean, policies: string[] } },
+      schemaDrift: null as SchemaDriftReport | null
     };
 
     try {
@@ -641,7 +1204,7 @@ export class DatabaseService {
         }
 
         // Test table accessibility
-        const tablesToTest = ['user_profiles', 'prep_lists', 'events', 'recipes', 'methods', 'containers'];
+        const tablesToTest: TableName[] = ['user_profiles', 'prep_lists', 'events', 'recipes', 'methods', 'containers'];
         
         for (const table of tablesToTest) {
           try {
@@ -678,10 +1241,13 @@ export class DatabaseService {
           { table: 'containers', schema: 'public' }
         ];
 
+        // System catalogs are not part of the generated Database type
+        const catalog = supabase as unknown as SupabaseClient;
+
         for (const { table, schema } of rlsQueries) {
           try {
             // Check if RLS is enabled
-            const { data: rlsData } = await supabase
+            const { data: rlsData } = await catalog
               .from('pg_class')
               .select('relname, relrowsecurity')
               .eq('relname', table)
@@ -690,15 +1256,15 @@ export class DatabaseService {
             const rlsEnabled = rlsData?.relrowsecurity || false;
 
             // Get policies for this table
-            const { data: policies } = await supabase
-              .from('pg_policies') 
+            const { data: policies } = await catalog
+              .from('pg_policies')
               .select('policyname, permissive, roles, cmd')
               .eq('schemaname', schema)
               .eq('tablename', table);
               
             diagnosis.rlsStatus[table] = {
               enabled: rlsEnabled,
-              policies: (policies || []).map(p => `${p.cmd}: ${p.policyname}`)
+              policies: (policies || []).map((p: any) => `${p.cmd}: ${p.policyname}`)
             };
           } catch (e) {
             diagnosis.rlsStatus[table] = {
@@ -707,6 +1273,26 @@ export class DatabaseService {
             };
           }
         }
+
+        // Compare service writes against the live columns
+        try {
+          const { data: columns, error: columnsError } = await catalog
+            .schema('information_schema')
+            .from('columns')
+            .select('table_name, column_name')
+            .eq('table_schema', 'public');
+
+          if (columnsError) {
+            diagnosis.errors.push(`Schema drift check unavailable: ${columnsError.message}`);
+          } else {
+            diagnosis.schemaDrift = detectLiveDrift(this.writeSurfaces(), columns || []);
+            for (const issue of diagnosis.schemaDrift.issues) {
+              diagnosis.errors.push(`Schema drift: ${issue.message}`);
+            }
+          }
+        } catch (e) {
+          diagnosis.errors.push(`Schema drift check failed: ${e instanceof Error ? e.message : 'Unknown error'}`);
+        }
       }
     } catch (error) {
       diagnosis.errors.push(`Connection diagnosis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -735,8 +1321,9 @@ export class DatabaseService {
       tables: {} as any
     };
 
-    const tablesToTest = ['prep_lists', 'events', 'recipes', 'methods', 'containers'];
-    
+    const tablesToTest: KitchenTable[] = ['prep_lists', 'events', 'recipes', 'methods', 'containers'];
+
+
     for (const table of tablesToTest) {
       result.tables[table] = {
         canRead: false,
@@ -746,18 +1333,22 @@ export class DatabaseService {
         errors: []
       };
 
-      // Test READ
+      // Test READ (supabase-js reports failures in `error` rather than throwing)
       try {
-        await supabase.from(table).select('id').limit(1);
-        result.tables[table].canRead = true;
+        const { error: readError } = await supabase.from(table).select('id').limit(1);
+        if (readError) {
+          result.tables[table].errors.push(`Read: ${readError.message}`);
+        } else {
+          result.tables[table].canRead = true;
+        }
       } catch (error: any) {
         result.tables[table].errors.push(`Read: ${error.message}`);
       }
 
       // Only test write operations if authenticated
       if (this.currentUser) {
-        const testId = `rls-test-${Date.now()}`;
-        
+        const testId = crypto.randomUUID();
+
         // Test INSERT
         try {
           let testData;
@@ -781,28 +1372,50 @@ export class DatabaseService {
               continue;
           }
 
+          // Written into the active company, like the save* methods
+          testData = { ...testData, company_id: this.getActiveCompanyId() };
+
           const { error: insertError } = await supabase.from(table).insert(testData);
           if (!insertError) {
             result.tables[table].canInsert = true;
 
             // Test UPDATE
             try {
-              const { error: updateError } = await supabase
+              const { data: updated, error: updateError } = await supabase
                 .from(table)
                 .update({ name: 'RLS Test Updated' })
-                .eq('id', testId);
-              if (!updateError) result.tables[table].canUpdate = true;
+                .eq('id', testId)
+                .select('id');
+              if (updateError) {
+                result.tables[table].errors.push(`Update: ${updateError.message}`);
+              } else if (!updated?.length) {
+                result.tables[table].errors.push('Update: no rows affected (filtered by RLS)');
+              } else {
+                result.tables[table].canUpdate = true;
+              }
             } catch (error: any) {
               result.tables[table].errors.push(`Update: ${error.message}`);
             }
 
-            // Test DELETE (cleanup)
+            // Test DELETE (cleanup). Deletes move the row to the trash and
+            // report no rows, so the trash is checked instead
             try {
               const { error: deleteError } = await supabase
                 .from(table)
                 .delete()
                 .eq('id', testId);
-              if (!deleteError) result.tables[table].canDelete = true;
+              if (deleteError) {
+                result.tables[table].errors.push(`Delete: ${deleteError.message}`);
+              } else {
+                const { data: trash, error: trashError } = await supabase.rpc('list_trash', { target_table: table });
+                if (trashError) {
+                  result.tables[table].errors.push(`Delete: ${trashError.message}`);
+                } else if (!(trash || []).some(row => (row as { id?: string } | null)?.id === testId)) {
+                  result.tables[table].errors.push('Delete: row not moved to the trash (filtered by RLS)');
+                } else {
+                  result.tables[table].canDelete = true;
+                }
+              }
             } catch (error: any) {
               result.tables[table].errors.push(`Delete: ${error.message}`);
             }
@@ -818,6 +1431,14 @@ export class DatabaseService {
     return result;
   }
 
+  // Multi-user RLS scenarios (anon, company A member and admin, company B
+  // member); export the report with formatRlsReport or toJUnitXml
+  static async runRlsScenarios(config: RlsHarnessConfig): Promise<RlsReport> {
+    const report = await runRlsScenarios(config);
+    console.log(`[DatabaseService] RLS scenarios:\n${formatRlsReport(report)}`);
+    return report;
+  }
+
   // User Profile Management
   static async getUserProfile(): Promise<UserProfile | null> {
     if (!this.currentUser) return null;
@@ -831,105 +1452,97 @@ export class DatabaseService {
   }
 
   static async updateUserProfile(updates: Partial<UserProfile>): Promise<UserProfile | null> {
-    if (!this.currentUser) {
-      throw new Error('Authentication required to update profile');
-    }
+    this.requireUser('update profile');
 
     return this.executeWithErrorHandling('updateUserProfile', async () => {
-      const { data, error } = await supabase
+      const { data, error, status } = await supabase
         .from('user_profiles')
         .update({
-          display_name: updates.display_name,
+          full_name: updates.full_name,
           company_id: updates.company_id,
         })
-        .eq('user_id', this.currentUser.id)
+        .eq('id', this.currentUser.id)
         .select()
         .single();
 
-      if (error) throw error;
+      if (error) throw withStatus(error, status);
 
       this.userProfile = data; // Update cache
       return data;
     });
   }
 
-  // Auth helpers with better error handling
-  static async signUp(email: string, password: string, userData?: { fullName?: string }): Promise<{ success: boolean; error?: string }> {
-    try {
-      const { data, error } = await supabase.auth.signUp({
-        email,
-        password,
-        options: {
-          data: {
-            full_name: userData?.fullName || null
-          }
+  // Auth helpers; failures throw the same DatabaseError family as data calls
+  // (ConflictError for an existing user, PermissionDeniedError for bad credentials)
+  static async signUp(email: string, password: string, userData?: { fullName?: string }): Promise<void> {
+    const { data, error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: {
+        data: {
+          full_name: userData?.fullName || null
         }
-      });
-
-      if (error) {
-        console.error('[DatabaseService] Sign up failed:', error);
-        return { success: false, error: error.message };
       }
+    }).catch(error => ({ data: { user: null }, error }));
 
-      if (data.user) {
-        // Create user profile
-        await this.ensureUserProfile();
-      }
+    if (error) {
+      console.error('[DatabaseService] Sign up failed:', error);
+      throw toDatabaseError(error, { operation: 'signUp' });
+    }
 
-      this.connectionPromise = null; // Reset connection cache
-      return { success: true };
-    } catch (error: any) {
-      console.error('[DatabaseService] Sign up error:', error);
-      return { success: false, error: error.message || 'Unknown error during sign up' };
+    if (data.user) {
+      // Create user profile
+      await this.ensureUserProfile();
     }
-  }
 
-  static async signIn(email: string, password: string): Promise<{ success: boolean; error?: string }> {
-    try {
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email,
-        password
-      });
+    this.connectionPromise = null; // Reset connection cache
+  }
 
-      if (error) {
-        console.error('[DatabaseService] Sign in failed:', error);
-        return { success: false, error: error.message };
-      }
+  static async signIn(email: string, password: string): Promise<void> {
+    const { data, error } = await supabase.auth.signInWithPassword({
+      email,
+      password
+    }).catch(error => ({ data: { user: null }, error }));
 
-      if (data.user) {
-        this.currentUser = data.user;
-        await this.ensureUserProfile();
-      }
+    if (error) {
+      console.error('[DatabaseService] Sign in failed:', error);
+      throw toDatabaseError(error, { operation: 'signIn' });
+    }
 
-      this.connectionPromise = null; // Reset connection cache
-      return { success: true };
-    } catch (error: any) {
-      console.error('[DatabaseService] Sign in error:', error);
-      return { success: false, error: error.message || 'Unknown error during sign in' };
+    if (data.user) {
+      this.currentUser = data.user;
+      this.companyRoles = null;
+      this.executor.reset();
+      await this.sync.useNamespace(data.user.id);
+      await this.ensureUserProfile();
     }
+
+    this.connectionPromise = null; // Reset connection cache
   }
 
-  static async signOut(): Promise<{ success: boolean; error?: string }> {
-    try {
-      const { error } = await supabase.auth.signOut();
-      if (error) {
-        return { success: false, error: error.message };
-      }
-      
-      this.currentUser = null;
-      this.userProfile = null;
-      this.connectionPromise = null; // Reset connection cache
-      return { success: true };
-    } catch (error: any) {
-      console.error('[DatabaseService] Sign out error:', error);
-      return { success: false, error: error.message || 'Unknown error during sign out' };
+  static async signOut(): Promise<void> {
+    const { error } = await supabase.auth.signOut().catch(error => ({ error }));
+    if (error) {
+      console.error('[DatabaseService] Sign out failed:', error);
+      throw toDatabaseError(error, { operation: 'signOut' });
     }
+
+    this.currentUser = null;
+    this.userProfile = null;
+    this.companyRoles = null;
+    this.connectionPromise = null; // Reset connection cache
+    await this.leaveAllPresence();
+    await this.sync.useNamespace('anonymous');
   }
 
   // Legacy method for backward compatibility  
   static async signIn_legacy(email: string, password: string): Promise<boolean> {
-    const result = await this.signIn(email, password);
-    return result.success;
+    try {
+      await this.signIn(email, password);
+      return true;
+    } catch {
+      return false;
+    }
   }
 
   static getCurrentUser(): any {
@@ -940,24 +1553,473 @@ export class DatabaseService {
     return this.userProfile;
   }
 
-  // Company management helpers
-  static async getUsersByCompany(companyId: string): Promise<UserProfile[]> {
+  // Company management
+  static getActiveCompanyId(): string | null {
+    return this.userProfile?.company_id || null;
+  }
+
+  // Re-reads the cached profile after the server changed it (e.g. the active company)
+  private static async refreshUserProfile(): Promise<UserProfile | null> {
+    this.userProfile = null;
+    this.companyRoles = null;
+    return this.ensureUserProfile();
+  }
+
+  private static requireUser(action: string): string {
     if (!this.currentUser) {
-      throw new Error('Authentication required');
+      throw new AuthExpiredError(`Authentication required to ${action}`);
+    }
+    return this.currentUser.id;
+  }
+
+  // Creates a company owned by the caller; it becomes active if none was set
+  static async createCompany(name: string): Promise<Company> {
+    this.requireUser('create a company');
+    if (!name?.trim()) {
+      throw new ValidationError('Company name is required', { operation: 'createCompany', table: 'companies' });
+    }
+
+    return this.executeWithErrorHandling('createCompany', async () => {
+      const { data: companyId, error, status } = await supabase.rpc('create_company', { company_name: name.trim() });
+      if (error) throw withStatus(error, status);
+
+      await this.refreshUserProfile();
+      const company = await this.companies.getById(companyId);
+      if (!company) {
+        throw new NotFoundError(`Company ${companyId} was created but could not be loaded`, { table: 'companies' });
+      }
+      return company;
+    });
+  }
+
+  // Companies the caller belongs to
+  static async loadCompanies(): Promise<Company[]> {
+    this.requireUser('load companies');
+    return this.companies.load();
+  }
+
+  // Switches the company that saves are stamped with
+  static async setActiveCompany(companyId: string): Promise<UserProfile | null> {
+    const userId = this.requireUser('switch company');
+    const membership = await this.companyMembers.query({
+      filters: [
+        { column: 'company_id', operator: 'eq', value: companyId },
+        { column: 'auth_user_id', operator: 'eq', value: userId }
+      ],
+      limit: 1
+    });
+    if (membership.items.length === 0) {
+      throw new PermissionDeniedError(`You are not a member of company ${companyId}`, {
+        operation: 'setActiveCompany',
+        table: 'company_employees'
+      });
     }
 
-    return this.executeWithErrorHandling('getUsersByCompany', async () => {
-      const { data, error } = await supabase
+    return this.updateUserProfile({ company_id: companyId });
+  }
+
+  static async loadCompanyMembers(companyId: string): Promise<CompanyMember[]> {
+    this.requireUser('load company members');
+
+    return this.executeWithErrorHandling('loadCompanyMembers', async () => {
+      const members = await this.companyMembers.query({
+        filters: [{ column: 'company_id', operator: 'eq', value: companyId }],
+        limit: MAX_PAGE_SIZE
+      });
+      if (members.items.length === 0) return [];
+
+      const { data: profiles, error, status } = await supabase
         .from('user_profiles')
         .select('*')
-        .eq('company_id', companyId);
+        .in('id', members.items.map(member => member.userId));
+      if (error) throw withStatus(error, status);
+
+      const profilesById = new Map((profiles || []).map(profile => [profile.id, profile as UserProfile]));
+      return members.items.map(member => ({ ...member, profile: profilesById.get(member.userId) || null }));
+    });
+  }
+
+  // Members come from company_employees; profiles are attached where visible
+  static async getUsersByCompany(companyId: string): Promise<UserProfile[]> {
+    const members = await this.loadCompanyMembers(companyId);
+    return members.flatMap(member => (member.profile ? [member.profile] : []));
+  }
+
+  // Invites an email address; re-inviting replaces any pending invite
+  static async inviteToCompany(companyId: string, email: string, role: InviteRole = 'staff'): Promise<CompanyInvite> {
+    this.requireUser('invite members');
+
+    return this.executeWithErrorHandling('inviteToCompany', async () => {
+      const normalized = email.trim().toLowerCase();
+      const pending = (await this.loadCompanyInvites(companyId)).find(invite => invite.email === normalized);
+      if (pending) {
+        await this.companyInvites.delete(pending.id);
+      }
+
+      return this.companyInvites.save({
+        id: crypto.randomUUID(),
+        companyId,
+        email: normalized,
+        role
+      });
+    });
+  }
 
-      if (error) throw error;
-      return data || [];
+  // Pending invites for a company (owners and admins only)
+  static async loadCompanyInvites(companyId: string): Promise<CompanyInvite[]> {
+    const page = await this.companyInvites.query({
+      filters: [
+        { column: 'company_id', operator: 'eq', value: companyId },
+        { column: 'accepted_at', operator: 'is', value: null }
+      ],
+      limit: MAX_PAGE_SIZE
     });
+    return page.items;
   }
 
-  // Real-time subscription testing
+  static async revokeCompanyInvite(inviteId: string): Promise<void> {
+    await this.companyInvites.delete(inviteId);
+  }
+
+  // Joins the inviting company and makes it the active one
+  static async acceptCompanyInvite(token: string): Promise<Company> {
+    this.requireUser('accept an invite');
+
+    return this.executeWithErrorHandling('acceptCompanyInvite', async () => {
+      const { data: companyId, error, status } = await supabase.rpc('accept_company_invite', { invite_token: token });
+      if (error) throw withStatus(error, status);
+
+      await this.refreshUserProfile();
+      const company = await this.companies.getById(companyId);
+      if (!company) {
+        throw new NotFoundError(`Joined company ${companyId} could not be loaded`, { table: 'companies' });
+      }
+      return company;
+    });
+  }
+
+  // Owners and admins change roles; only owners grant or revoke ownership
+  static async changeMemberRole(companyId: string, userId: string, role: CompanyRole): Promise<CompanyMember> {
+    this.requireUser('change member roles');
+    if (!COMPANY_ROLES.includes(role)) {
+      throw new ValidationError(`Unknown company role '${role}'`, { operation: 'changeMemberRole', table: 'company_employees' });
+    }
+
+    return this.executeWithErrorHandling('changeMemberRole', async () => {
+      const { data, error, status } = await supabase
+        .from('company_employees')
+        .update({ role })
+        .eq('company_id', companyId)
+        .eq('auth_user_id', userId)
+        .select()
+        .maybeSingle();
+
+      if (error) throw withStatus(error, status);
+      if (!data) {
+        throw new NotFoundError(`Member ${userId} not found in company ${companyId}, or you cannot manage its members`);
+      }
+      if (userId === this.currentUser.id) {
+        this.companyRoles = null;
+      }
+      return this.companyMembers.fromRow(data);
+    });
+  }
+
+  // Removes a member (or leaves, when userId is the caller)
+  static async removeCompanyMember(companyId: string, userId: string): Promise<void> {
+    const currentUserId = this.requireUser('remove members');
+
+    return this.executeWithErrorHandling('removeCompanyMember', async () => {
+      const { data, error, status } = await supabase
+        .from('company_employees')
+        .delete()
+        .eq('company_id', companyId)
+        .eq('auth_user_id', userId)
+        .select('id');
+
+      if (error) throw withStatus(error, status);
+      if (!data || data.length === 0) {
+        throw new NotFoundError(`Member ${userId} not found in company ${companyId}, or you cannot manage its members`);
+      }
+
+      if (userId === currentUserId) {
+        this.companyRoles = null;
+      }
+
+      // Leaving the active company leaves nothing to stamp saves with
+      if (userId === currentUserId && this.getActiveCompanyId() === companyId) {
+        await this.updateUserProfile({ company_id: null });
+      }
+    });
+  }
+
+  // Backups: every live kitchen row of a company (the active one by default)
+  // and its member list, as a versioned archive with checksums. Owners and
+  // admins only; needs a connection, since the offline cache may be partial.
+  static async exportCompanyData(companyId?: string): Promise<CompanyArchive> {
+    this.requireUser('export company data');
+    await this.ensureUserProfile();
+    const targetId = companyId || this.getActiveCompanyId();
+    if (!targetId) {
+      throw new ValidationError('No company to export', { operation: 'exportCompanyData', table: 'companies' });
+    }
+    await this.assertCompanyAdmin(targetId, 'export company data');
+
+    return this.executeWithErrorHandling('exportCompanyData', async () => {
+      if (!this.sync.isOnline()) {
+        throw new OfflineError('Exporting company data needs a connection');
+      }
+      const company = await this.companies.getById(targetId);
+      if (!company) {
+        throw new NotFoundError(`Company ${targetId} not found`, { table: 'companies' });
+      }
+
+      const members = await this.loadCompanyMembers(targetId);
+      const data = {
+        members: members.map(member => ({
+          userId: member.userId,
+          email: member.profile?.email || null,
+          fullName: member.profile?.full_name || null,
+          role: member.role
+        }))
+      } as ArchiveData;
+      for (const table of ARCHIVE_TABLES) {
+        (data as Record<TrashTable, unknown[]>)[table] = await this.loadCompanyRows(table, targetId);
+      }
+
+      const archive = await buildArchive(company, data, this.currentUser?.email || null);
+      console.log('[DatabaseService] Exported company data', archive.manifest.counts);
+      return archive;
+    });
+  }
+
+  // Loads an archive into the active company. Every row is validated, ids
+  // that already exist are handled per `onCollision` (a new id by default),
+  // and references follow remapped ids. With dryRun nothing is written;
+  // otherwise any problem aborts the import with a ValidationError. Rows are
+  // owned by the importer. Archives over 1000 rows are written in several
+  // transactions, in dependency order.
+  static async importCompanyData(archive: CompanyArchive, options: CompanyImportOptions = {}): Promise<CompanyImportReport> {
+    this.requireUser('import company data');
+    await this.ensureUserProfile();
+    const targetId = this.getActiveCompanyId();
+    if (!targetId) {
+      throw new ValidationError('Choose an active company to import into', { operation: 'importCompanyData', table: 'companies' });
+    }
+    await this.assertCompanyAdmin(targetId, 'import company data');
+
+    return this.executeWithErrorHandling('importCompanyData', async () => {
+      const onCollision = options.onCollision || 'remap';
+      const report: CompanyImportReport = {
+        dryRun: Boolean(options.dryRun),
+        ok: false,
+        problems: await verifyArchive(archive),
+        warnings: [],
+        tables: Object.fromEntries(ARCHIVE_TABLES.map(table => [table, { total: 0, created: 0, overwritten: 0, skipped: 0, remapped: 0 }])) as Record<TrashTable, ImportTableSummary>,
+        idMap: {},
+        missingMembers: [],
+        invitedMembers: [],
+        written: false
+      };
+      if (report.problems.length > 0) return this.finishImport(report);
+
+      const { data } = archive;
+      for (const table of ARCHIVE_TABLES) {
+        const repository = this.repositoryFor(table) as Repository<TrashModels[TrashTable], any>;
+        data[table].forEach((entity, index) => {
+          for (const error of repository.validate(entity)) {
+            report.problems.push({ path: `${table}[${index}]${error.path ? `.${error.path}` : ''}`, message: error.message });
+          }
+        });
+      }
+
+      // Ids already taken in any company, trashed rows included
+      const existing = new Map<string, TakenId>();
+      if (!options.remapIds) {
+        for (const table of ARCHIVE_TABLES) {
+          for (const [id, taken] of await this.takenIds(table, targetId, data[table].map(row => row.id))) existing.set(id, taken);
+        }
+      }
+
+      const idMap = new Map<string, string>();
+      const skipped = new Set<string>();
+      const overwritten = new Set<string>();
+      // Overwritten rows that are in the target's trash, restored in the import
+      const restored = new Map<string, TrashTable>();
+      for (const table of ARCHIVE_TABLES) {
+        const summary = report.tables[table];
+        data[table].forEach((row, index) => {
+          summary.total++;
+          const taken = existing.get(row.id);
+          // Rows of another company are never taken over, only copied
+          const strategy = options.remapIds || (taken && !taken.inCompany) ? 'remap' : taken ? onCollision : null;
+          if (strategy === 'remap') {
+            idMap.set(row.id, crypto.randomUUID());
+            summary.created++;
+            summary.remapped++;
+          } else if (strategy === 'skip') {
+            skipped.add(row.id);
+            summary.skipped++;
+          } else if (strategy === 'overwrite') {
+            overwritten.add(row.id);
+            if (taken?.trashed) restored.set(row.id, table);
+            summary.overwritten++;
+          } else if (strategy === 'fail') {
+            const where = taken?.trashed ? "in this company's trash" : 'in this company';
+            report.problems.push({ path: `${table}[${index}].id`, message: `${row.id} already exists ${where}` });
+          } else {
+            summary.created++;
+          }
+        });
+      }
+
+      const live = [...existing].filter(([, taken]) => taken.inCompany && !taken.trashed).map(([id]) => id);
+      const available = new Set([...ARCHIVE_TABLES.flatMap(table => data[table].map(row => row.id)), ...live]);
+      report.problems.push(...missingReferences(data, available));
+      const remapped = remapArchive(data, idMap, available, report.warnings);
+      report.idMap = Object.fromEntries(idMap);
+
+      const targetEmails = new Set((await this.loadCompanyMembers(targetId))
+        .map(member => member.profile?.email?.toLowerCase())
+        .filter(Boolean));
+      report.missingMembers = data.members
+        .map(member => member.email?.toLowerCase())
+        .filter((email): email is string => Boolean(email) && !targetEmails.has(email));
+
+      if (report.problems.length > 0 || options.dryRun) return this.finishImport(report);
+
+      const items: BundleItem[] = ARCHIVE_TABLES.flatMap(table =>
+        data[table].flatMap((row, index): BundleItem[] => skipped.has(row.id)
+          ? []
+          : [{
+            table,
+            action: overwritten.has(row.id) ? 'save' : 'insert',
+            // Archived ownership and seed batches are dropped, so saves stamp
+            // the importer and target
+            entity: { ...remapped[table][index], company_id: undefined, user_id: undefined, seed_batch: undefined }
+          } as BundleItem])
+      );
+      // One transaction, trashed rows restored and all, however large the archive
+      const result = await this.sendBundle('importCompanyData', items, operations => supabase.rpc('import_company_bundle', {
+        target_company: targetId,
+        restores: [...restored].map(([id, table]) => ({ table, id })),
+        operations
+      }));
+      if (!result.committed) {
+        const failure = result.items.find(item => item.error)?.error;
+        throw failure || new DatabaseError('Import was rolled back', { operation: 'importCompanyData' });
+      }
+      report.written = items.length > 0;
+
+      if (options.inviteMembers) {
+        for (const member of data.members) {
+          const email = member.email?.toLowerCase();
+          if (!email || !report.missingMembers.includes(email)) continue;
+          await this.inviteToCompany(targetId, email, member.role === 'owner' ? 'admin' : member.role);
+          report.invitedMembers.push(email);
+        }
+      }
+
+      console.log('[DatabaseService] Imported company data', report.tables);
+      return this.finishImport(report);
+    });
+  }
+
+  private static finishImport(report: CompanyImportReport): CompanyImportReport {
+    report.ok = report.problems.length === 0;
+    if (!report.ok && !report.dryRun) {
+      throw new ValidationError(`Archive cannot be imported: ${formatFieldErrors(report.problems)}`, {
+        operation: 'importCompanyData',
+        fields: report.problems
+      });
+    }
+    return report;
+  }
+
+  private static async assertCompanyAdmin(companyId: string, action: string): Promise<void> {
+    const role = (await this.loadCompanyRoles()).get(companyId);
+    if (role !== 'owner' && role !== 'admin') {
+      throw new PermissionDeniedError(`Only company owners and admins can ${action}`, { operation: action, table: 'companies' });
+    }
+  }
+
+  // Every live row of one company, a page at a time
+  private static async loadCompanyRows<T extends TrashTable>(table: T, companyId: string): Promise<TrashModels[T][]> {
+    const repository = this.repositoryFor(table);
+    const rows: TrashModels[T][] = [];
+    for (let offset = 0; ; offset += MAX_PAGE_SIZE) {
+      const page = await repository.query({
+        filters: [{ column: 'company_id', operator: 'eq', value: companyId }],
+        sort: { column: 'id', ascending: true },
+        limit: MAX_PAGE_SIZE,
+        offset
+      });
+      rows.push(...page.items);
+      if (!page.hasMore) return rows;
+    }
+  }
+
+  // Which of these ids are taken, in any company and in the trash. RLS
+  // would hide both from a select, so find_taken_ids looks them up.
+  private static async takenIds(table: TrashTable, companyId: string, ids: string[]): Promise<Map<string, TakenId>> {
+    const found = new Map<string, TakenId>();
+    for (let start = 0; start < ids.length; start += 1000) {
+      const { data, error, status } = await supabase.rpc('find_taken_ids', {
+        target_table: table,
+        target_company: companyId,
+        ids: ids.slice(start, start + 1000)
+      });
+      if (error) throw withStatus(error, status);
+      for (const row of data || []) found.set(row.id, { inCompany: row.in_company, trashed: row.trashed });
+    }
+    return found;
+  }
+
+  // Joins the presence channel of a company (the active one by default). The
+  // same instance is returned until it is left, so one tab shows up once.
+  static async joinCompanyPresence(companyId?: string): Promise<CompanyPresence> {
+    const userId = this.requireUser('share presence');
+    const profile = await this.ensureUserProfile();
+    const targetId = companyId || this.getActiveCompanyId();
+    if (!targetId) {
+      throw new ValidationError('Join or create a company before sharing presence', { operation: 'joinCompanyPresence' });
+    }
+
+    const existing = this.presence.get(targetId);
+    if (existing) return existing;
+
+    const roles = await this.loadCompanyRoles();
+    const presence = new CompanyPresence(
+      targetId,
+      supabase as unknown as SupabaseClient,
+      {
+        id: userId,
+        email: profile?.email || this.currentUser?.email || '',
+        full_name: profile?.full_name || null,
+        avatar_url: profile?.avatar_url || null,
+        role: roles.get(targetId) || null
+      },
+      () => {
+        if (this.presence.get(targetId) === joining) this.presence.delete(targetId);
+      }
+    );
+
+    const joining = presence.join().catch(async error => {
+      await presence.leave();
+      throw toDatabaseError(error, { operation: 'joinCompanyPresence' });
+    });
+    this.presence.set(targetId, joining);
+    return joining;
+  }
+
+  private static async leaveAllPresence(): Promise<void> {
+    const joined = [...this.presence.values()];
+    this.presence.clear();
+    await Promise.all(joined.map(joining => joining.then(presence => presence.leave(), () => undefined)));
+  }
+
+  // Real-time subscription testing: a raw, unmanaged channel. App code should
+  // use DatabaseService.realtime.subscribe, which types, shares and reconnects
   static createRealtimeChannel(table: string, callback: (payload: any) => void) {
     try {
       const channel = supabase
@@ -974,177 +2036,186 @@ export class DatabaseService {
       return channel;
     } catch (error) {
       console.error(`[DatabaseService] Failed to create realtime channel for '${table}':`, error);
-      throw error;
+      throw toDatabaseError(error, { operation: 'createRealtimeChannel', table });
     }
   }
 
-  // Improved bulk operations
-  static async createTestData(options: { 
-    includeAuth?: boolean;
-    testEmail?: string;
-    testPassword?: string;
-  } = {}): Promise<void> {
-    return this.executeWithErrorHandling('createTestData', async () => {
-      // If auth is requested and user is not authenticated, attempt to create test user
-      if (options.includeAuth && !this.currentUser) {
-        const email = options.testEmail || 'test@prepchef.com';
-        const password = options.testPassword || 'test123456';
-        
-        console.log('[DatabaseService] Creating test user for data creation...');
-        const authResult = await this.signUp(email, password, { fullName: 'Test User' });
-        
-        if (!authResult.success) {
-          // If user already exists, try to sign in
-          const signInResult = await this.signIn(email, password);
-          if (!signInResult.success) {
-            throw new Error(`Failed to authenticate test user: ${signInResult.error}`);
-          }
-        }
-      }
-
-      if (!this.currentUser) {
-        throw new Error('Authentication required to create test data');
-      }
+  // Writes generated kitchen data (see generateSeedData) tagged with one seed
+  // batch. The first company is the active one, if there is one; further
+  // companies are created, and reused when the same batch runs again. The
+  // same seed and batch update the same rows in place. Fake staff are invited
+  // where the caller is an owner or admin. Remove it with cleanupSeedData.
+  static async seedDemoData(options: SeedOptions = {}): Promise<SeedReport> {
+    this.requireUser('seed demo data');
+    await this.ensureUserProfile();
+    const originalId = this.getActiveCompanyId();
+
+    return this.executeWithErrorHandling('seedDemoData', async () => {
+      const data = generateSeedData(options);
+      const report: SeedReport = { seed: data.seed, batch: data.batch, companies: [] };
+      const db = supabase as unknown as SupabaseClient;
+
+      const { data: tagged, error, status } = await db.from('companies').select('id, name').eq('seed_batch', data.batch);
+      if (error) throw withStatus(error, status);
+      const reused = new Map<string, string>((tagged || []).map(company => [company.name, company.id]));
 
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      
-      const testData = {
-        prepLists: [
-          {
-            id: `test-prep-list-${timestamp}`,
-            name: `Test Prep List ${new Date().toLocaleTimeString()}`,
-            items: [
-              { id: '1', name: 'Test Item 1', quantity: '5', unit: 'lbs' },
-              { id: '2', name: 'Test Item 2', quantity: '10', unit: 'pieces' }
-            ]
-          }
-        ],
-        events: [
-          {
-            id: `test-event-${timestamp}`,
-            name: `Test Event ${new Date().toLocaleTimeString()}`,
-            date: new Date().toISOString().split('T')[0],
-            status: 'planning' as const,
-            totalServings: 50,
-            prepItems: []
-          }
-        ],
-        recipes: [
-          {
-            id: `test-recipe-${timestamp}`,
-            name: `Test Recipe ${new Date().toLocaleTimeString()}`,
-            description: 'A test recipe for debugging',
-            ingredients: ['Test ingredient 1', 'Test ingredient 2'],
-            instructions: ['Test instruction 1', 'Test instruction 2'],
-            difficulty: 'Easy' as const
+      try {
+        for (const [index, generated] of data.companies.entries()) {
+          let companyId = index === 0 ? originalId : reused.get(generated.name) || null;
+          if (!companyId) {
+            companyId = (await this.createCompany(generated.name)).id;
+            const { error: tagError, status: tagStatus } = await db.from('companies').update({ seed_batch: data.batch }).eq('id', companyId);
+            if (tagError) throw withStatus(tagError, tagStatus);
           }
-        ],
-        methods: [
-          {
-            id: `test-method-${timestamp}`,
-            name: `Test Method ${new Date().toLocaleTimeString()}`,
-            description: 'A test cooking method',
-            instructions: ['Step 1', 'Step 2'],
-            difficultyLevel: 'Beginner' as const
+          // Saves are stamped with the active company
+          if (this.getActiveCompanyId() !== companyId) await this.setActiveCompany(companyId);
+
+          const rows: Record<TrashTable, TrashModels[TrashTable][]> = {
+            containers: generated.containers,
+            recipes: generated.recipes,
+            methods: generated.methods,
+            events: generated.events,
+            event_recipes: generated.eventRecipes,
+            prep_lists: generated.prepLists
+          };
+          // Re-applying a batch brings back its trashed rows, whose ids the
+          // saves below would otherwise conflict with. Tables go parents
+          // first, so links restored along with an event are not listed again.
+          for (const table of ARCHIVE_TABLES) {
+            const ids = new Set(rows[table].map(entity => entity.id));
+            const repository = this.repositoryFor(table) as Repository<TrashModels[TrashTable], any>;
+            for (const trashed of await repository.trash()) {
+              if (ids.has(trashed.id)) await repository.restore(trashed.id);
+            }
           }
-        ],
-        containers: [
-          {
-            id: `test-container-${timestamp}`,
-            name: `Test Container ${new Date().toLocaleTimeString()}`,
-            type: 'storage',
-            size: 'medium'
+
+          const items = ARCHIVE_TABLES.flatMap(table =>
+            rows[table].map(entity => ({ table, action: 'save', entity }) as BundleItem)
+          );
+          // Only save_seed_bundle may tag rows with the batch
+          for (let start = 0; start < items.length; start += BUNDLE_LIMIT) {
+            const result = await this.sendBundle('seedDemoData', items.slice(start, start + BUNDLE_LIMIT), operations =>
+              supabase.rpc('save_seed_bundle', { batch: data.batch, operations }));
+            if (!result.committed) {
+              throw result.items.find(item => item.error)?.error || new DatabaseError('Seed data was rolled back', { operation: 'seedDemoData' });
+            }
           }
-        ]
-      };
 
-      // Create test prep lists
-      for (const list of testData.prepLists) {
-        await this.savePrepList(list);
-      }
+          const invited: string[] = [];
+          const role = (await this.loadCompanyRoles()).get(companyId);
+          if (role === 'owner' || role === 'admin') {
+            const invites: string[] = [];
+            for (const user of generated.users) {
+              invites.push((await this.inviteToCompany(companyId, user.email, user.role)).id);
+              invited.push(user.email);
+            }
+            if (invites.length > 0) {
+              const { error: tagError, status: tagStatus } = await db.from('company_invites').update({ seed_batch: data.batch }).in('id', invites);
+              if (tagError) throw withStatus(tagError, tagStatus);
+            }
+          }
 
-      // Create test events  
-      for (const event of testData.events) {
-        await this.saveEvent(event);
+          report.companies.push({
+            id: companyId,
+            name: index === 0 && originalId ? (await this.companies.getById(companyId))?.name || generated.name : generated.name,
+            counts: Object.fromEntries(ARCHIVE_TABLES.map(table => [table, rows[table].length])) as Record<TrashTable, number>,
+            invited
+          });
+        }
+      } finally {
+        if (originalId && this.getActiveCompanyId() !== originalId) await this.setActiveCompany(originalId);
       }
 
-      // Create test recipes
-      for (const recipe of testData.recipes) {
-        await this.saveRecipe(recipe);
-      }
+      console.log('[DatabaseService] Seeded demo data', report);
+      return report;
+    });
+  }
 
-      // Create test methods
-      for (const method of testData.methods) {
-        await this.saveMethod(method);
+  // Permanently deletes one seed batch: the caller's rows tagged with it
+  // (trashed ones included), the invites they sent for it and the companies
+  // it created. Returns rows removed per table.
+  static async cleanupSeedData(batch: string): Promise<Record<string, number>> {
+    this.requireUser('clean up seed data');
+
+    return this.executeWithErrorHandling('cleanupSeedData', async () => {
+      const { data, error, status } = await supabase.rpc('delete_seed_batch', { batch });
+      if (error) throw withStatus(error, status);
+
+      const deleted = Object.fromEntries((data || []).map(row => [row.table_name, row.deleted]));
+      for (const table of ARCHIVE_TABLES) {
+        if (!deleted[table] || !isCachedTable(table)) continue;
+        const cached = await this.sync.cachedRows(table);
+        await this.sync.uncache(table, cached.filter(row => row.seed_batch === batch).map(row => row.id));
       }
-
-      // Create test containers
-      const containerPromises = testData.containers.map(async (container) => {
-        const { error } = await supabase
-          .from('containers')
-          .insert({
-            id: container.id,
-                description: container.size,
-                user_id: this.currentUser?.id,
-                company_id: container.company_id
-            size: container.size,
-            user_id: this.currentUser?.id
-          });
-        if (error) throw error;
-      });
-      
-      await Promise.all(containerPromises);
-
-      console.log('[DatabaseService] Test data created successfully', {
-        prepLists: testData.prepLists.length,
-        events: testData.events.length,
-        recipes: testData.recipes.length,
-        methods: testData.methods.length,
-        containers: testData.containers.length,
-        user: this.currentUser?.email
-      });
+      // The active company may have been one of the batch's
+      if (deleted.companies) await this.refreshUserProfile();
+      console.log(`[DatabaseService] Deleted seed batch ${batch}`, deleted);
+      return deleted;
     });
   }
 
-  static async cleanupTestData(): Promise<void> {
-    return this.executeWithErrorHandling('cleanupTestData', async () => {
-      if (!this.currentUser) {
-        throw new Error('Authentication required to cleanup test data');
-      }
+  // A small seed batch in the active company (a new one if there is none),
+  // with a random seed. Batches are remembered per user for cleanupTestData.
+  static async createTestData(options: { 
+    includeAuth?: boolean;
+    testEmail?: string;
+    testPassword?: string;
+  } = {}): Promise<SeedReport> {
+    // If auth is requested and user is not authenticated, attempt to create test user
+    if (options.includeAuth && !this.currentUser) {
+      const email = options.testEmail || 'test@prepchef.com';
+      const password = options.testPassword || 'test123456';
 
-      const tablesToClean = ['prep_lists', 'events', 'recipes', 'methods', 'containers'];
-      let totalDeleted = 0;
+      console.log('[DatabaseService] Creating test user for data creation...');
+      try {
+        await this.signUp(email, password, { fullName: 'Test User' });
+      } catch {
+        // If user already exists, try to sign in
+        await this.signIn(email, password);
+      }
+    }
+    this.requireUser('create test data');
+
+    const report = await this.seedDemoData({
+      seed: crypto.randomUUID(),
+      batch: crypto.randomUUID(),
+      recipes: 5,
+      methods: 3,
+      containers: 3,
+      // About a week around today
+      eventYears: 7 / 365,
+      eventsPerWeek: 3,
+      prepLists: 1,
+      usersPerCompany: 0
+    });
 
-      for (const table of tablesToClean) {
-        const { data: testItems, error: fetchError } = await supabase
-          .from(table)
-          .select('id, name')
-          .ilike('name', 'Test %')
-          .eq('user_id', this.currentUser.id);
+    const batches = await this.sync.recall<string[]>(TEST_DATA_KEY);
+    await this.sync.remember(TEST_DATA_KEY, [...(Array.isArray(batches) ? batches : []), report.batch]);
+    console.log('[DatabaseService] Test data created successfully', { ...report.companies[0]?.counts, user: this.currentUser?.email });
+    return report;
+  }
 
-        if (fetchError) {
-          console.warn(`Failed to fetch test items from ${table}:`, fetchError);
-          continue;
-        }
+  // Deletes every batch createTestData made for this user. Only tagged rows
+  // are touched, never real rows that happen to start with "Test ".
+  static async cleanupTestData(): Promise<void> {
+    this.requireUser('cleanup test data');
 
-        if (testItems && testItems.length > 0) {
-          const ids = testItems.map(item => item.id);
-          const { error: deleteError } = await supabase
-            .from(table)
-            .delete()
-            .in('id', ids);
+    const batches = await this.sync.recall<string[]>(TEST_DATA_KEY);
+    const remaining: string[] = [];
+    let totalDeleted = 0;
 
-          if (deleteError) {
-            console.warn(`Failed to delete test items from ${table}:`, deleteError);
-          } else {
-            totalDeleted += testItems.length;
-            console.log(`Cleaned up ${testItems.length} test items from ${table}`);
-          }
-        }
+    for (const batch of Array.isArray(batches) ? batches : []) {
+      try {
+        const deleted = await this.cleanupSeedData(batch);
+        totalDeleted += Object.values(deleted).reduce((sum, count) => sum + count, 0);
+      } catch (error) {
+        console.warn(`Failed to delete test batch ${batch}:`, error);
+        remaining.push(batch);
       }
+    }
 
-      console.log(`[DatabaseService] Test data cleanup completed - deleted ${totalDeleted} items`);
-    });
+    await this.sync.remember(TEST_DATA_KEY, remaining);
+    console.log(`[DatabaseService] Test data cleanup completed - deleted ${totalDeleted} items`);
   }
 }
 
@@ -0,0 +1,555 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import type { TableName } from '../types/database';
+import { ConflictError, FieldError, PermissionDeniedError, ValidationError, withStatus } from './errors';
+import {
+  Page,
+  QueryOptions,
+  QuerySort,
+  applyFilters,
+  decodeCursor,
+  keysetCondition,
+  nextPageCursor,
+  normalizeLimit,
+  queryRows,
+  sortRows
+} from './query';
+import type { CachedRow, CachedTable } from './localStore';
+import type { SyncManager } from './sync';
+import { AuditEntry, AuditLogRow, toAuditEntry } from './audit';
+import { EntitySchema, formatFieldErrors, validateSchema } from './schemas';
+
+// The builder is shared across tables, so it is used untyped here; column
+// names are checked against the generated row types by the field mappings.
+const db = supabase as unknown as SupabaseClient;
+
+// Values supplied by the caller at write time (e.g. the signed-in user)
+export interface RepositoryContext {
+  userId: string | null;
+  // The caller's active company, from their profile
+  companyId: string | null;
+}
+
+// Declarative mapping between one domain field and one table column
+export interface FieldMapping<TDomain, TRow> {
+  field: keyof TDomain & string;
+  column: keyof TRow & string;
+  // Converts the domain value before it is written; defaults to passthrough
+  toColumn?: (value: any, entity: TDomain, context: RepositoryContext) => unknown;
+  // Converts the column value after it is read; defaults to passthrough
+  fromColumn?: (value: any, row: TRow) => unknown;
+  // Read-only fields (timestamps) are loaded but never written
+  readOnly?: boolean;
+}
+
+// Returns an error message when the entity is not fit to be saved
+export type Validator<TDomain> = (entity: TDomain) => string | null;
+
+// A loaded row that failed the table's schema; it is still returned
+export interface InvalidRow {
+  id: string;
+  errors: FieldError[];
+}
+
+export interface RepositoryConfig<TDomain, TRow> {
+  table: TableName;
+  fields: FieldMapping<TDomain, TRow>[];
+  validators?: Validator<TDomain>[];
+  // Checked on save (rejecting the entity) and on load (reporting the row)
+  schema?: EntitySchema<TDomain>;
+  // Deletes move rows to the trash (deleted_at) instead of removing them
+  softDelete?: boolean;
+  // Changes are recorded in audit_log
+  audited?: boolean;
+  // Rows missing any of these columns are dropped on load
+  requiredColumns?: (keyof TRow & string)[];
+  defaultOrder?: { column: keyof TRow & string; ascending: boolean };
+  // Sort columns that support keyset (cursor) pagination
+  cursorColumns?: (keyof TRow & string)[];
+  context: () => RepositoryContext;
+  execute: <T>(operation: string, fn: () => Promise<T>) => Promise<T>;
+  // Offline cache and write queue; only set for cached tables
+  sync?: SyncManager;
+}
+
+export interface SaveOptions {
+  // Optimistic concurrency: the updated_at the caller last saw. The save is
+  // refused with a ConflictError when the row has changed since; null means
+  // the row must not exist yet. Omit to overwrite unconditionally.
+  expectedUpdatedAt?: string | null;
+}
+
+// Common column transforms shared by the table definitions
+export const mappers = {
+  trimmed: (value: any) => (typeof value === 'string' ? value.trim() : value),
+  trimmedOrNull: (value: any) => (typeof value === 'string' && value.trim()) || null,
+  jsonArray: (value: any) => (Array.isArray(value) ? value : []),
+  numberOrNull: (value: any) => Number(value) || null,
+  withDefault: <T>(fallback: T) => (value: any): T => value || fallback,
+  // New rows get the caller and active company; loaded rows keep theirs
+  currentUser: (value: any, _entity: unknown, context: RepositoryContext) => (value === undefined ? context.userId : value),
+  currentCompany: (value: any, _entity: unknown, context: RepositoryContext) => (value === undefined ? context.companyId : value),
+  orNull: (value: any) => value || null
+};
+
+export class Repository<TDomain extends { id: string }, TRow extends { id: string }> {
+  // Field errors of loaded rows, by id
+  private invalid = new Map<string, FieldError[]>();
+
+  constructor(private readonly config: RepositoryConfig<TDomain, TRow>) {}
+
+  get table(): TableName {
+    return this.config.table;
+  }
+
+  // Validates an entity, returning every failure; empty when it can be saved
+  validate(entity: TDomain): FieldError[] {
+    const errors = this.config.schema ? validateSchema(this.config.schema, entity) : [];
+    for (const validator of this.config.validators || []) {
+      const message = validator(entity);
+      if (message) errors.push({ path: '', message });
+    }
+    return errors;
+  }
+
+  // Rows seen by load, query, getById or realtime that fail the schema, so
+  // the UI can flag them; a full load() replaces the list
+  invalidRows(): InvalidRow[] {
+    return [...this.invalid].map(([id, errors]) => ({ id, errors }));
+  }
+
+  toRow(entity: TDomain): Partial<TRow> {
+    const context = this.config.context();
+    const row: Record<string, unknown> = {};
+
+    for (const mapping of this.config.fields) {
+      if (mapping.readOnly) continue;
+      const value = entity[mapping.field];
+      row[mapping.column] = mapping.toColumn ? mapping.toColumn(value, entity, context) : value;
+    }
+
+    return row as Partial<TRow>;
+  }
+
+  fromRow(row: TRow): TDomain {
+    const entity: Record<string, unknown> = {};
+
+    for (const mapping of this.config.fields) {
+      const value = row[mapping.column];
+      entity[mapping.field] = mapping.fromColumn ? mapping.fromColumn(value, row) : value;
+    }
+
+    return entity as TDomain;
+  }
+
+  // Maps rows from outside the query path (e.g. realtime payloads), skipping
+  // ones that load() would have dropped
+  tryFromRow(row: unknown): TDomain | null {
+    return this.isUsableRow(row) ? this.toModels([row])[0] : null;
+  }
+
+  async save(entity: TDomain, options: SaveOptions = {}): Promise<TDomain> {
+    this.assertValid(entity);
+    if (this.shouldQueue()) return this.queueSave(entity, options);
+
+    return this.writeThrough(`${this.table}.save`, async () => {
+      if (options.expectedUpdatedAt !== undefined) {
+        const data = await this.saveIfUnchanged(entity, options.expectedUpdatedAt);
+        await this.config.sync?.cacheRows(this.cacheTable, [data]);
+        return this.toModels([data])[0];
+      }
+
+      const { data, error, status } = await db
+        .from(this.table)
+        .upsert(this.toRow(entity), {
+          onConflict: 'id',
+          ignoreDuplicates: false
+        })
+        .select()
+        .single();
+
+      if (error) throw withStatus(error, status);
+      await this.config.sync?.cacheRows(this.cacheTable, [data]);
+      return this.toModels([data])[0];
+    }, () => this.queueSave(entity, options));
+  }
+
+  async saveMany(entities: TDomain[]): Promise<TDomain[]> {
+    if (entities.length === 0) return [];
+    entities.forEach(entity => this.assertValid(entity));
+    const queueAll = async () => {
+      const saved: TDomain[] = [];
+      for (const entity of entities) saved.push(await this.queueSave(entity));
+      return saved;
+    };
+    if (this.shouldQueue()) return queueAll();
+
+    return this.writeThrough(`${this.table}.saveMany`, async () => {
+      const { data, error, status } = await db
+        .from(this.table)
+        .upsert(entities.map(entity => this.toRow(entity)), {
+          onConflict: 'id',
+          ignoreDuplicates: false
+        })
+        .select();
+
+      if (error) throw withStatus(error, status);
+      await this.config.sync?.cacheRows(this.cacheTable, data || []);
+      return this.toModels(data || []);
+    }, queueAll);
+  }
+
+  async load(): Promise<TDomain[]> {
+    return this.readThrough(`${this.table}.load`, async () => {
+      let query = this.live(db.from(this.table).select('*'));
+
+      if (this.config.defaultOrder) {
+        query = query.order(this.config.defaultOrder.column, {
+          ascending: this.config.defaultOrder.ascending
+        });
+      }
+
+      const { data, error, status } = await query;
+      if (error) throw withStatus(error, status);
+      await this.config.sync?.cacheRows(this.cacheTable, data || [], { replace: true });
+
+      // Validate and clean data
+      this.invalid.clear();
+      return this.toModels((data || []).filter(row => this.isUsableRow(row)));
+    }, async () => {
+      const rows = await this.config.sync!.cachedRows(this.cacheTable);
+      this.invalid.clear();
+      return this.toModels(sortRows(rows, this.resolveSort()).filter(row => this.isUsableRow(row)) as unknown as TRow[]);
+    });
+  }
+
+  // Paged, filtered and sorted load with a total count and next cursor
+  async query(options: QueryOptions<TRow> = {}): Promise<Page<TDomain>> {
+    const sort = this.resolveSort(options.sort);
+    const keysetCapable = (this.config.cursorColumns || []).some(column => column === sort.column);
+
+    return this.readThrough(`${this.table}.query`, async () => {
+      const limit = normalizeLimit(options.limit);
+      const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+
+      if (cursor) {
+        if (options.offset) {
+          throw new ValidationError('Use either offset or cursor pagination, not both');
+        }
+        if (!keysetCapable || cursor.column !== sort.column || cursor.ascending !== sort.ascending) {
+          throw new ValidationError('Pagination cursor does not match the requested sort');
+        }
+      }
+
+      let query = applyFilters(
+        this.live(db.from(this.table).select('*', { count: cursor ? undefined : 'exact' })),
+        options.filters
+      );
+      if (cursor) query = query.or(keysetCondition(cursor));
+
+      // Fetch one extra row to know whether another page exists
+      const offset = options.offset || 0;
+      const { data, error, count, status } = await query
+        .order(sort.column, { ascending: sort.ascending })
+        .order('id', { ascending: sort.ascending })
+        .range(offset, offset + limit);
+
+      if (error) throw withStatus(error, status);
+
+      let total = count ?? null;
+      if (cursor) {
+        // The keyset condition narrows the rows, so count the filters alone
+        const { count: filteredCount, error: countError, status: countStatus } = await applyFilters(
+          this.live(db.from(this.table).select('*', { count: 'exact', head: true })),
+          options.filters
+        );
+        if (countError) throw withStatus(countError, countStatus);
+        total = filteredCount ?? null;
+      }
+
+      const rows = data || [];
+      const hasMore = rows.length > limit;
+      const pageRows = rows.slice(0, limit);
+      await this.config.sync?.cacheRows(this.cacheTable, pageRows);
+
+      return {
+        items: this.toModels(pageRows.filter(row => this.isUsableRow(row))),
+        total,
+        nextCursor: nextPageCursor(pageRows[pageRows.length - 1], sort, hasMore, keysetCapable),
+        hasMore
+      };
+    }, async () => {
+      // Offline: same filters, sort and cursors over the cached rows
+      const rows = await this.config.sync!.cachedRows(this.cacheTable);
+      const page = queryRows(rows as unknown as TRow[], options, sort, keysetCapable);
+      return {
+        items: this.toModels(page.rows.filter(row => this.isUsableRow(row))),
+        total: page.total,
+        nextCursor: page.nextCursor,
+        hasMore: page.hasMore
+      };
+    });
+  }
+
+  async getById(id: string): Promise<TDomain | null> {
+    if (!id?.trim()) {
+      throw new ValidationError('Valid ID required for lookup', { operation: `${this.table}.getById`, table: this.table });
+    }
+
+    return this.readThrough(`${this.table}.getById`, async () => {
+      const { data, error, status } = await this.live(db.from(this.table).select('*'))
+        .eq('id', id.trim())
+        .maybeSingle();
+
+      if (error) throw withStatus(error, status);
+      if (data) await this.config.sync?.cacheRows(this.cacheTable, [data]);
+      return data && this.isUsableRow(data) ? this.toModels([data])[0] : null;
+    }, async () => {
+      const row = await this.config.sync!.cachedRow(this.cacheTable, id.trim());
+      return row && this.isUsableRow(row) ? this.toModels([row as unknown as TRow])[0] : null;
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!id?.trim()) {
+      throw new ValidationError('Valid ID required for deletion', { operation: `${this.table}.delete`, table: this.table });
+    }
+    const queueDelete = () => this.config.sync!.enqueueDelete(this.cacheTable, id.trim());
+    if (this.shouldQueue()) return queueDelete();
+
+    return this.writeThrough(`${this.table}.delete`, async () => {
+      const { error, status } = await db
+        .from(this.table)
+        .delete()
+        .eq('id', id.trim());
+
+      if (error) throw withStatus(error, status);
+      await this.config.sync?.uncache(this.cacheTable, [id.trim()]);
+    }, queueDelete);
+  }
+
+  async deleteMany(ids: string[]): Promise<void> {
+    const cleanIds = ids.map(id => id?.trim()).filter(Boolean);
+    if (cleanIds.length !== ids.length) {
+      throw new ValidationError('Valid IDs required for deletion', { operation: `${this.table}.deleteMany`, table: this.table });
+    }
+    if (cleanIds.length === 0) return;
+    const queueAll = async () => {
+      for (const id of cleanIds) await this.config.sync!.enqueueDelete(this.cacheTable, id);
+    };
+    if (this.shouldQueue()) return queueAll();
+
+    return this.writeThrough(`${this.table}.deleteMany`, async () => {
+      const { error, status } = await db
+        .from(this.table)
+        .delete()
+        .in('id', cleanIds);
+
+      if (error) throw withStatus(error, status);
+      await this.config.sync?.uncache(this.cacheTable, cleanIds);
+    }, queueAll);
+  }
+
+  // Trashed rows the caller can see, most recently deleted first
+  async trash(): Promise<TDomain[]> {
+    this.assertSoftDelete('trash');
+    return this.config.execute(`${this.table}.trash`, async () => {
+      const { data, error, status } = await db.rpc('list_trash', { target_table: this.table });
+      if (error) throw withStatus(error, status);
+      return ((data || []) as TRow[]).map(row => this.fromRow(row));
+    });
+  }
+
+  // Takes a row out of the trash; online only, since the server checks the
+  // delete permission and restores links trashed along with it
+  async restore(id: string): Promise<TDomain> {
+    this.assertSoftDelete('restore');
+    if (!id?.trim()) {
+      throw new ValidationError('Valid ID required for restore', { operation: `${this.table}.restore`, table: this.table });
+    }
+
+    return this.config.execute(`${this.table}.restore`, async () => {
+      const { data, error, status } = await db.rpc('restore_deleted_row', { target_table: this.table, target_id: id.trim() });
+      if (error) throw withStatus(error, status);
+      await this.config.sync?.cacheRows(this.cacheTable, [data]);
+      return this.toModels([data as TRow])[0];
+    });
+  }
+
+  // Recorded changes to one row, newest first
+  async history(id: string, options: { limit?: number } = {}): Promise<AuditEntry[]> {
+    this.assertAudited('history');
+    return this.config.execute(`${this.table}.history`, async () => {
+      let query = db
+        .from('audit_log')
+        .select('*')
+        .eq('table_name', this.table)
+        .eq('record_id', id)
+        .order('version', { ascending: false });
+      if (options.limit) query = query.limit(options.limit);
+
+      const { data, error, status } = await query;
+      if (error) throw withStatus(error, status);
+      return ((data || []) as AuditLogRow[]).map(toAuditEntry);
+    });
+  }
+
+  // Puts the row back to how it was at `version` (from history()); recorded
+  // as a new REVERT entry, so it can itself be undone
+  async revert(id: string, version: number): Promise<TDomain> {
+    this.assertAudited('revert');
+    if (!id?.trim() || !Number.isInteger(version) || version < 1) {
+      throw new ValidationError('Valid ID and version required for revert', { operation: `${this.table}.revert`, table: this.table });
+    }
+
+    return this.config.execute(`${this.table}.revert`, async () => {
+      const { data, error, status } = await db.rpc('revert_to_version', {
+        target_table: this.table,
+        target_id: id.trim(),
+        target_version: version
+      });
+      if (error) throw withStatus(error, status);
+      await this.config.sync?.cacheRows(this.cacheTable, [data]);
+      return this.toModels([data as TRow])[0];
+    });
+  }
+
+  private get cacheTable(): CachedTable {
+    return this.table as CachedTable;
+  }
+
+  // Writes queue behind any already-queued ones so they replay in order
+  private shouldQueue(): boolean {
+    const sync = this.config.sync;
+    return Boolean(sync && (!sync.isOnline() || sync.hasPending()));
+  }
+
+  // An expected version is required of the server row on replay: a stale
+  // write fails (see SyncStatus.failed) instead of going to the resolver
+  private async queueSave(entity: TDomain, options: SaveOptions = {}): Promise<TDomain> {
+    const row = await this.config.sync!.enqueueSave(
+      this.cacheTable,
+      this.toRow(entity) as unknown as CachedRow,
+      options.expectedUpdatedAt
+    );
+    return this.fromRow(row as unknown as TRow);
+  }
+
+  // Writes only if the row is still at the expected version, checked in the
+  // same statement so two stale saves cannot both win
+  private async saveIfUnchanged(entity: TDomain, expectedUpdatedAt: string | null): Promise<TRow> {
+    const operation = `${this.table}.save`;
+    const row = this.toRow(entity);
+    const { data, error, status } = expectedUpdatedAt === null
+      ? await db.from(this.table).insert(row).select().maybeSingle()
+      : await db.from(this.table).update(row).eq('id', entity.id).eq('updated_at', expectedUpdatedAt).select().maybeSingle();
+
+    // A duplicate id on insert is the same conflict as a stale update
+    if (error && error.code !== '23505') throw withStatus(error, status);
+    if (data) return data as TRow;
+
+    const { data: current, error: readError, status: readStatus } = await this.live(db.from(this.table).select('*'))
+      .eq('id', entity.id)
+      .maybeSingle();
+    if (readError) throw withStatus(readError, readStatus);
+
+    // Unchanged but not updated: RLS refused the write
+    if (current && (current as TRow & { updated_at?: string }).updated_at === expectedUpdatedAt) {
+      throw new PermissionDeniedError(`Not allowed to update ${this.table} row ${entity.id}`, { operation, table: this.table });
+    }
+    // A duplicate id that cannot be read is in the trash (or another company)
+    if (!current && error) throw withStatus(error, status);
+    if (!current && !error) {
+      throw new ConflictError<TDomain>(`${this.table} row ${entity.id} was deleted by someone else`, { operation, table: this.table, local: entity });
+    }
+
+    throw new ConflictError<TDomain>(`${this.table} row ${entity.id} was changed by someone else`, {
+      operation,
+      table: this.table,
+      original: error || undefined,
+      server: current ? this.toModels([current as TRow])[0] : null,
+      local: entity
+    });
+  }
+
+  // Network first; the cache answers while the server is unreachable
+  private async readThrough<T>(operation: string, fn: () => Promise<T>, offline: () => Promise<T>): Promise<T> {
+    const sync = this.config.sync;
+    if (!sync) return this.config.execute(operation, fn);
+    if (!sync.isOnline()) return offline();
+
+    try {
+      return await this.config.execute(operation, fn);
+    } catch (error) {
+      if (sync.handleFailure(error)) return offline();
+      throw error;
+    }
+  }
+
+  // A write that fails because the server is unreachable is queued instead
+  private async writeThrough<T>(operation: string, fn: () => Promise<T>, queue: () => Promise<T>): Promise<T> {
+    const sync = this.config.sync;
+    try {
+      return await this.config.execute(operation, fn);
+    } catch (error) {
+      if (sync?.handleFailure(error)) return queue();
+      throw error;
+    }
+  }
+
+  private resolveSort(sort?: QuerySort<TRow>): { column: string; ascending: boolean } {
+    if (sort) return { column: sort.column, ascending: sort.ascending ?? true };
+    return this.config.defaultOrder || { column: 'id', ascending: true };
+  }
+
+  private assertValid(entity: TDomain): void {
+    const fields = this.validate(entity);
+    if (fields.length > 0) {
+      throw new ValidationError(`Invalid ${this.table} row ${entity?.id || '(no id)'}: ${formatFieldErrors(fields)}`, {
+        operation: `${this.table}.save`,
+        table: this.table,
+        fields
+      });
+    }
+  }
+
+  // Maps rows and checks them against the schema. Rows that fail are still
+  // returned (hiding saved data would be worse) but are logged and recorded
+  // for invalidRows().
+  private toModels(rows: TRow[]): TDomain[] {
+    return rows.map(row => {
+      const entity = this.fromRow(row);
+      const errors = this.config.schema ? validateSchema(this.config.schema, entity) : [];
+      if (errors.length > 0) {
+        console.warn(`[Repository:${this.table}] Loaded row ${row.id} is invalid: ${formatFieldErrors(errors)}`);
+        this.invalid.set(row.id, errors);
+      } else {
+        this.invalid.delete(row.id);
+      }
+      return entity;
+    });
+  }
+
+  // Hides trashed rows; RLS does too, this covers the cache and realtime
+  private live<Q extends { is: (column: string, value: null) => Q }>(query: Q): Q {
+    return this.config.softDelete ? query.is('deleted_at', null) : query;
+  }
+
+  private assertSoftDelete(operation: string): void {
+    if (!this.config.softDelete) {
+      throw new ValidationError(`${this.table} rows are deleted outright and have no trash`, { operation: `${this.table}.${operation}`, table: this.table });
+    }
+  }
+
+  private assertAudited(operation: string): void {
+    if (!this.config.audited) {
+      throw new ValidationError(`${this.table} changes are not audited`, { operation: `${this.table}.${operation}`, table: this.table });
+    }
+  }
+
+  private isUsableRow(row: any): row is TRow {
+    if (!row || !row.id) return false;
+    if (this.config.softDelete && row.deleted_at) return false;
+    return (this.config.requiredColumns || []).every(column => Boolean(row[column]));
+  }
+}
@@ -0,0 +1,40 @@
+import type { Json, Tables } from '../types/database';
+import type { TrashTable } from './entities';
+
+export type AuditOperation = 'INSERT' | 'UPDATE' | 'DELETE' | 'RESTORE' | 'REVERT' | 'PURGE';
+
+export type AuditLogRow = Tables<'audit_log'>;
+
+// One change to a kitchen row (audit_log). Values are raw columns
+// (snake_case), holding only the columns that changed.
+export interface AuditEntry {
+  id: number;
+  table: TrashTable;
+  recordId: string;
+  // 1 for the first recorded change, then 2, 3… per row
+  version: number;
+  operation: AuditOperation;
+  actorId: string | null;
+  actorEmail: string | null;
+  changedAt: string;
+  oldValues: Record<string, Json> | null;
+  newValues: Record<string, Json> | null;
+  // For REVERT entries, the version the row was put back to
+  revertedTo: number | null;
+}
+
+export function toAuditEntry(row: AuditLogRow): AuditEntry {
+  return {
+    id: row.id,
+    table: row.table_name,
+    recordId: row.record_id,
+    version: row.version,
+    operation: row.operation,
+    actorId: row.actor_id,
+    actorEmail: row.actor_email,
+    changedAt: row.changed_at,
+    oldValues: row.old_values as Record<string, Json> | null,
+    newValues: row.new_values as Record<string, Json> | null,
+    revertedTo: row.reverted_to
+  };
+}
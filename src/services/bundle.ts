@@ -0,0 +1,55 @@
+import type { Json } from '../types/database';
+import type { DatabaseError } from './errors';
+import type { TrashModels, TrashTable } from './entities';
+
+// Multi-row writes applied together by the save_bundle function
+
+export type BundleAction = 'insert' | 'update' | 'save' | 'delete';
+
+// One write. Items apply in order, so put parents (events, recipes) before
+// the rows that reference them (event_recipes). `action` defaults to 'save'.
+export type BundleItem = {
+  [T in TrashTable]:
+    | { table: T; action?: Exclude<BundleAction, 'delete'>; entity: TrashModels[T] }
+    | { table: T; action: 'delete'; id: string };
+}[TrashTable];
+
+// rolled_back: it worked, but a later failure undid the whole bundle;
+// skipped: never ran, because an earlier item failed
+export type BundleItemStatus = 'saved' | 'deleted' | 'failed' | 'rolled_back' | 'skipped';
+
+export interface BundleItemResult {
+  index: number;
+  table: TrashTable;
+  action: BundleAction;
+  id: string | null;
+  status: BundleItemStatus;
+  // The saved entity, for 'saved' items
+  entity: TrashModels[TrashTable] | null;
+  error: DatabaseError | null;
+}
+
+export interface BundleResult {
+  // False when an atomic bundle was rolled back; nothing was written then
+  committed: boolean;
+  items: BundleItemResult[];
+}
+
+export interface BundleOptions {
+  // All or nothing (the default); false keeps the items that worked
+  atomic?: boolean;
+}
+
+// As save_bundle returns them
+export interface BundleRpcResult {
+  committed: boolean;
+  items: {
+    index: number;
+    table: TrashTable;
+    action: BundleAction;
+    id: string | null;
+    status: BundleItemStatus;
+    row: Record<string, Json> | null;
+    error: { code: string; message: string; details: string | null } | null;
+  }[];
+}
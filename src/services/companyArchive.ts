@@ -0,0 +1,238 @@
+import type { FieldError } from './errors';
+import type { Company, CompanyRole, TrashModels, TrashTable } from './entities';
+
+// Portable backups of one company's kitchen data: a versioned JSON archive
+// with a manifest and SHA-256 checksums, and the id remapping used to load
+// one into another company or project. DatabaseService does the reading and
+// writing; nothing here talks to the database.
+
+export const ARCHIVE_FORMAT = 'prep-company-archive';
+export const ARCHIVE_VERSION = 1;
+
+// In dependency order: rows only reference tables listed before them
+export const ARCHIVE_TABLES: TrashTable[] = ['containers', 'recipes', 'methods', 'events', 'event_recipes', 'prep_lists'];
+
+export type ArchiveSection = TrashTable | 'members';
+
+// Members are recorded for reference; accounts cannot be moved between projects
+export interface ArchiveMember {
+  userId: string;
+  email: string | null;
+  fullName: string | null;
+  role: CompanyRole;
+}
+
+export type ArchiveData = { members: ArchiveMember[] } & { [T in TrashTable]: TrashModels[T][] };
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  exportedBy: string | null;
+  company: { id: string; name: string };
+  counts: Record<ArchiveSection, number>;
+  // SHA-256 (hex) of each section's canonical JSON
+  checksums: Record<ArchiveSection, string>;
+}
+
+export interface CompanyArchive {
+  manifest: ArchiveManifest;
+  data: ArchiveData;
+}
+
+// What to do with an archived row whose id already exists in the target
+// 'remap': import it as a new row; 'skip': keep the existing row;
+// 'overwrite': replace the existing row; 'fail': report it and import nothing
+export type CollisionStrategy = 'remap' | 'skip' | 'overwrite' | 'fail';
+
+export interface CompanyImportOptions {
+  // Validate and plan only; nothing is written
+  dryRun?: boolean;
+  // Give every row a new id, e.g. to clone a company within one project
+  remapIds?: boolean;
+  onCollision?: CollisionStrategy;
+  // Invite archived members who are not in the target company yet (owners
+  // are invited as admins)
+  inviteMembers?: boolean;
+}
+
+export interface ImportTableSummary {
+  total: number;
+  created: number;
+  overwritten: number;
+  skipped: number;
+  // Created under a new id
+  remapped: number;
+}
+
+export interface CompanyImportReport {
+  dryRun: boolean;
+  // False when problems stopped (or would stop) the import
+  ok: boolean;
+  // e.g. { path: 'recipes[3].name', message: 'Must not be blank' }
+  problems: FieldError[];
+  // Things that were adjusted rather than refused, such as links to rows
+  // that are not in the archive
+  warnings: FieldError[];
+  tables: Record<TrashTable, ImportTableSummary>;
+  // Archived id → id in the target, for every row whose id changed
+  idMap: Record<string, string>;
+  // Archived members' emails with no account in the target company
+  missingMembers: string[];
+  invitedMembers: string[];
+  written: boolean;
+}
+
+// JSON with object keys sorted, so equal data always hashes the same
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(entry => canonicalJson(entry ?? null)).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const SECTIONS: ArchiveSection[] = ['members', ...ARCHIVE_TABLES];
+
+export async function buildArchive(company: Company, data: ArchiveData, exportedBy: string | null): Promise<CompanyArchive> {
+  const counts = {} as Record<ArchiveSection, number>;
+  const checksums = {} as Record<ArchiveSection, string>;
+  for (const section of SECTIONS) {
+    counts[section] = data[section].length;
+    checksums[section] = await sha256(canonicalJson(data[section]));
+  }
+
+  return {
+    manifest: {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      exportedBy,
+      company: { id: company.id, name: company.name },
+      counts,
+      checksums
+    },
+    data
+  };
+}
+
+// Checks the format, version, counts and checksums; returns every problem
+export async function verifyArchive(archive: unknown): Promise<FieldError[]> {
+  const problems: FieldError[] = [];
+  const candidate = archive as Partial<CompanyArchive> | null;
+  const manifest = candidate?.manifest;
+
+  if (!manifest || manifest.format !== ARCHIVE_FORMAT) {
+    return [{ path: 'manifest.format', message: `Not a ${ARCHIVE_FORMAT} file` }];
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > ARCHIVE_VERSION) {
+    return [{ path: 'manifest.version', message: `Version ${manifest.version} is newer than this app reads (${ARCHIVE_VERSION})` }];
+  }
+  if (!candidate.data || typeof candidate.data !== 'object') {
+    return [{ path: 'data', message: 'Required' }];
+  }
+
+  for (const section of SECTIONS) {
+    const rows = candidate.data[section];
+    if (!Array.isArray(rows)) {
+      problems.push({ path: `data.${section}`, message: 'Must be a list' });
+      continue;
+    }
+    if (manifest.counts?.[section] !== rows.length) {
+      problems.push({ path: `data.${section}`, message: `Holds ${rows.length} rows; the manifest lists ${manifest.counts?.[section]}` });
+    }
+    if (manifest.checksums?.[section] !== await sha256(canonicalJson(rows))) {
+      problems.push({ path: `data.${section}`, message: 'Checksum mismatch; the archive is damaged or was edited' });
+    }
+  }
+  return problems;
+}
+
+// Rewrites row ids and every reference to them: foreign keys, prep items'
+// eventId and recipeIds, and ingredients' containerId. A JSON reference to a
+// row that is neither in the archive nor already in the target (`known`) is
+// dropped with a warning.
+export function remapArchive(
+  data: ArchiveData,
+  idMap: Map<string, string>,
+  known: Set<string>,
+  warnings: FieldError[]
+): ArchiveData {
+  const id = (value: string) => idMap.get(value) || value;
+  const reference = (value: string | null | undefined, path: string): string | undefined => {
+    if (!value) return undefined;
+    if (idMap.has(value) || known.has(value)) return id(value);
+    warnings.push({ path, message: `Dropped link to ${value}, which is not in the archive` });
+    return undefined;
+  };
+
+  const prepItems = <T extends { eventId?: string; recipeIds?: string[] }>(items: T[], path: string): T[] =>
+    (items || []).map((item, index) => {
+      const copy = { ...item };
+      if (item.eventId) copy.eventId = reference(item.eventId, `${path}[${index}].eventId`);
+      if (item.recipeIds) {
+        copy.recipeIds = item.recipeIds
+          .map((recipeId, position) => reference(recipeId, `${path}[${index}].recipeIds[${position}]`))
+          .filter((recipeId): recipeId is string => Boolean(recipeId));
+      }
+      return copy;
+    });
+
+  return {
+    members: data.members,
+    containers: data.containers.map(container => ({ ...container, id: id(container.id) })),
+    methods: data.methods.map(method => ({ ...method, id: id(method.id) })),
+    recipes: data.recipes.map((recipe, index) => ({
+      ...recipe,
+      id: id(recipe.id),
+      ingredients: (recipe.ingredients || []).map((ingredient, position) => {
+        if (!ingredient.containerId) return ingredient;
+        const containerId = reference(ingredient.containerId, `recipes[${index}].ingredients[${position}].containerId`);
+        const copy = { ...ingredient, containerId };
+        if (!containerId) delete copy.containerId;
+        return copy;
+      })
+    })),
+    events: data.events.map((event, index) => ({
+      ...event,
+      id: id(event.id),
+      prepItems: prepItems(event.prepItems, `events[${index}].prepItems`)
+    })),
+    // Foreign keys are checked before remapping, so these always resolve
+    event_recipes: data.event_recipes.map(link => ({
+      ...link,
+      id: id(link.id),
+      eventId: id(link.eventId),
+      recipeId: id(link.recipeId)
+    })),
+    prep_lists: data.prep_lists.map((list, index) => ({
+      ...list,
+      id: id(list.id),
+      event_id: list.event_id ? id(list.event_id) : list.event_id,
+      items: prepItems(list.items, `prep_lists[${index}].items`)
+    }))
+  };
+}
+
+// Foreign key columns that must point at a row in the archive or the target
+export function missingReferences(data: ArchiveData, available: Set<string>): FieldError[] {
+  const problems: FieldError[] = [];
+  data.event_recipes.forEach((link, index) => {
+    if (!available.has(link.eventId)) problems.push({ path: `event_recipes[${index}].eventId`, message: `Event ${link.eventId} is not in the archive` });
+    if (!available.has(link.recipeId)) problems.push({ path: `event_recipes[${index}].recipeId`, message: `Recipe ${link.recipeId} is not in the archive` });
+  });
+  data.prep_lists.forEach((list, index) => {
+    if (list.event_id && !available.has(list.event_id)) {
+      problems.push({ path: `prep_lists[${index}].event_id`, message: `Event ${list.event_id} is not in the archive` });
+    }
+  });
+  return problems;
+}
@@ -0,0 +1,479 @@
+import { FieldMapping, Validator, mappers } from './Repository';
+import type { TableName, Tables } from '../types/database';
+import type { QueryOptions } from './query';
+import { Ingredient, normalizeIngredients } from './ingredients';
+import {
+  EntitySchema,
+  containerSchema,
+  eventRecipeSchema,
+  eventSchema,
+  methodSchema,
+  prepListSchema,
+  recipeSchema
+} from './schemas';
+
+export type { Ingredient } from './ingredients';
+
+// Mirrors user_profiles: the primary key is the auth user id
+export interface UserProfile {
+  id: string;
+  email: string;
+  full_name?: string | null;
+  company_id?: string | null;
+  role?: 'user' | 'admin' | 'owner' | null;
+  avatar_url?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+export type CompanyRole = 'owner' | 'admin' | 'chef' | 'staff';
+// Roles that can be handed out by invite; ownership is granted by an owner
+export type InviteRole = Exclude<CompanyRole, 'owner'>;
+
+export const COMPANY_ROLES: CompanyRole[] = ['owner', 'admin', 'chef', 'staff'];
+
+export interface Company {
+  id: string;
+  name: string;
+  createdBy?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+// A user's membership in a company (company_employees)
+export interface CompanyMember {
+  id: string;
+  companyId: string;
+  userId: string;
+  role: CompanyRole;
+  invitedBy?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+  // Filled in by loadCompanyMembers when the profile is visible
+  profile?: UserProfile | null;
+}
+
+export interface CompanyInvite {
+  id: string;
+  companyId: string;
+  email: string;
+  role: InviteRole;
+  token?: string;
+  invitedBy?: string | null;
+  acceptedBy?: string | null;
+  acceptedAt?: string | null;
+  expiresAt?: string;
+  created_at?: string | null;
+}
+
+export interface PrepItem {
+  id: string;
+  name: string;
+  quantity: string;
+  unit: string;
+  category?: string;
+  completed?: boolean;
+  assignedTo?: string;
+  notes?: string;
+  // Set on items generated from an event's recipes
+  eventId?: string;
+  recipeIds?: string[];
+}
+
+export interface PrepList {
+  id: string;
+  name: string;
+  items: PrepItem[];
+  // Event this list was generated from, if any
+  event_id?: string | null;
+  // Bumped by the server on every change to items (see PrepListSession)
+  item_version?: number;
+  company_id?: string | null;
+  user_id?: string;
+  created_at?: string;
+  updated_at?: string;
+  // Set while the row is in the trash (see listTrash)
+  deleted_at?: string | null;
+  // The generated-data batch this row belongs to (see seedDemoData)
+  seed_batch?: string | null;
+}
+
+export interface Event {
+  id: string;
+  name: string;
+  date: string;
+  invoiceNumber?: string;
+  prepItems: PrepItem[];
+  status: 'planning' | 'prep' | 'active' | 'complete';
+  totalServings: number;
+  company_id?: string | null;
+  user_id?: string;
+  created_at?: string;
+  updated_at?: string;
+  // Set while the row is in the trash (see listTrash)
+  deleted_at?: string | null;
+  // The generated-data batch this row belongs to (see seedDemoData)
+  seed_batch?: string | null;
+}
+
+// A recipe served at an event, with the servings to prepare
+export interface EventRecipe {
+  id: string;
+  eventId: string;
+  recipeId: string;
+  servings: number;
+  notes?: string;
+  sortOrder?: number;
+  company_id?: string | null;
+  user_id?: string;
+  created_at?: string;
+  updated_at?: string;
+  // Set while the row is in the trash (see listTrash)
+  deleted_at?: string | null;
+  // The generated-data batch this row belongs to (see seedDemoData)
+  seed_batch?: string | null;
+}
+
+export interface Recipe {
+  id: string;
+  name: string;
+  description?: string;
+  // Legacy free-text rows are parsed into structured ingredients on load
+  ingredients: Ingredient[];
+  instructions: string[];
+  yield?: string;
+  prepTime?: number;
+  cookTime?: number;
+  totalTime?: number;
+  difficulty?: 'Easy' | 'Medium' | 'Hard';
+  tags?: string[];
+  notes?: string;
+  image?: string;
+  company_id?: string | null;
+  user_id?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  // Set while the row is in the trash (see listTrash)
+  deletedAt?: string | null;
+  // The generated-data batch this row belongs to (see seedDemoData)
+  seed_batch?: string | null;
+}
+
+export interface Method {
+  id: string;
+  name: string;
+  description?: string;
+  category?: string;
+  videoUrl?: string;
+  instructions: string[];
+  estimatedTime?: number;
+  difficultyLevel?: 'Beginner' | 'Intermediate' | 'Advanced';
+  tags?: string[];
+  equipment?: string[];
+  tips?: string[];
+  company_id?: string | null;
+  user_id?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  // Set while the row is in the trash (see listTrash)
+  deletedAt?: string | null;
+  // The generated-data batch this row belongs to (see seedDemoData)
+  seed_batch?: string | null;
+}
+
+export interface Container {
+  id: string;
+  name: string;
+  type: string;
+  size?: string;
+  description?: string;
+  company_id?: string | null;
+  user_id?: string;
+  created_at?: string;
+  updated_at?: string;
+  // Set while the row is in the trash (see listTrash)
+  deleted_at?: string | null;
+  // The generated-data batch this row belongs to (see seedDemoData)
+  seed_batch?: string | null;
+}
+
+// Tables whose deletes move rows to the trash
+export interface TrashModels {
+  prep_lists: PrepList;
+  events: Event;
+  event_recipes: EventRecipe;
+  recipes: Recipe;
+  methods: Method;
+  containers: Container;
+}
+
+export type TrashTable = keyof TrashModels;
+
+export const TRASH_TABLES: TrashTable[] = ['prep_lists', 'events', 'event_recipes', 'recipes', 'methods', 'containers'];
+
+// A trashed row, as listed by DatabaseService.listTrash
+export type TrashItem = {
+  [T in TrashTable]: { table: T; id: string; deletedAt: string; item: TrashModels[T] };
+}[TrashTable];
+
+// Row shapes generated from supabase/migrations
+interface OwnedRow {
+  id: string;
+  company_id: string | null;
+  user_id: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  deleted_at: string | null;
+  seed_batch: string | null;
+}
+
+export type CompanyRow = Tables<'companies'>;
+export type CompanyMemberRow = Tables<'company_employees'>;
+export type CompanyInviteRow = Tables<'company_invites'>;
+export type PrepListRow = Tables<'prep_lists'>;
+export type EventRow = Tables<'events'>;
+export type EventRecipeRow = Tables<'event_recipes'>;
+export type RecipeRow = Tables<'recipes'>;
+export type MethodRow = Tables<'methods'>;
+export type ContainerRow = Tables<'containers'>;
+
+// Event-specific shortcuts on top of the shared query options
+export interface EventQueryOptions extends QueryOptions<EventRow> {
+  status?: Event['status'] | Event['status'][];
+  // Inclusive ISO dates (YYYY-MM-DD)
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export function toEventQuery({ status, dateFrom, dateTo, ...options }: EventQueryOptions): QueryOptions<EventRow> {
+  const filters = [...(options.filters || [])];
+  if (status) {
+    filters.push(Array.isArray(status)
+      ? { column: 'status', operator: 'in', value: status }
+      : { column: 'status', operator: 'eq', value: status });
+  }
+  if (dateFrom) filters.push({ column: 'date', operator: 'gte', value: dateFrom });
+  if (dateTo) filters.push({ column: 'date', operator: 'lte', value: dateTo });
+  return { ...options, filters };
+}
+
+export interface TableDefinition<TDomain, TRow> {
+  table: TableName;
+  fields: FieldMapping<TDomain, TRow>[];
+  validators?: Validator<TDomain>[];
+  schema?: EntitySchema<TDomain>;
+  // Deletes move rows to the trash (deleted_at) instead of removing them
+  softDelete?: boolean;
+  // Changes are recorded in audit_log (see getHistory and revertTo)
+  audited?: boolean;
+  requiredColumns: (keyof TRow & string)[];
+  defaultOrder: { column: keyof TRow & string; ascending: boolean };
+  cursorColumns: (keyof TRow & string)[];
+}
+
+// Ownership columns shared by every kitchen table
+function ownershipFields<TDomain, TRow extends OwnedRow>(
+  timestamps: { created: keyof TDomain & string; updated: keyof TDomain & string; deleted: keyof TDomain & string }
+): FieldMapping<TDomain, TRow>[] {
+  return [
+    // Stamped on new rows only, so editing never moves a row to another
+    // company or takes it over from a colleague
+    { field: 'company_id' as keyof TDomain & string, column: 'company_id', toColumn: mappers.currentCompany },
+    { field: 'user_id' as keyof TDomain & string, column: 'user_id', toColumn: mappers.currentUser },
+    { field: timestamps.created, column: 'created_at', readOnly: true },
+    { field: timestamps.updated, column: 'updated_at', readOnly: true },
+    // Set by the delete trigger, cleared by restore_deleted_row
+    { field: timestamps.deleted, column: 'deleted_at', readOnly: true },
+    // Written only when set, so saving a loaded row keeps its batch
+    { field: 'seed_batch' as keyof TDomain & string, column: 'seed_batch' }
+  ];
+}
+
+const snakeTimestamps = { created: 'created_at', updated: 'updated_at', deleted: 'deleted_at' } as const;
+const camelTimestamps = { created: 'createdAt', updated: 'updatedAt', deleted: 'deletedAt' } as const;
+
+export const prepListTable: TableDefinition<PrepList, PrepListRow> = {
+  table: 'prep_lists',
+  fields: [
+    { field: 'id', column: 'id' },
+    { field: 'name', column: 'name', toColumn: mappers.trimmed },
+    { field: 'items', column: 'items', toColumn: mappers.jsonArray, fromColumn: mappers.jsonArray },
+    { field: 'event_id', column: 'event_id', toColumn: mappers.orNull },
+    { field: 'item_version', column: 'item_version', readOnly: true },
+    ...ownershipFields<PrepList, PrepListRow>(snakeTimestamps)
+  ],
+  schema: prepListSchema,
+  softDelete: true,
+  audited: true,
+  requiredColumns: ['name'],
+  defaultOrder: { column: 'created_at', ascending: false },
+  cursorColumns: ['created_at']
+};
+
+export const eventTable: TableDefinition<Event, EventRow> = {
+  table: 'events',
+  fields: [
+    { field: 'id', column: 'id' },
+    { field: 'name', column: 'name', toColumn: mappers.trimmed },
+    { field: 'date', column: 'date' },
+    { field: 'invoiceNumber', column: 'invoice_number', toColumn: mappers.orNull },
+    { field: 'prepItems', column: 'prep_items', toColumn: mappers.jsonArray, fromColumn: mappers.jsonArray },
+    { field: 'status', column: 'status', toColumn: mappers.withDefault('planning'), fromColumn: mappers.withDefault('planning') },
+    { field: 'totalServings', column: 'total_servings', toColumn: value => Number(value) || 0, fromColumn: value => Number(value) || 0 },
+    ...ownershipFields<Event, EventRow>(snakeTimestamps)
+  ],
+  schema: eventSchema,
+  softDelete: true,
+  audited: true,
+  requiredColumns: ['name'],
+  defaultOrder: { column: 'date', ascending: false },
+  cursorColumns: ['date', 'created_at']
+};
+
+export const eventRecipeTable: TableDefinition<EventRecipe, EventRecipeRow> = {
+  table: 'event_recipes',
+  fields: [
+    { field: 'id', column: 'id' },
+    { field: 'eventId', column: 'event_id' },
+    { field: 'recipeId', column: 'recipe_id' },
+    { field: 'servings', column: 'servings', toColumn: value => Math.round(Number(value)), fromColumn: value => Number(value) || 0 },
+    { field: 'notes', column: 'notes', toColumn: mappers.trimmedOrNull },
+    { field: 'sortOrder', column: 'sort_order', toColumn: value => Number(value) || 0, fromColumn: value => Number(value) || 0 },
+    ...ownershipFields<EventRecipe, EventRecipeRow>(snakeTimestamps)
+  ],
+  schema: eventRecipeSchema,
+  softDelete: true,
+  audited: true,
+  requiredColumns: ['event_id', 'recipe_id'],
+  defaultOrder: { column: 'sort_order', ascending: true },
+  cursorColumns: ['created_at']
+};
+
+export const recipeTable: TableDefinition<Recipe, RecipeRow> = {
+  table: 'recipes',
+  fields: [
+    { field: 'id', column: 'id' },
+    { field: 'name', column: 'name', toColumn: mappers.trimmed },
+    { field: 'description', column: 'description', toColumn: mappers.trimmedOrNull },
+    { field: 'ingredients', column: 'ingredients', toColumn: normalizeIngredients, fromColumn: normalizeIngredients },
+    { field: 'instructions', column: 'instructions', toColumn: mappers.jsonArray, fromColumn: mappers.jsonArray },
+    { field: 'yield', column: 'yield', toColumn: mappers.trimmedOrNull },
+    { field: 'prepTime', column: 'prep_time', toColumn: mappers.numberOrNull },
+    { field: 'cookTime', column: 'cook_time', toColumn: mappers.numberOrNull },
+    { field: 'totalTime', column: 'total_time', toColumn: mappers.numberOrNull },
+    { field: 'difficulty', column: 'difficulty', toColumn: mappers.withDefault('Medium'), fromColumn: mappers.withDefault('Medium') },
+    { field: 'tags', column: 'tags', toColumn: mappers.jsonArray, fromColumn: mappers.jsonArray },
+    { field: 'notes', column: 'notes', toColumn: mappers.trimmedOrNull },
+    { field: 'image', column: 'image', toColumn: mappers.trimmedOrNull },
+    ...ownershipFields<Recipe, RecipeRow>(camelTimestamps)
+  ],
+  schema: recipeSchema,
+  softDelete: true,
+  audited: true,
+  requiredColumns: ['name'],
+  defaultOrder: { column: 'created_at', ascending: false },
+  cursorColumns: ['created_at']
+};
+
+export const methodTable: TableDefinition<Method, MethodRow> = {
+  table: 'methods',
+  fields: [
+    { field: 'id', column: 'id' },
+    { field: 'name', column: 'name', toColumn: mappers.trimmed },
+    { field: 'description', column: 'description', toColumn: mappers.trimmedOrNull },
+    { field: 'category', column: 'category', toColumn: mappers.trimmedOrNull },
+    { field: 'videoUrl', column: 'video_url', toColumn: mappers.trimmedOrNull },
+    { field: 'instructions', column: 'instructions', toColumn: mappers.jsonArray, fromColumn: mappers.jsonArray },
+    { field: 'estimatedTime', column: 'estimated_time', toColumn: mappers.numberOrNull },
+    { field: 'difficultyLevel', column: 'difficulty_level', toColumn: mappers.withDefault('Intermediate'), fromColumn: mappers.withDefault('Intermediate') },
+    { field: 'tags', column: 'tags', toColumn: mappers.jsonArray, fromColumn: mappers.jsonArray },
+    { field: 'equipment', column: 'equipment', toColumn: mappers.jsonArray, fromColumn: mappers.jsonArray },
+    { field: 'tips', column: 'tips', toColumn: mappers.jsonArray, fromColumn: mappers.jsonArray },
+    ...ownershipFields<Method, MethodRow>(camelTimestamps)
+  ],
+  schema: methodSchema,
+  softDelete: true,
+  audited: true,
+  requiredColumns: ['name'],
+  defaultOrder: { column: 'created_at', ascending: false },
+  cursorColumns: ['created_at']
+};
+
+export const containerTable: TableDefinition<Container, ContainerRow> = {
+  table: 'containers',
+  fields: [
+    { field: 'id', column: 'id' },
+    { field: 'name', column: 'name', toColumn: mappers.trimmed },
+    { field: 'type', column: 'type', toColumn: mappers.trimmed },
+    { field: 'size', column: 'size', toColumn: mappers.trimmedOrNull },
+    { field: 'description', column: 'description', toColumn: mappers.trimmedOrNull },
+    ...ownershipFields<Container, ContainerRow>(snakeTimestamps)
+  ],
+  schema: containerSchema,
+  softDelete: true,
+  audited: true,
+  requiredColumns: ['name'],
+  defaultOrder: { column: 'name', ascending: true },
+  cursorColumns: ['name', 'created_at']
+};
+
+export const companyTable: TableDefinition<Company, CompanyRow> = {
+  table: 'companies',
+  fields: [
+    { field: 'id', column: 'id' },
+    { field: 'name', column: 'name', toColumn: mappers.trimmed },
+    { field: 'createdBy', column: 'created_by', readOnly: true },
+    { field: 'created_at', column: 'created_at', readOnly: true },
+    { field: 'updated_at', column: 'updated_at', readOnly: true }
+  ],
+  validators: [
+    company => (!company.id || !company.name?.trim() ? 'Company must have a valid ID and name' : null)
+  ],
+  requiredColumns: ['name'],
+  defaultOrder: { column: 'name', ascending: true },
+  cursorColumns: ['name', 'created_at']
+};
+
+export const companyMemberTable: TableDefinition<CompanyMember, CompanyMemberRow> = {
+  table: 'company_employees',
+  fields: [
+    { field: 'id', column: 'id' },
+    { field: 'companyId', column: 'company_id' },
+    { field: 'userId', column: 'auth_user_id' },
+    { field: 'role', column: 'role' },
+    { field: 'invitedBy', column: 'invited_by', readOnly: true },
+    { field: 'created_at', column: 'created_at', readOnly: true },
+    { field: 'updated_at', column: 'updated_at', readOnly: true }
+  ],
+  validators: [
+    member => (!member.companyId || !member.userId ? 'Company member must have a company and user' : null),
+    member => (!COMPANY_ROLES.includes(member.role) ? `Unknown company role '${member.role}'` : null)
+  ],
+  requiredColumns: ['company_id', 'auth_user_id', 'role'],
+  defaultOrder: { column: 'created_at', ascending: true },
+  cursorColumns: ['created_at']
+};
+
+export const companyInviteTable: TableDefinition<CompanyInvite, CompanyInviteRow> = {
+  table: 'company_invites',
+  fields: [
+    { field: 'id', column: 'id' },
+    { field: 'companyId', column: 'company_id' },
+    { field: 'email', column: 'email', toColumn: (value: string) => value?.trim().toLowerCase() },
+    { field: 'role', column: 'role', toColumn: mappers.withDefault('staff') },
+    { field: 'token', column: 'token', readOnly: true },
+    { field: 'invitedBy', column: 'invited_by', toColumn: mappers.currentUser },
+    { field: 'acceptedBy', column: 'accepted_by', readOnly: true },
+    { field: 'acceptedAt', column: 'accepted_at', readOnly: true },
+    { field: 'expiresAt', column: 'expires_at' },
+    { field: 'created_at', column: 'created_at', readOnly: true }
+  ],
+  validators: [
+    invite => (!invite.id || !invite.companyId ? 'Invite must have a valid ID and company' : null),
+    invite => (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(invite.email?.trim() || '') ? `Invalid invite email '${invite.email}'` : null),
+    invite => ((invite.role as CompanyRole) === 'owner' ? 'Ownership cannot be granted by invite' : null)
+  ],
+  requiredColumns: ['company_id', 'email'],
+  defaultOrder: { column: 'created_at', ascending: false },
+  cursorColumns: ['created_at']
+};
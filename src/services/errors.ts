@@ -0,0 +1,218 @@
+import type { TableName } from '../types/database';
+
+export type DatabaseErrorKind =
+  | 'not_found'
+  | 'permission_denied'
+  | 'conflict'
+  | 'validation'
+  | 'auth_expired'
+  | 'schema_missing'
+  | 'network'
+  | 'unknown';
+
+export interface DatabaseErrorOptions {
+  operation?: string | null;
+  table?: TableName | string | null;
+  // The PostgREST, auth or JS error this was derived from
+  original?: unknown;
+  // Overrides the kind's default
+  retryable?: boolean;
+}
+
+// Fields common to PostgREST, Postgres and Supabase auth errors
+interface ErrorLike {
+  message?: string;
+  code?: string;
+  details?: string;
+  hint?: string;
+  status?: number;
+  statusCode?: number;
+  name?: string;
+}
+
+// Base of every error DatabaseService throws. Check with instanceof (or
+// `kind`) instead of matching messages.
+export class DatabaseError extends Error {
+  readonly kind: DatabaseErrorKind = 'unknown';
+  readonly operation: string | null;
+  readonly table: string | null;
+  readonly original: unknown;
+  // Whether the same call may succeed if tried again unchanged
+  readonly retryable: boolean;
+  // Postgres/PostgREST/auth error code, when there was one
+  readonly code: string | null;
+
+  constructor(message: string, options: DatabaseErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.operation = options.operation || null;
+    this.table = options.table || null;
+    this.original = options.original;
+    this.retryable = options.retryable ?? false;
+    const code = (options.original as ErrorLike | undefined)?.code;
+    this.code = typeof code === 'string' ? code : null;
+  }
+
+  // Fills in where it happened, for errors raised before the context was known
+  withContext(operation: string | null, table: string | null): this {
+    const self = this as { operation: string | null; table: string | null };
+    self.operation = this.operation || operation;
+    self.table = this.table || table;
+    return this;
+  }
+}
+
+export class NotFoundError extends DatabaseError {
+  readonly kind = 'not_found';
+}
+
+export class PermissionDeniedError extends DatabaseError {
+  readonly kind = 'permission_denied';
+}
+
+// Unique or foreign key clash, or a row changed by someone else
+export class ConflictError<T = unknown> extends DatabaseError {
+  readonly kind = 'conflict';
+  // For a stale save: the row as the server has it now (null when it was
+  // deleted meanwhile) and the entity that was refused, for merging
+  readonly server: T | null;
+  readonly local: T | null;
+
+  constructor(message: string, options: DatabaseErrorOptions & { server?: T | null; local?: T | null } = {}) {
+    super(message, options);
+    this.server = options.server ?? null;
+    this.local = options.local ?? null;
+  }
+}
+
+// One invalid field, e.g. { path: 'items[2].name', message: 'Required' }
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+export class ValidationError extends DatabaseError {
+  readonly kind = 'validation';
+  // Per-field failures for forms; empty when the error is not about one field
+  readonly fields: FieldError[];
+
+  constructor(message: string, options: DatabaseErrorOptions & { fields?: FieldError[] } = {}) {
+    super(message, options);
+    this.fields = options.fields || [];
+  }
+}
+
+// No session, or the session/JWT has expired; sign in again
+export class AuthExpiredError extends DatabaseError {
+  readonly kind = 'auth_expired';
+}
+
+// A table, column or function the code expects is not in the database;
+// run the migrations
+export class SchemaMissingError extends DatabaseError {
+  readonly kind = 'schema_missing';
+}
+
+// The database could not be reached or did not answer in time
+export class NetworkError extends DatabaseError {
+  readonly kind = 'network';
+
+  constructor(message: string, options: DatabaseErrorOptions = {}) {
+    super(message, { retryable: true, ...options });
+  }
+}
+
+const NETWORK_MESSAGE = /Failed to fetch|NetworkError|Load failed|fetch failed|Network request failed|ERR_INTERNET_DISCONNECTED/i;
+
+// Postgres and PostgREST codes for failures that may pass on their own
+export const TRANSIENT_CODES = new Set([
+  '40001', // serialization_failure
+  '40P01', // deadlock_detected
+  '53300', // too_many_connections
+  '55P03', // lock_not_available
+  '57014', // query_canceled (statement timeout)
+  '57P01', // admin_shutdown
+  '57P03', // cannot_connect_now
+  'PGRST000', // could not connect to the database
+  'PGRST001', // internal database connection error
+  'PGRST002', // schema cache still loading
+  'PGRST003' // timed out acquiring a pool connection
+]);
+
+const SCHEMA_CODES = new Set(['42P01', '42703', '42883', '3F000', 'PGRST202', 'PGRST204', 'PGRST205']);
+const NOT_FOUND_CODES = new Set(['PGRST116', 'P0002']);
+const PERMISSION_CODES = new Set(['42501', 'insufficient_privilege', 'invalid_credentials', 'email_not_confirmed', 'user_banned']);
+const AUTH_EXPIRED_CODES = new Set([
+  'PGRST301',
+  'PGRST302',
+  'PGRST303',
+  'session_expired',
+  'session_not_found',
+  'refresh_token_not_found',
+  'refresh_token_already_used',
+  'bad_jwt',
+  'no_authorization'
+]);
+const CONFLICT_CODES = new Set(['23505', '23503', '23P01', 'user_already_exists', 'email_exists']);
+
+export function isNetworkFailure(error: unknown): boolean {
+  return error instanceof NetworkError || NETWORK_MESSAGE.test(String((error as ErrorLike | undefined)?.message || ''));
+}
+
+// PostgrestError has no HTTP status; the builder result carries it beside
+// the error. Attach it before throwing so a 5xx is recognised as transient.
+export function withStatus<T>(error: T, status: number | undefined): T {
+  if (error && typeof error === 'object' && status && (error as ErrorLike).status === undefined) {
+    Object.assign(error, { status });
+  }
+  return error;
+}
+
+// Maps any error from a database or auth call to the DatabaseError family.
+// DatabaseErrors pass through, keeping the innermost operation and table.
+export function toDatabaseError(error: unknown, context: { operation?: string | null; table?: string | null } = {}): DatabaseError {
+  const operation = context.operation || null;
+  const table = context.table || null;
+
+  if (error instanceof DatabaseError) {
+    return error.withContext(operation, table);
+  }
+
+  const source = (error && typeof error === 'object' ? error : { message: String(error) }) as ErrorLike;
+  const code = source.code || '';
+  const status = Number(source.status ?? source.statusCode) || 0;
+  const message = source.message || 'Unknown database error';
+  const options: DatabaseErrorOptions = { operation, table, original: error };
+
+  if (isNetworkFailure(error)) {
+    return new NetworkError(message, options);
+  }
+  if (SCHEMA_CODES.has(code)) {
+    return new SchemaMissingError(`${table ? `'${table}'` : 'Table'} or a column it needs was not found. Please ensure database migrations have been run. (${message})`, options);
+  }
+  if (AUTH_EXPIRED_CODES.has(code) || /JWT/.test(message) || status === 401) {
+    return new AuthExpiredError(`Authentication token invalid or expired. Please sign in again. (${message})`, options);
+  }
+  if (PERMISSION_CODES.has(code) || /row-level security/i.test(message) || status === 403) {
+    return new PermissionDeniedError(
+      code === '42501' || /row-level security/i.test(message)
+        ? `Access denied. Please check Row Level Security policies or authentication. (${message})`
+        : message,
+      options
+    );
+  }
+  if (CONFLICT_CODES.has(code) || status === 409) {
+    // Raised conflicts (e.g. an id in the trash) already say what clashed
+    const duplicateKey = code === '23505' && /^duplicate key/i.test(message);
+    return new ConflictError(duplicateKey ? `Duplicate entry detected. This item may already exist. (${message})` : message, options);
+  }
+  if (NOT_FOUND_CODES.has(code) || status === 404) {
+    return new NotFoundError(message, options);
+  }
+  if (code.startsWith('22') || code.startsWith('23') || code.startsWith('PGRST1') || status === 400 || status === 422) {
+    return new ValidationError(message, options);
+  }
+
+  const retryable = TRANSIENT_CODES.has(code) || code.startsWith('08') || status >= 500;
+  return new DatabaseError(message, { ...options, retryable });
+}
@@ -0,0 +1,389 @@
+import { ValidationError } from './errors';
+
+// Structured recipe ingredients: parsing legacy free text, unit conversion
+// and scaling. Pure functions only; nothing here talks to the database.
+
+export interface Ingredient {
+  quantity: number | null;
+  // Upper bound for ranges such as "2-3 cloves garlic"
+  quantityMax?: number | null;
+  unit: string | null;
+  item: string;
+  prepNote?: string;
+  // Optional reference to a row in `containers`
+  containerId?: string;
+}
+
+export type UnitFamily = 'weight' | 'volume' | 'count';
+export type UnitSystem = 'metric' | 'us';
+
+interface UnitDefinition {
+  unit: string;
+  family: UnitFamily;
+  system?: UnitSystem;
+  // Size in the family's base unit (grams for weight, millilitres for volume)
+  factor: number;
+  aliases: string[];
+}
+
+const UNITS: UnitDefinition[] = [
+  { unit: 'mg', family: 'weight', system: 'metric', factor: 0.001, aliases: ['milligram', 'milligrams'] },
+  { unit: 'g', family: 'weight', system: 'metric', factor: 1, aliases: ['gram', 'grams', 'gr'] },
+  { unit: 'kg', family: 'weight', system: 'metric', factor: 1000, aliases: ['kilogram', 'kilograms', 'kilo', 'kilos'] },
+  { unit: 'oz', family: 'weight', system: 'us', factor: 28.3495, aliases: ['ounce', 'ounces'] },
+  { unit: 'lb', family: 'weight', system: 'us', factor: 453.592, aliases: ['lbs', 'pound', 'pounds', '#'] },
+  { unit: 'ml', family: 'volume', system: 'metric', factor: 1, aliases: ['milliliter', 'milliliters', 'millilitre', 'millilitres', 'cc'] },
+  { unit: 'l', family: 'volume', system: 'metric', factor: 1000, aliases: ['liter', 'liters', 'litre', 'litres', 'lt'] },
+  { unit: 'tsp', family: 'volume', system: 'us', factor: 4.92892, aliases: ['teaspoon', 'teaspoons', 'tsps'] },
+  { unit: 'tbsp', family: 'volume', system: 'us', factor: 14.7868, aliases: ['tablespoon', 'tablespoons', 'tbsps', 'tbs', 'tbl'] },
+  { unit: 'fl oz', family: 'volume', system: 'us', factor: 29.5735, aliases: ['fluid ounce', 'fluid ounces', 'fl. oz', 'fl. oz.', 'floz'] },
+  { unit: 'cup', family: 'volume', system: 'us', factor: 236.588, aliases: ['cups', 'c'] },
+  { unit: 'pt', family: 'volume', system: 'us', factor: 473.176, aliases: ['pint', 'pints'] },
+  { unit: 'qt', family: 'volume', system: 'us', factor: 946.353, aliases: ['quart', 'quarts'] },
+  { unit: 'gal', family: 'volume', system: 'us', factor: 3785.41, aliases: ['gallon', 'gallons'] },
+  { unit: 'each', family: 'count', factor: 1, aliases: ['ea', 'piece', 'pieces', 'pc', 'pcs'] },
+  { unit: 'clove', family: 'count', factor: 1, aliases: ['cloves'] },
+  { unit: 'can', family: 'count', factor: 1, aliases: ['cans', 'tin', 'tins'] },
+  { unit: 'bunch', family: 'count', factor: 1, aliases: ['bunches'] },
+  { unit: 'head', family: 'count', factor: 1, aliases: ['heads'] },
+  { unit: 'slice', family: 'count', factor: 1, aliases: ['slices'] },
+  { unit: 'sprig', family: 'count', factor: 1, aliases: ['sprigs'] },
+  { unit: 'pinch', family: 'count', factor: 1, aliases: ['pinches'] },
+  { unit: 'dash', family: 'count', factor: 1, aliases: ['dashes'] },
+  { unit: 'case', family: 'count', factor: 1, aliases: ['cases'] },
+  { unit: 'dozen', family: 'count', factor: 12, aliases: ['doz'] }
+];
+
+const UNIT_LOOKUP = new Map<string, UnitDefinition>();
+for (const definition of UNITS) {
+  for (const name of [definition.unit, ...definition.aliases]) {
+    UNIT_LOOKUP.set(name.toLowerCase(), definition);
+  }
+}
+
+// Units tried largest-first when picking a readable unit after scaling
+const DISPLAY_UNITS: Record<'weight' | 'volume', Record<UnitSystem, string[]>> = {
+  weight: { metric: ['kg', 'g'], us: ['lb', 'oz'] },
+  volume: { metric: ['l', 'ml'], us: ['gal', 'qt', 'cup', 'tbsp', 'tsp'] }
+};
+
+// Grams per millilitre for common pantry items, used to cross weight/volume
+const DENSITIES: [RegExp, number][] = [
+  [/\b(water|stock|broth)\b/, 1],
+  [/\bmilk\b/, 1.03],
+  [/\b(heavy )?cream\b/, 1.01],
+  [/\boil\b/, 0.92],
+  [/\bbutter\b/, 0.96],
+  [/\bhoney\b/, 1.42],
+  [/\b(brown )?sugar\b/, 0.85],
+  [/\bflour\b/, 0.53],
+  [/\bsalt\b/, 1.2],
+  [/\brice\b/, 0.85]
+];
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 0.5, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 0.25, '¾': 0.75,
+  '⅕': 0.2, '⅖': 0.4, '⅗': 0.6, '⅘': 0.8, '⅙': 1 / 6, '⅚': 5 / 6,
+  '⅛': 0.125, '⅜': 0.375, '⅝': 0.625, '⅞': 0.875
+};
+
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join('');
+const NUMBER = `(?:\\d+\\s+\\d+/\\d+|\\d+/\\d+|\\d*\\.?\\d+\\s*[${FRACTION_CHARS}]?|[${FRACTION_CHARS}])`;
+const QUANTITY_PATTERN = new RegExp(`^(${NUMBER})(?:\\s*(?:-|–|to)\\s*(${NUMBER}))?\\s*`, 'i');
+
+export function lookupUnit(unit: string | null | undefined): UnitDefinition | null {
+  if (!unit) return null;
+  return UNIT_LOOKUP.get(unit.trim().toLowerCase().replace(/\.$/, '')) || null;
+}
+
+export function unitFamily(unit: string | null | undefined): UnitFamily | null {
+  return lookupUnit(unit)?.family || null;
+}
+
+function parseNumber(text: string): number {
+  const trimmed = text.trim();
+  let total = 0;
+  for (const part of trimmed.split(/\s+/)) {
+    const unicode = part.match(new RegExp(`^(\\d*\\.?\\d*)([${FRACTION_CHARS}])$`));
+    if (unicode) {
+      total += (Number(unicode[1]) || 0) + UNICODE_FRACTIONS[unicode[2]];
+    } else if (part.includes('/')) {
+      const [numerator, denominator] = part.split('/').map(Number);
+      total += denominator ? numerator / denominator : 0;
+    } else {
+      total += Number(part) || 0;
+    }
+  }
+  return total;
+}
+
+// Parses free text such as "2 1/2 cups flour, sifted" or "3-4 cloves garlic (minced)"
+export function parseIngredient(text: string): Ingredient {
+  let rest = text.trim().replace(/\s+/g, ' ');
+  const notes: string[] = [];
+
+  // Parenthesised asides become prep notes: "1 (14 oz) can tomatoes"
+  rest = rest.replace(/\s*\(([^)]*)\)\s*/g, (_match, note: string) => {
+    if (note.trim()) notes.push(note.trim());
+    return ' ';
+  }).trim();
+
+  let quantity: number | null = null;
+  let quantityMax: number | null = null;
+  const quantityMatch = rest.match(QUANTITY_PATTERN);
+  if (quantityMatch) {
+    quantity = parseNumber(quantityMatch[1]);
+    quantityMax = quantityMatch[2] ? parseNumber(quantityMatch[2]) : null;
+    rest = rest.slice(quantityMatch[0].length);
+  }
+
+  let unit: string | null = null;
+  if (quantity !== null) {
+    // Longest match first so "fl oz" is not read as "fl" + "oz"
+    const words = rest.split(' ');
+    for (const length of [3, 2, 1]) {
+      const candidate = words.slice(0, length).join(' ');
+      const definition = lookupUnit(candidate);
+      if (definition && words.length > length) {
+        unit = definition.unit;
+        rest = words.slice(length).join(' ');
+        break;
+      }
+    }
+    rest = rest.replace(/^of\s+/i, '');
+  }
+
+  const comma = rest.indexOf(',');
+  if (comma !== -1) {
+    notes.unshift(rest.slice(comma + 1).trim());
+    rest = rest.slice(0, comma).trim();
+  }
+
+  const toTaste = rest.match(/\s+(to taste|as needed|for garnish|optional)$/i);
+  if (toTaste) {
+    notes.unshift(toTaste[1]);
+    rest = rest.slice(0, toTaste.index).trim();
+  }
+
+  const ingredient: Ingredient = { quantity, unit, item: rest || text.trim() };
+  if (quantityMax !== null) ingredient.quantityMax = quantityMax;
+  const prepNote = notes.filter(Boolean).join('; ');
+  if (prepNote) ingredient.prepNote = prepNote;
+  return ingredient;
+}
+
+// Accepts legacy strings and stored objects; never throws on bad rows
+export function normalizeIngredient(value: unknown): Ingredient | null {
+  if (typeof value === 'string') {
+    return value.trim() ? parseIngredient(value) : null;
+  }
+  if (!value || typeof value !== 'object') return null;
+
+  const source = value as Record<string, unknown>;
+  const item = typeof source.item === 'string' ? source.item.trim() : '';
+  if (!item) return null;
+
+  const quantity = source.quantity === null || source.quantity === undefined || source.quantity === ''
+    ? null
+    : Number(source.quantity);
+  const ingredient: Ingredient = {
+    quantity: quantity === null || Number.isNaN(quantity) ? null : quantity,
+    unit: typeof source.unit === 'string' && source.unit.trim()
+      ? lookupUnit(source.unit)?.unit || source.unit.trim()
+      : null,
+    item
+  };
+  if (source.quantityMax !== undefined && source.quantityMax !== null && !Number.isNaN(Number(source.quantityMax))) {
+    ingredient.quantityMax = Number(source.quantityMax);
+  }
+  if (typeof source.prepNote === 'string' && source.prepNote.trim()) ingredient.prepNote = source.prepNote.trim();
+  if (typeof source.containerId === 'string' && source.containerId) ingredient.containerId = source.containerId;
+  return ingredient;
+}
+
+export function normalizeIngredients(value: unknown): Ingredient[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(normalizeIngredient)
+    .filter((ingredient): ingredient is Ingredient => ingredient !== null);
+}
+
+function densityFor(item: string): number | null {
+  const name = item.toLowerCase();
+  return DENSITIES.find(([pattern]) => pattern.test(name))?.[1] ?? null;
+}
+
+// Converts between units; crossing weight/volume uses `density` (g/ml) or the
+// built-in pantry table for `item`. Returns null when no conversion exists.
+export function convertQuantity(
+  quantity: number,
+  from: string,
+  to: string,
+  options: { item?: string; density?: number } = {}
+): number | null {
+  const source = lookupUnit(from);
+  const target = lookupUnit(to);
+  if (!source || !target) return from === to ? quantity : null;
+
+  if (source.family === target.family) {
+    // Count units are separate things (a case is not an each), except a dozen eaches
+    const units = new Set([source.unit, target.unit]);
+    if (source.family === 'count' && units.size === 2 && !(units.has('dozen') && units.has('each'))) {
+      return null;
+    }
+    return (quantity * source.factor) / target.factor;
+  }
+
+  const crossesWeightVolume = new Set([source.family, target.family]).size === 2
+    && source.family !== 'count' && target.family !== 'count';
+  if (!crossesWeightVolume) return null;
+
+  const density = options.density ?? (options.item ? densityFor(options.item) : null);
+  if (!density) return null;
+
+  const base = quantity * source.factor;
+  return source.family === 'volume'
+    ? (base * density) / target.factor
+    : base / density / target.factor;
+}
+
+// Picks the largest unit in the same family and system that keeps the value >= 1
+export function toReadableUnit(quantity: number, unit: string, system?: UnitSystem): { quantity: number; unit: string } {
+  const definition = lookupUnit(unit);
+  if (!definition || definition.family === 'count') return { quantity, unit };
+
+  const candidates = DISPLAY_UNITS[definition.family][system || definition.system || 'metric'];
+  for (const candidate of candidates) {
+    const converted = convertQuantity(quantity, definition.unit, candidate);
+    if (converted !== null && converted >= 1) {
+      return { quantity: roundQuantity(converted), unit: candidate };
+    }
+  }
+  const smallest = candidates[candidates.length - 1];
+  return { quantity: roundQuantity(convertQuantity(quantity, definition.unit, smallest) ?? quantity), unit: smallest };
+}
+
+export function roundQuantity(quantity: number): number {
+  if (quantity >= 100) return Math.round(quantity);
+  if (quantity >= 10) return Math.round(quantity * 10) / 10;
+  return Math.round(quantity * 100) / 100;
+}
+
+export function scaleIngredient(ingredient: Ingredient, factor: number, system?: UnitSystem): Ingredient {
+  if (ingredient.quantity === null) return { ...ingredient };
+
+  const scaled: Ingredient = { ...ingredient, quantity: roundQuantity(ingredient.quantity * factor) };
+  if (ingredient.quantityMax !== undefined && ingredient.quantityMax !== null) {
+    scaled.quantityMax = roundQuantity(ingredient.quantityMax * factor);
+  }
+
+  if (ingredient.unit && !scaled.quantityMax) {
+    const readable = toReadableUnit(ingredient.quantity * factor, ingredient.unit, system);
+    scaled.quantity = readable.quantity;
+    scaled.unit = readable.unit;
+  }
+  return scaled;
+}
+
+// Reads a serving count from yields like "Serves 8", "12 portions" or "4"
+export function parseServings(yieldText: string | null | undefined): number | null {
+  const match = yieldText?.match(/(\d+(?:\.\d+)?)/);
+  const servings = match ? Number(match[1]) : NaN;
+  return servings > 0 ? servings : null;
+}
+
+export function scaleRecipe<T extends { name: string; yield?: string; ingredients: Ingredient[] }>(
+  recipe: T,
+  servings: number,
+  options: { baseServings?: number; system?: UnitSystem } = {}
+): T {
+  if (!(servings > 0)) {
+    throw new ValidationError('Servings must be a positive number');
+  }
+
+  const baseServings = options.baseServings ?? parseServings(recipe.yield);
+  if (!baseServings) {
+    throw new ValidationError(`Recipe '${recipe.name}' has no serving count in its yield; pass baseServings to scale it`);
+  }
+
+  const factor = servings / baseServings;
+  return {
+    ...recipe,
+    yield: `${servings} servings`,
+    ingredients: normalizeIngredients(recipe.ingredients).map(ingredient => scaleIngredient(ingredient, factor, options.system))
+  };
+}
+
+// Merges duplicate items, converting to a common unit where possible
+export function combineIngredients(ingredients: Ingredient[], system?: UnitSystem): Ingredient[] {
+  const combined: Ingredient[] = [];
+
+  for (const ingredient of ingredients) {
+    const key = ingredient.item.trim().toLowerCase();
+    const existing = combined.find(candidate =>
+      candidate.item.trim().toLowerCase() === key &&
+      candidate.containerId === ingredient.containerId &&
+      canAdd(candidate, ingredient)
+    );
+
+    if (!existing) {
+      combined.push({ ...ingredient });
+      continue;
+    }
+
+    if (existing.quantity === null || ingredient.quantity === null) {
+      existing.quantity = existing.quantity ?? ingredient.quantity;
+    } else if (existing.unit === ingredient.unit) {
+      existing.quantity += ingredient.quantity;
+    } else {
+      const converted = convertQuantity(ingredient.quantity, ingredient.unit || 'each', existing.unit || 'each', { item: key });
+      existing.quantity += converted ?? 0;
+    }
+    existing.quantityMax = undefined;
+    if (ingredient.prepNote && ingredient.prepNote !== existing.prepNote) {
+      existing.prepNote = [existing.prepNote, ingredient.prepNote].filter(Boolean).join('; ');
+    }
+  }
+
+  return combined.map(ingredient => {
+    if (ingredient.quantity === null || !ingredient.unit) return ingredient;
+    const readable = toReadableUnit(ingredient.quantity, ingredient.unit, system);
+    const result: Ingredient = { ...ingredient, quantity: readable.quantity, unit: readable.unit };
+    if (result.quantityMax === undefined) delete result.quantityMax;
+    return result;
+  });
+}
+
+// A missing unit on a counted item ("3 eggs") means "each"
+function canAdd(a: Ingredient, b: Ingredient): boolean {
+  if (a.quantity === null || b.quantity === null) return a.unit === b.unit;
+  if (a.unit === b.unit) return true;
+  return convertQuantity(1, b.unit || 'each', a.unit || 'each', { item: a.item }) !== null;
+}
+
+const DISPLAY_FRACTIONS: [number, string][] = [
+  [0.125, '1/8'], [0.25, '1/4'], [1 / 3, '1/3'], [0.375, '3/8'], [0.5, '1/2'],
+  [0.625, '5/8'], [2 / 3, '2/3'], [0.75, '3/4'], [0.875, '7/8']
+];
+
+export function formatQuantity(quantity: number): string {
+  const whole = Math.floor(quantity);
+  const fraction = quantity - whole;
+  const match = DISPLAY_FRACTIONS.find(([value]) => Math.abs(value - fraction) < 0.02);
+  if (fraction < 0.02) return String(whole);
+  if (match) return whole ? `${whole} ${match[1]}` : match[1];
+  return String(roundQuantity(quantity));
+}
+
+export function formatIngredient(ingredient: Ingredient): string {
+  const parts: string[] = [];
+  if (ingredient.quantity !== null) {
+    parts.push(ingredient.quantityMax
+      ? `${formatQuantity(ingredient.quantity)}-${formatQuantity(ingredient.quantityMax)}`
+      : formatQuantity(ingredient.quantity));
+  }
+  if (ingredient.unit && ingredient.unit !== 'each') parts.push(ingredient.unit);
+  parts.push(ingredient.item);
+  const text = parts.join(' ');
+  return ingredient.prepNote ? `${text}, ${ingredient.prepNote}` : text;
+}
@@ -0,0 +1,227 @@
+import type { TableName } from '../types/database';
+
+// Tables mirrored in the local cache; bump CACHE_VERSION when this list changes
+export type CachedTable = Extract<
+  TableName,
+  'prep_lists' | 'events' | 'event_recipes' | 'recipes' | 'methods' | 'containers'
+>;
+
+export const CACHED_TABLES: CachedTable[] = ['prep_lists', 'events', 'event_recipes', 'recipes', 'methods', 'containers'];
+
+const CACHE_VERSION = 1;
+const QUEUE_STORE = 'sync_queue';
+const META_STORE = 'sync_meta';
+
+export type CachedRow = { id: string; updated_at?: string | null } & Record<string, unknown>;
+
+// A write made while offline (or while earlier writes were still queued)
+export interface QueuedOperation {
+  seq: number;
+  table: CachedTable;
+  kind: 'save' | 'delete';
+  id: string;
+  // Row as it will be upserted; absent for deletes
+  row?: CachedRow;
+  // updated_at of the row the user edited, for conflict detection
+  baseUpdatedAt: string | null;
+  // The caller required that version (SaveOptions.expectedUpdatedAt): a
+  // changed server row fails the write instead of going to the resolver
+  requireBase?: boolean;
+  queuedAt: string;
+  attempts: number;
+  status: 'pending' | 'failed';
+  lastError?: string;
+}
+
+export interface LocalStore {
+  getAll(table: CachedTable): Promise<CachedRow[]>;
+  get(table: CachedTable, id: string): Promise<CachedRow | null>;
+  put(table: CachedTable, rows: CachedRow[]): Promise<void>;
+  // Replaces the table's cached rows with a full server load
+  replace(table: CachedTable, rows: CachedRow[]): Promise<void>;
+  remove(table: CachedTable, ids: string[]): Promise<void>;
+  listQueue(): Promise<QueuedOperation[]>;
+  enqueue(operation: Omit<QueuedOperation, 'seq'>): Promise<QueuedOperation>;
+  updateQueued(operation: QueuedOperation): Promise<void>;
+  dequeue(seq: number): Promise<void>;
+  getMeta<T>(key: string): Promise<T | null>;
+  setMeta(key: string, value: unknown): Promise<void>;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+}
+
+export class IndexedDbStore implements LocalStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly name: string) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const req = indexedDB.open(this.name, CACHE_VERSION);
+        req.onupgradeneeded = () => {
+          const db = req.result;
+          for (const table of CACHED_TABLES) {
+            if (!db.objectStoreNames.contains(table)) db.createObjectStore(table, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+            db.createObjectStore(QUEUE_STORE, { keyPath: 'seq', autoIncrement: true });
+          }
+          if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => {
+          this.db = null;
+          reject(req.error);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  private async write(store: string, fn: (objects: IDBObjectStore) => void): Promise<void> {
+    const tx = (await this.open()).transaction(store, 'readwrite');
+    fn(tx.objectStore(store));
+    return completion(tx);
+  }
+
+  async getAll(table: CachedTable): Promise<CachedRow[]> {
+    const tx = (await this.open()).transaction(table, 'readonly');
+    return request(tx.objectStore(table).getAll());
+  }
+
+  async get(table: CachedTable, id: string): Promise<CachedRow | null> {
+    const tx = (await this.open()).transaction(table, 'readonly');
+    return (await request(tx.objectStore(table).get(id))) || null;
+  }
+
+  put(table: CachedTable, rows: CachedRow[]): Promise<void> {
+    return this.write(table, objects => rows.forEach(row => objects.put(row)));
+  }
+
+  replace(table: CachedTable, rows: CachedRow[]): Promise<void> {
+    return this.write(table, objects => {
+      objects.clear();
+      rows.forEach(row => objects.put(row));
+    });
+  }
+
+  remove(table: CachedTable, ids: string[]): Promise<void> {
+    return this.write(table, objects => ids.forEach(id => objects.delete(id)));
+  }
+
+  async listQueue(): Promise<QueuedOperation[]> {
+    const tx = (await this.open()).transaction(QUEUE_STORE, 'readonly');
+    return request(tx.objectStore(QUEUE_STORE).getAll());
+  }
+
+  async enqueue(operation: Omit<QueuedOperation, 'seq'>): Promise<QueuedOperation> {
+    const tx = (await this.open()).transaction(QUEUE_STORE, 'readwrite');
+    const seq = await request(tx.objectStore(QUEUE_STORE).add(operation));
+    await completion(tx);
+    return { ...operation, seq: Number(seq) };
+  }
+
+  updateQueued(operation: QueuedOperation): Promise<void> {
+    return this.write(QUEUE_STORE, objects => objects.put(operation));
+  }
+
+  dequeue(seq: number): Promise<void> {
+    return this.write(QUEUE_STORE, objects => objects.delete(seq));
+  }
+
+  async getMeta<T>(key: string): Promise<T | null> {
+    const tx = (await this.open()).transaction(META_STORE, 'readonly');
+    return ((await request(tx.objectStore(META_STORE).get(key))) as T) ?? null;
+  }
+
+  setMeta(key: string, value: unknown): Promise<void> {
+    return this.write(META_STORE, objects => objects.put(value, key));
+  }
+}
+
+// Used where IndexedDB is unavailable (tests, SSR); nothing survives a reload
+export class MemoryStore implements LocalStore {
+  private tables = new Map<CachedTable, Map<string, CachedRow>>();
+  private queue = new Map<number, QueuedOperation>();
+  private meta = new Map<string, unknown>();
+  private nextSeq = 1;
+
+  private rowsOf(table: CachedTable): Map<string, CachedRow> {
+    let rows = this.tables.get(table);
+    if (!rows) {
+      rows = new Map();
+      this.tables.set(table, rows);
+    }
+    return rows;
+  }
+
+  async getAll(table: CachedTable): Promise<CachedRow[]> {
+    return [...this.rowsOf(table).values()].map(row => structuredClone(row));
+  }
+
+  async get(table: CachedTable, id: string): Promise<CachedRow | null> {
+    const row = this.rowsOf(table).get(id);
+    return row ? structuredClone(row) : null;
+  }
+
+  async put(table: CachedTable, rows: CachedRow[]): Promise<void> {
+    rows.forEach(row => this.rowsOf(table).set(row.id, structuredClone(row)));
+  }
+
+  async replace(table: CachedTable, rows: CachedRow[]): Promise<void> {
+    this.rowsOf(table).clear();
+    await this.put(table, rows);
+  }
+
+  async remove(table: CachedTable, ids: string[]): Promise<void> {
+    ids.forEach(id => this.rowsOf(table).delete(id));
+  }
+
+  async listQueue(): Promise<QueuedOperation[]> {
+    return [...this.queue.values()].sort((a, b) => a.seq - b.seq).map(operation => structuredClone(operation));
+  }
+
+  async enqueue(operation: Omit<QueuedOperation, 'seq'>): Promise<QueuedOperation> {
+    const queued = { ...structuredClone(operation), seq: this.nextSeq++ };
+    this.queue.set(queued.seq, queued);
+    return structuredClone(queued);
+  }
+
+  async updateQueued(operation: QueuedOperation): Promise<void> {
+    this.queue.set(operation.seq, structuredClone(operation));
+  }
+
+  async dequeue(seq: number): Promise<void> {
+    this.queue.delete(seq);
+  }
+
+  async getMeta<T>(key: string): Promise<T | null> {
+    return (this.meta.get(key) as T) ?? null;
+  }
+
+  async setMeta(key: string, value: unknown): Promise<void> {
+    this.meta.set(key, value);
+  }
+}
+
+// One store per signed-in user, so a shared kitchen tablet never shows (or
+// replays) another user's cached data
+export function createLocalStore(namespace: string): LocalStore {
+  return typeof indexedDB === 'undefined'
+    ? new MemoryStore()
+    : new IndexedDbStore(`prep-chef-cache-${namespace}`);
+}
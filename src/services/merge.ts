@@ -0,0 +1,153 @@
+import type { Ingredient, PrepItem } from './entities';
+
+// Three-way merge for the jsonb list fields (prep list items, event prep
+// items, recipe ingredients), so a save refused with a ConflictError can be
+// resolved without dropping either side's work.
+//
+//   base:   the list as the caller loaded it
+//   local:  the caller's edited list
+//   server: ConflictError.server's list
+//
+// Changes made on only one side are kept as they are. An element changed
+// differently on both sides is a conflict: `prefer` picks the version kept in
+// the result (local by default) and the conflict is reported so the UI can
+// offer the other one. An element edited on one side and removed on the other
+// is kept as edited.
+
+export interface ArrayMergeConflict<T> {
+  key: string;
+  base: T | null;
+  local: T | null;
+  server: T | null;
+}
+
+export interface ArrayMergeResult<T> {
+  merged: T[];
+  conflicts: ArrayMergeConflict<T>[];
+}
+
+export interface ArrayMergeOptions<T> {
+  // Identifies an element across the three lists; elements are compared by value
+  key: (item: T) => string;
+  prefer?: 'local' | 'server';
+}
+
+// Prep items carry their own ids
+export const prepItemKey = (item: PrepItem): string => item.id;
+
+// Ingredients have no id, so they are matched on the ingredient itself
+export const ingredientKey = (ingredient: Ingredient): string => ingredient.item.trim().toLowerCase();
+
+// Deep equality for JSON values, ignoring object key order (jsonb reorders keys)
+export function sameJson(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    // undefined fields and null read back the same way
+    return (a ?? null) === (b ?? null);
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((value, index) => sameJson(value, other[index]));
+  }
+
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  return [...keys].every(key => sameJson(left[key], right[key]));
+}
+
+// Repeated keys (the same ingredient twice) are told apart by occurrence
+function byKey<T>(items: T[], key: (item: T) => string): Map<string, T> {
+  const map = new Map<string, T>();
+  const seen = new Map<string, number>();
+  for (const item of items) {
+    const base = key(item);
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    map.set(count === 0 ? base : `${base}#${count}`, item);
+  }
+  return map;
+}
+
+// The keys common to both lists, in the order of the first
+function commonOrder(first: Map<string, unknown>, second: Map<string, unknown>): string[] {
+  return [...first.keys()].filter(key => second.has(key));
+}
+
+export function mergeArrays<T>(base: T[], local: T[], server: T[], options: ArrayMergeOptions<T>): ArrayMergeResult<T> {
+  const prefer = options.prefer || 'local';
+  const baseItems = byKey(base || [], options.key);
+  const localItems = byKey(local || [], options.key);
+  const serverItems = byKey(server || [], options.key);
+
+  const conflicts: ArrayMergeConflict<T>[] = [];
+  const kept = new Map<string, T>();
+
+  const keys = new Set([...localItems.keys(), ...serverItems.keys(), ...baseItems.keys()]);
+  for (const key of keys) {
+    const original = baseItems.get(key) ?? null;
+    const mine = localItems.get(key) ?? null;
+    const theirs = serverItems.get(key) ?? null;
+    const conflict = () => conflicts.push({ key, base: original, local: mine, server: theirs });
+
+    if (mine && theirs) {
+      if (sameJson(mine, theirs) || sameJson(theirs, original)) {
+        kept.set(key, mine);
+      } else if (sameJson(mine, original)) {
+        kept.set(key, theirs);
+      } else {
+        conflict();
+        kept.set(key, prefer === 'local' ? mine : theirs);
+      }
+    } else if (mine) {
+      // Removed on the server: honoured unless edited here meanwhile
+      if (!original) {
+        kept.set(key, mine);
+      } else if (!sameJson(mine, original)) {
+        conflict();
+        kept.set(key, mine);
+      }
+    } else if (theirs) {
+      if (!original) {
+        kept.set(key, theirs);
+      } else if (!sameJson(theirs, original)) {
+        conflict();
+        kept.set(key, theirs);
+      }
+    }
+  }
+
+  // Follow the server's order if it was reordered there, else the local one;
+  // the other side's additions go in after the element they followed there
+  const serverReordered = commonOrder(baseItems, serverItems).join('\n') !== commonOrder(serverItems, baseItems).join('\n');
+  const [primary, secondary] = serverReordered ? [serverItems, localItems] : [localItems, serverItems];
+
+  const order = [...primary.keys()].filter(key => kept.has(key));
+  let previous: string | null = null;
+  for (const key of secondary.keys()) {
+    if (kept.has(key) && !order.includes(key)) {
+      const at = previous === null ? 0 : order.indexOf(previous) + 1;
+      order.splice(at, 0, key);
+    }
+    if (order.includes(key)) previous = key;
+  }
+  for (const key of kept.keys()) {
+    if (!order.includes(key)) order.push(key);
+  }
+
+  return { merged: order.map(key => kept.get(key)!), conflicts };
+}
+
+export function mergePrepItems(base: PrepItem[], local: PrepItem[], server: PrepItem[], prefer?: 'local' | 'server'): ArrayMergeResult<PrepItem> {
+  return mergeArrays(base, local, server, { key: prepItemKey, prefer });
+}
+
+export function mergeIngredients(
+  base: Ingredient[],
+  local: Ingredient[],
+  server: Ingredient[],
+  prefer?: 'local' | 'server'
+): ArrayMergeResult<Ingredient> {
+  return mergeArrays(base, local, server, { key: ingredientKey, prefer });
+}
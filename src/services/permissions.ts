@@ -0,0 +1,118 @@
+import type { TableName } from '../types/database';
+import type { CompanyRole } from './entities';
+
+export type PermissionAction = 'view' | 'save' | 'delete' | 'complete';
+
+export type PermissionTable = Extract<
+  TableName,
+  'prep_lists' | 'events' | 'event_recipes' | 'recipes' | 'methods' | 'containers'
+>;
+
+// Mirrors the role_permissions rows seeded by the role_permissions migration;
+// keep the two in step so clients fail early with the same answer RLS gives
+export const PERMISSIONS: Record<PermissionTable, Partial<Record<PermissionAction, CompanyRole[]>>> = {
+  prep_lists: {
+    view: ['owner', 'admin', 'chef', 'staff'],
+    save: ['owner', 'admin', 'chef', 'staff'],
+    delete: ['owner', 'admin', 'chef']
+  },
+  events: {
+    view: ['owner', 'admin', 'chef', 'staff'],
+    save: ['owner', 'admin', 'chef'],
+    delete: ['owner', 'admin'],
+    complete: ['owner', 'admin']
+  },
+  event_recipes: {
+    view: ['owner', 'admin', 'chef', 'staff'],
+    save: ['owner', 'admin', 'chef'],
+    delete: ['owner', 'admin', 'chef']
+  },
+  recipes: {
+    view: ['owner', 'admin', 'chef', 'staff'],
+    save: ['owner', 'admin', 'chef'],
+    delete: ['owner', 'admin']
+  },
+  methods: {
+    view: ['owner', 'admin', 'chef', 'staff'],
+    save: ['owner', 'admin', 'chef'],
+    delete: ['owner', 'admin']
+  },
+  containers: {
+    view: ['owner', 'admin', 'chef', 'staff'],
+    save: ['owner', 'admin', 'chef'],
+    delete: ['owner', 'admin']
+  }
+};
+
+// The ownership columns a permission is decided on
+export interface PermissionSubject {
+  company_id?: string | null;
+  user_id?: string | null;
+}
+
+export interface PermissionCaller {
+  userId: string | null;
+  // Role per company id
+  roles: Map<string, CompanyRole>;
+}
+
+export interface PermissionCheck {
+  allowed: boolean;
+  role: CompanyRole | null;
+  // Why the action was refused; absent when allowed
+  reason?: string;
+}
+
+const TABLE_LABELS: Record<PermissionTable, string> = {
+  prep_lists: 'prep lists',
+  events: 'events',
+  event_recipes: 'event recipes',
+  recipes: 'recipes',
+  methods: 'methods',
+  containers: 'containers'
+};
+
+const ACTION_PHRASES: Record<PermissionAction, (things: string) => string> = {
+  view: things => `view ${things}`,
+  save: things => `create or edit ${things}`,
+  delete: things => `delete ${things}`,
+  complete: things => `mark ${things} complete`
+};
+
+function describeRoles(roles: CompanyRole[]): string {
+  const plural = roles.map(role => `${role}s`);
+  return plural.length > 1 ? `${plural.slice(0, -1).join(', ')} and ${plural[plural.length - 1]}` : plural[0] || 'nobody';
+}
+
+// Same decision as the has_permission() SQL function
+export function checkPermission(
+  action: PermissionAction,
+  table: PermissionTable,
+  subject: PermissionSubject,
+  caller: PermissionCaller
+): PermissionCheck {
+  const what = ACTION_PHRASES[action](TABLE_LABELS[table]);
+
+  if (!caller.userId) {
+    return { allowed: false, role: null, reason: `Sign in to ${what}` };
+  }
+
+  // Rows outside any company belong to whoever created them
+  if (!subject.company_id) {
+    const ownsRow = !subject.user_id || subject.user_id === caller.userId;
+    return ownsRow
+      ? { allowed: true, role: null }
+      : { allowed: false, role: null, reason: `Only the creator can ${what} that are not shared with a company` };
+  }
+
+  const role = caller.roles.get(subject.company_id) || null;
+  if (!role) {
+    return { allowed: false, role, reason: `You are not a member of the company that owns these ${TABLE_LABELS[table]}` };
+  }
+
+  const allowedRoles = PERMISSIONS[table][action] || [];
+  if (allowedRoles.includes(role)) {
+    return { allowed: true, role };
+  }
+  return { allowed: false, role, reason: `Only ${describeRoles(allowedRoles)} can ${what} (your role: ${role})` };
+}
@@ -0,0 +1,111 @@
+import type { EventRecipe, PrepItem, Recipe } from './entities';
+import { NotFoundError } from './errors';
+import {
+  Ingredient,
+  UnitSystem,
+  combineIngredients,
+  formatQuantity,
+  parseServings,
+  scaleRecipe
+} from './ingredients';
+
+// Keyword buckets for grouping generated prep items; first match wins
+const CATEGORIES: [string, RegExp][] = [
+  ['Meat & Seafood', /\b(beef|pork|chicken|turkey|lamb|veal|duck|bacon|sausage|ham|steak|brisket|fish|salmon|tuna|cod|shrimp|prawn|crab|lobster|scallop|mussel|clam)s?\b/],
+  ['Dairy & Eggs', /\b(milk|cream|butter|cheese|parmesan|mozzarella|cheddar|yogurt|yoghurt|egg|eggs|buttermilk|creme fraiche)\b/],
+  ['Produce', /\b(onion|garlic|shallot|leek|carrot|celery|potato|tomato|pepper|lettuce|spinach|kale|cabbage|broccoli|cauliflower|mushroom|zucchini|squash|cucumber|lemon|lime|orange|apple|berry|berries|herb|parsley|cilantro|basil|thyme|rosemary|mint|dill|chive|ginger|scallion|avocado|corn|pea|bean sprout)e?s?\b/],
+  ['Spices & Seasoning', /\b(salt|pepper|paprika|cumin|coriander|cinnamon|nutmeg|clove|oregano|chili|chilli|cayenne|turmeric|curry|vanilla|bay lea(f|ves)|seasoning|spice)\b/],
+  ['Oils & Condiments', /\b(oil|vinegar|mustard|mayonnaise|mayo|ketchup|soy sauce|sauce|honey|syrup|dressing|stock|broth)\b/],
+  ['Dry Goods', /\b(flour|sugar|rice|pasta|noodle|bread|breadcrumb|oat|lentil|bean|chickpea|quinoa|cornstarch|baking (powder|soda)|yeast|nut|almond|walnut|pecan|cocoa|chocolate)s?\b/]
+];
+
+export const UNCATEGORIZED = 'Other';
+
+export function categorizeIngredient(item: string): string {
+  const name = item.toLowerCase();
+  return CATEGORIES.find(([, pattern]) => pattern.test(name))?.[0] || UNCATEGORIZED;
+}
+
+function itemKey(ingredient: Ingredient): string {
+  return ingredient.item.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+interface SourcedIngredient {
+  ingredient: Ingredient;
+  recipeId: string;
+}
+
+// Scales every linked recipe, merges duplicate ingredients across recipes and
+// returns prep items grouped by category (then name), each tagged with the
+// event and the recipes it came from.
+export function buildEventPrepItems(
+  eventId: string,
+  links: EventRecipe[],
+  recipes: Recipe[],
+  options: { system?: UnitSystem } = {}
+): PrepItem[] {
+  const recipesById = new Map(recipes.map(recipe => [recipe.id, recipe]));
+  const groups = new Map<string, SourcedIngredient[]>();
+
+  for (const link of links) {
+    const recipe = recipesById.get(link.recipeId);
+    if (!recipe) {
+      throw new NotFoundError(`Recipe ${link.recipeId} linked to event ${eventId} was not found`, { table: 'recipes' });
+    }
+
+    // Recipes without a serving count in their yield are used as written
+    const baseServings = parseServings(recipe.yield) ?? link.servings;
+    const scaled = scaleRecipe(recipe, link.servings, { baseServings, system: options.system });
+
+    for (const ingredient of scaled.ingredients) {
+      const key = itemKey(ingredient);
+      const group = groups.get(key) || [];
+      group.push({ ingredient, recipeId: recipe.id });
+      groups.set(key, group);
+    }
+  }
+
+  const items: PrepItem[] = [];
+  const ids = new Set<string>();
+  for (const [key, group] of groups) {
+    const recipeIds = [...new Set(group.map(entry => entry.recipeId))];
+    // Entries whose units cannot be converted stay as separate lines
+    for (const ingredient of combineIngredients(group.map(entry => entry.ingredient), options.system)) {
+      const unit = ingredient.unit || 'each';
+      // Lines kept apart by container share a unit, so later ones get a suffix
+      const base = `gen-${slug(key)}-${slug(unit)}`;
+      let id = base;
+      for (let copy = 2; ids.has(id); copy++) id = `${base}-${copy}`;
+      ids.add(id);
+      items.push({
+        id,
+        name: ingredient.item,
+        quantity: ingredient.quantity === null ? '' : formatQuantity(ingredient.quantity),
+        unit,
+        category: categorizeIngredient(ingredient.item),
+        completed: false,
+        notes: ingredient.prepNote,
+        eventId,
+        recipeIds
+      });
+    }
+  }
+
+  return items.sort((a, b) =>
+    (a.category || '').localeCompare(b.category || '') || a.name.localeCompare(b.name)
+  );
+}
+
+// Keeps completion and assignment from a previous generation of the same list
+export function carryOverProgress(previous: PrepItem[] | undefined, next: PrepItem[]): PrepItem[] {
+  const byId = new Map((previous || []).map(item => [item.id, item]));
+  return next.map(item => {
+    const earlier = byId.get(item.id);
+    if (!earlier) return item;
+    return { ...item, completed: earlier.completed ?? false, assignedTo: earlier.assignedTo };
+  });
+}
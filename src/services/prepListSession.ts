@@ -0,0 +1,327 @@
+import type { PrepItem } from './entities';
+import { ConflictError, NotFoundError, toDatabaseError } from './errors';
+
+// Item-level edits to a prep list; applied by the apply_prep_item_op RPC
+export type PrepItemOp =
+  // Without `completed` the server flips the current value
+  | { type: 'toggle'; itemId: string; completed?: boolean }
+  | { type: 'assign'; itemId: string; assignedTo: string | null }
+  | { type: 'set_quantity'; itemId: string; quantity: string; unit?: string }
+  | { type: 'move'; itemId: string; toIndex: number }
+  | { type: 'add'; item: PrepItem; index?: number }
+  | { type: 'remove'; itemId: string };
+
+// Broadcast on the list's topic after an operation commits
+export interface PrepItemOpEvent {
+  type: 'item_op';
+  listId: string;
+  version: number;
+  // Client id of the operation, so the sender can match its own echo
+  opId: string | null;
+  op: PrepItemOp;
+  // The item after the operation; null for removals
+  item: PrepItem | null;
+  actor: string | null;
+  at: string;
+}
+
+// Broadcast when a whole-list save replaced the items
+export interface PrepItemsReplacedEvent {
+  type: 'items_replaced';
+  listId: string;
+  version: number;
+  items: PrepItem[];
+  actor: string | null;
+  at: string;
+}
+
+export type PrepListEvent = PrepItemOpEvent | PrepItemsReplacedEvent;
+
+export function prepListTopic(listId: string): string {
+  return `prep_list:${listId}`;
+}
+
+function indexOfItem(items: PrepItem[], itemId: string): number {
+  const index = items.findIndex(item => item.id === itemId);
+  if (index === -1) {
+    throw new NotFoundError(`Item ${itemId} is not on this prep list`, { table: 'prep_lists' });
+  }
+  return index;
+}
+
+function clampIndex(index: number | undefined, length: number): number {
+  return Math.min(Math.max(Math.trunc(index ?? length), 0), length);
+}
+
+// Same result as apply_prep_item_op, for optimistic updates
+export function applyPrepItemOp(items: PrepItem[], op: PrepItemOp): PrepItem[] {
+  const next = [...items];
+
+  switch (op.type) {
+    case 'toggle': {
+      const index = indexOfItem(next, op.itemId);
+      next[index] = { ...next[index], completed: op.completed ?? !next[index].completed };
+      return next;
+    }
+    case 'assign': {
+      const index = indexOfItem(next, op.itemId);
+      const { assignedTo: _previous, ...item } = next[index];
+      next[index] = op.assignedTo ? { ...item, assignedTo: op.assignedTo } : item;
+      return next;
+    }
+    case 'set_quantity': {
+      const index = indexOfItem(next, op.itemId);
+      next[index] = { ...next[index], quantity: op.quantity, ...(op.unit !== undefined ? { unit: op.unit } : {}) };
+      return next;
+    }
+    case 'move': {
+      const [item] = next.splice(indexOfItem(next, op.itemId), 1);
+      next.splice(clampIndex(op.toIndex, next.length), 0, item);
+      return next;
+    }
+    case 'add': {
+      if (next.some(item => item.id === op.item.id)) {
+        throw new ConflictError(`Item ${op.item.id} is already on this prep list`, { table: 'prep_lists' });
+      }
+      next.splice(clampIndex(op.index, next.length), 0, op.item);
+      return next;
+    }
+    case 'remove':
+      next.splice(indexOfItem(next, op.itemId), 1);
+      return next;
+  }
+}
+
+// How a session talks to the server; DatabaseService.openPrepListSession
+// wires it to the RPC and the list's realtime channel
+export interface PrepListSessionTransport {
+  load(): Promise<{ items: PrepItem[]; version: number } | null>;
+  send(op: PrepItemOp, opId: string): Promise<PrepItemOpEvent>;
+  // onSubscribed runs on every (re)subscribe, since events may have been missed
+  listen(handlers: { onEvent: (event: PrepListEvent) => void; onSubscribed: () => void }): () => void;
+}
+
+export interface PrepListSessionState {
+  listId: string;
+  // Server state with this client's unconfirmed operations applied on top
+  items: PrepItem[];
+  version: number;
+  pending: number;
+  error: string | null;
+}
+
+export type PrepListSessionListener = (state: PrepListSessionState) => void;
+
+// Keeps one prep list in step with the server. Local operations show at once
+// and are replayed on top of every server event until confirmed, so edits from
+// other cooks are merged in rather than overwritten.
+export class PrepListSession {
+  private confirmed: PrepItem[] = [];
+  private version = 0;
+  private pendingOps: { opId: string; op: PrepItemOp }[] = [];
+  // Events that arrived ahead of a gap, applied once the gap is filled
+  private ahead = new Map<number, PrepListEvent>();
+  private resyncing: Promise<void> | null = null;
+  private stopListening: (() => void) | null = null;
+  private listeners = new Set<PrepListSessionListener>();
+  private error: string | null = null;
+  // Why the last load failed, rethrown by open()
+  private loadFailure: unknown = null;
+
+  constructor(readonly listId: string, private readonly transport: PrepListSessionTransport) {}
+
+  async open(): Promise<this> {
+    if (!this.stopListening) {
+      this.stopListening = this.transport.listen({
+        onEvent: event => this.receive(event),
+        onSubscribed: () => void this.resync()
+      });
+    }
+    await this.resync();
+    if (this.loadFailure) {
+      const failure = this.loadFailure;
+      this.close();
+      throw toDatabaseError(failure, { table: 'prep_lists' });
+    }
+    return this;
+  }
+
+  close(): void {
+    this.stopListening?.();
+    this.stopListening = null;
+    this.listeners.clear();
+  }
+
+  getItems(): PrepItem[] {
+    return this.pendingOps.reduce((items, { op }) => {
+      try {
+        return applyPrepItemOp(items, op);
+      } catch {
+        // Someone else removed the item; the server will reject this op too
+        return items;
+      }
+    }, this.confirmed);
+  }
+
+  getState(): PrepListSessionState {
+    return {
+      listId: this.listId,
+      items: this.getItems(),
+      version: this.version,
+      pending: this.pendingOps.length,
+      error: this.error
+    };
+  }
+
+  // Calls the listener now and on every change; returns an unsubscribe function
+  subscribe(listener: PrepListSessionListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getState());
+    return () => this.listeners.delete(listener);
+  }
+
+  toggle(itemId: string, completed?: boolean): Promise<PrepItemOpEvent> {
+    const current = this.getItems().find(item => item.id === itemId);
+    return this.apply({ type: 'toggle', itemId, completed: completed ?? !current?.completed });
+  }
+
+  assign(itemId: string, assignedTo: string | null): Promise<PrepItemOpEvent> {
+    return this.apply({ type: 'assign', itemId, assignedTo });
+  }
+
+  setQuantity(itemId: string, quantity: string, unit?: string): Promise<PrepItemOpEvent> {
+    return this.apply({ type: 'set_quantity', itemId, quantity, unit });
+  }
+
+  move(itemId: string, toIndex: number): Promise<PrepItemOpEvent> {
+    return this.apply({ type: 'move', itemId, toIndex });
+  }
+
+  add(item: PrepItem, index?: number): Promise<PrepItemOpEvent> {
+    return this.apply({ type: 'add', item, index });
+  }
+
+  remove(itemId: string): Promise<PrepItemOpEvent> {
+    return this.apply({ type: 'remove', itemId });
+  }
+
+  async apply(op: PrepItemOp): Promise<PrepItemOpEvent> {
+    // Refuse locally what the server would refuse (unknown or duplicate item)
+    applyPrepItemOp(this.getItems(), op);
+
+    const opId = crypto.randomUUID();
+    this.pendingOps.push({ opId, op });
+    this.emit();
+
+    try {
+      const event = await this.transport.send(op, opId);
+      this.receive(event);
+      return event;
+    } catch (error: any) {
+      this.pendingOps = this.pendingOps.filter(pending => pending.opId !== opId);
+      this.error = error?.message || String(error);
+      this.emit();
+      throw error;
+    }
+  }
+
+  private receive(event: PrepListEvent): void {
+    if (event.listId !== this.listId) return;
+
+    if (event.version <= this.version) {
+      // Already reflected (our own echo, or included in a reload)
+      this.confirm(event);
+      this.emit();
+      return;
+    }
+
+    if (event.version > this.version + 1) {
+      this.ahead.set(event.version, event);
+      void this.resync();
+      return;
+    }
+
+    this.applyEvent(event);
+    this.drainAhead();
+    this.emit();
+  }
+
+  private applyEvent(event: PrepListEvent): void {
+    if (event.type === 'items_replaced') {
+      this.confirmed = event.items;
+    } else {
+      try {
+        this.confirmed = applyPrepItemOp(this.confirmed, event.op);
+        // Take the server's copy of the item, which is authoritative
+        if (event.item && event.op.type !== 'remove') {
+          const item = event.item;
+          this.confirmed = this.confirmed.map(existing => (existing.id === item.id ? item : existing));
+        }
+      } catch {
+        // Local state has drifted from the server; start again from a reload
+        void this.resync();
+        return;
+      }
+    }
+    this.version = event.version;
+    this.confirm(event);
+  }
+
+  private confirm(event: PrepListEvent): void {
+    if (event.type === 'item_op' && event.opId) {
+      this.pendingOps = this.pendingOps.filter(pending => pending.opId !== event.opId);
+    }
+  }
+
+  private drainAhead(): void {
+    for (const version of [...this.ahead.keys()]) {
+      if (version <= this.version) this.ahead.delete(version);
+    }
+    let next = this.ahead.get(this.version + 1);
+    while (next) {
+      this.ahead.delete(next.version);
+      this.applyEvent(next);
+      next = this.ahead.get(this.version + 1);
+    }
+  }
+
+  // Reloads the list, then applies any events that arrived meanwhile
+  private resync(): Promise<void> {
+    if (!this.resyncing) {
+      this.resyncing = (async () => {
+        try {
+          const snapshot = await this.transport.load();
+          if (!snapshot) {
+            throw new NotFoundError(`Prep list ${this.listId} not found`, { table: 'prep_lists' });
+          }
+          // Events applied while loading may already be newer than the snapshot
+          if (snapshot.version >= this.version) {
+            this.confirmed = snapshot.items;
+            this.version = snapshot.version;
+          }
+          this.error = null;
+          this.loadFailure = null;
+          this.drainAhead();
+        } catch (error: any) {
+          this.error = error?.message || String(error);
+          this.loadFailure = error;
+        } finally {
+          this.resyncing = null;
+          this.emit();
+        }
+      })();
+    }
+    return this.resyncing;
+  }
+
+  private emit(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error('[PrepListSession] Listener failed:', error);
+      }
+    });
+  }
+}
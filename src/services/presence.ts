@@ -0,0 +1,216 @@
+import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+import type { CompanyRole, UserProfile } from './entities';
+import { NetworkError, ValidationError } from './errors';
+
+// Where a member is working
+export interface PresenceLocation {
+  kind: 'prep_list' | 'event';
+  id: string;
+}
+
+// The profile fields shared with the rest of the company
+export type PresenceProfile = Pick<UserProfile, 'id' | 'email' | 'full_name' | 'avatar_url'> & {
+  role?: CompanyRole | null;
+};
+
+// What one browser tab publishes
+export interface PresenceMeta {
+  profile: PresenceProfile;
+  viewing: PresenceLocation | null;
+  // Item being edited on the viewed prep list or event
+  editingItemId: string | null;
+  onlineAt: string;
+  updatedAt: string;
+}
+
+// A user's presence merged across their open tabs
+export interface PresenceMember {
+  profile: PresenceProfile;
+  viewing: PresenceLocation[];
+  editing: { location: PresenceLocation; itemId: string }[];
+  sessions: number;
+  onlineAt: string;
+  updatedAt: string;
+}
+
+export type PresenceChange =
+  | { type: 'sync' }
+  | { type: 'join'; member: PresenceMember }
+  | { type: 'leave'; profile: PresenceProfile }
+  | { type: 'update'; member: PresenceMember };
+
+export type PresenceListener = (members: PresenceMember[], change: PresenceChange) => void;
+
+export function companyPresenceTopic(companyId: string): string {
+  return `company:${companyId}:presence`;
+}
+
+function sameLocation(a: PresenceLocation | null, b: PresenceLocation | null): boolean {
+  return Boolean(a && b && a.kind === b.kind && a.id === b.id);
+}
+
+function mergeMetas(metas: PresenceMeta[]): PresenceMember {
+  const latest = metas.reduce((newest, meta) => (meta.updatedAt > newest.updatedAt ? meta : newest));
+  const viewing: PresenceLocation[] = [];
+  const editing: PresenceMember['editing'] = [];
+
+  for (const meta of metas) {
+    if (meta.viewing && !viewing.some(location => sameLocation(location, meta.viewing))) {
+      viewing.push(meta.viewing);
+    }
+    if (meta.viewing && meta.editingItemId) {
+      editing.push({ location: meta.viewing, itemId: meta.editingItemId });
+    }
+  }
+
+  return {
+    profile: latest.profile,
+    viewing,
+    editing,
+    sessions: metas.length,
+    onlineAt: metas.reduce((earliest, meta) => (meta.onlineAt < earliest ? meta.onlineAt : earliest), latest.onlineAt),
+    updatedAt: latest.updatedAt
+  };
+}
+
+// Who in a company is online, what they are looking at and which item they
+// are editing. One instance per company per client; get it from
+// DatabaseService.joinCompanyPresence.
+export class CompanyPresence {
+  private channel: RealtimeChannel | null = null;
+  private members = new Map<string, PresenceMember>();
+  private listeners = new Set<PresenceListener>();
+  private meta: PresenceMeta;
+
+  constructor(
+    readonly companyId: string,
+    private readonly client: SupabaseClient,
+    profile: PresenceProfile,
+    private readonly onLeave?: () => void
+  ) {
+    const now = new Date().toISOString();
+    this.meta = { profile, viewing: null, editingItemId: null, onlineAt: now, updatedAt: now };
+  }
+
+  // Resolves once the channel is subscribed and this client is tracked;
+  // rejects if the channel errors, times out or closes first
+  join(): Promise<this> {
+    if (this.channel) return Promise.resolve(this);
+
+    const channel = this.client.channel(companyPresenceTopic(this.companyId), {
+      config: { private: true, presence: { key: this.meta.profile.id } }
+    });
+    this.channel = channel;
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        this.readState();
+        this.emit({ type: 'sync' });
+      })
+      .on('presence', { event: 'join' }, ({ key }) => {
+        const known = this.members.has(key);
+        this.readState();
+        const member = this.members.get(key);
+        if (member) this.emit(known ? { type: 'update', member } : { type: 'join', member });
+      })
+      .on('presence', { event: 'leave' }, ({ key, leftPresences }) => {
+        this.readState();
+        if (!this.members.has(key)) {
+          const profile = (leftPresences[0] as unknown as PresenceMeta | undefined)?.profile || { id: key, email: '' };
+          this.emit({ type: 'leave', profile });
+        }
+      });
+
+    return new Promise((resolve, reject) => {
+      channel.subscribe(async (status, error) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track({ ...this.meta });
+          resolve(this);
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          console.warn(`[CompanyPresence] Channel for company ${this.companyId}: ${error?.message || status}`);
+          reject(new NetworkError(`Could not join presence for company ${this.companyId}: ${error?.message || status}`, { original: error }));
+        }
+      });
+    });
+  }
+
+  async leave(): Promise<void> {
+    const channel = this.channel;
+    this.channel = null;
+    this.members.clear();
+    this.listeners.clear();
+    this.onLeave?.();
+    if (channel) {
+      await channel.untrack().catch(() => undefined);
+      await this.client.removeChannel(channel);
+    }
+  }
+
+  // Pass null when the user leaves the page; also clears the edited item
+  setViewing(location: PresenceLocation | null): Promise<void> {
+    const editingItemId = sameLocation(location, this.meta.viewing) ? this.meta.editingItemId : null;
+    return this.update({ viewing: location, editingItemId });
+  }
+
+  // e.g. setEditing(itemId) on focus and setEditing(null) on blur
+  setEditing(itemId: string | null): Promise<void> {
+    if (itemId && !this.meta.viewing) {
+      return Promise.reject(new ValidationError('Call setViewing before setEditing'));
+    }
+    return this.update({ editingItemId: itemId });
+  }
+
+  getMembers(): PresenceMember[] {
+    return [...this.members.values()].sort((a, b) => a.onlineAt.localeCompare(b.onlineAt));
+  }
+
+  // Members (other than this user) on a prep list or event
+  viewersOf(location: PresenceLocation): PresenceMember[] {
+    return this.getMembers().filter(member =>
+      member.profile.id !== this.meta.profile.id && member.viewing.some(viewing => sameLocation(viewing, location))
+    );
+  }
+
+  // Members (other than this user) editing the item, to warn before double-prepping
+  editorsOf(location: PresenceLocation, itemId: string): PresenceMember[] {
+    return this.getMembers().filter(member =>
+      member.profile.id !== this.meta.profile.id &&
+      member.editing.some(editing => editing.itemId === itemId && sameLocation(editing.location, location))
+    );
+  }
+
+  // Calls the listener now and on every change; returns an unsubscribe function
+  subscribe(listener: PresenceListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getMembers(), { type: 'sync' });
+    return () => this.listeners.delete(listener);
+  }
+
+  private async update(changes: Partial<Pick<PresenceMeta, 'viewing' | 'editingItemId'>>): Promise<void> {
+    this.meta = { ...this.meta, ...changes, updatedAt: new Date().toISOString() };
+    if (this.channel) {
+      await this.channel.track({ ...this.meta });
+    }
+  }
+
+  private readState(): void {
+    if (!this.channel) return;
+    const state = this.channel.presenceState<PresenceMeta>();
+    this.members = new Map(
+      Object.entries(state)
+        .filter(([, metas]) => metas.length > 0)
+        .map(([key, metas]) => [key, mergeMetas(metas)])
+    );
+  }
+
+  private emit(change: PresenceChange): void {
+    const members = this.getMembers();
+    this.listeners.forEach(listener => {
+      try {
+        listener(members, change);
+      } catch (error) {
+        console.error('[CompanyPresence] Listener failed:', error);
+      }
+    });
+  }
+}
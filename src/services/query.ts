@@ -0,0 +1,228 @@
+import { ValidationError } from './errors';
+
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'ilike' | 'contains' | 'is';
+
+export interface QueryFilter<TRow> {
+  column: keyof TRow & string;
+  operator: FilterOperator;
+  value: unknown;
+}
+
+export interface QuerySort<TRow> {
+  column: keyof TRow & string;
+  ascending?: boolean;
+}
+
+// Shared options for every load* method
+export interface QueryOptions<TRow> {
+  limit?: number;
+  // Offset paging; mutually exclusive with cursor
+  offset?: number;
+  // Opaque keyset cursor returned as nextCursor by a previous page
+  cursor?: string | null;
+  filters?: QueryFilter<TRow>[];
+  sort?: QuerySort<TRow>;
+}
+
+export interface Page<T> {
+  items: T[];
+  // Rows matching the filters across all pages
+  total: number | null;
+  // Pass back as `cursor` to fetch the next page; null on the last page
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 1000;
+
+interface CursorPayload {
+  column: string;
+  ascending: boolean;
+  // Null when the page ended on rows without a value in the sort column
+  value: string | null;
+  id: string;
+}
+
+// btoa only takes Latin-1, so sort values are sent through UTF-8 first
+function toBase64Url(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): string {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+export function encodeCursor(payload: CursorPayload): string {
+  return toBase64Url(JSON.stringify(payload));
+}
+
+export function decodeCursor(cursor: string): CursorPayload {
+  try {
+    const payload = JSON.parse(fromBase64Url(cursor));
+    if (typeof payload?.column !== 'string' || typeof payload?.id !== 'string' ||
+      (payload.value !== null && typeof payload.value !== 'string')) {
+      throw new Error('missing fields');
+    }
+    return payload;
+  } catch {
+    throw new ValidationError('Invalid pagination cursor');
+  }
+}
+
+// Quotes a value for PostgREST's or=() filter syntax
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+// Cursor for the page that follows `last`, or null when there is none
+export function nextPageCursor(
+  last: { id: string } | undefined,
+  sort: { column: string; ascending: boolean },
+  hasMore: boolean,
+  keysetCapable: boolean
+): string | null {
+  if (!hasMore || !keysetCapable || !last) return null;
+  const value = (last as Record<string, unknown>)[sort.column];
+  return encodeCursor({ column: sort.column, ascending: sort.ascending, value: value == null ? null : String(value), id: last.id });
+}
+
+// Keyset condition: rows strictly after (value, id) in the given direction.
+// Nulls sort last ascending and first descending, as Postgres orders them
+export function keysetCondition(cursor: CursorPayload): string {
+  const op = cursor.ascending ? 'gt' : 'lt';
+  const id = quote(cursor.id);
+  if (cursor.value === null) {
+    const sameValue = `and(${cursor.column}.is.null,id.${op}.${id})`;
+    return cursor.ascending ? sameValue : `${cursor.column}.not.is.null,${sameValue}`;
+  }
+  const value = quote(cursor.value);
+  const after = `${cursor.column}.${op}.${value},and(${cursor.column}.eq.${value},id.${op}.${id})`;
+  return cursor.ascending ? `${after},${cursor.column}.is.null` : after;
+}
+
+export function applyFilters<TQuery>(query: TQuery, filters: QueryFilter<any>[] = []): TQuery {
+  let result: any = query;
+  for (const { column, operator, value } of filters) {
+    switch (operator) {
+      case 'in':
+        if (!Array.isArray(value)) throw new ValidationError(`Filter '${column}' with 'in' requires an array`);
+        result = result.in(column, value);
+        break;
+      case 'contains':
+        result = result.contains(column, value);
+        break;
+      case 'is':
+        result = result.is(column, value);
+        break;
+      default:
+        result = result[operator](column, value);
+    }
+  }
+  return result;
+}
+
+export function normalizeLimit(limit?: number): number {
+  if (limit === undefined) return DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new ValidationError('Query limit must be a positive integer');
+  }
+  return Math.min(limit, MAX_PAGE_SIZE);
+}
+
+// Orders values the way the filters and sorts need: numbers numerically,
+// everything else as strings; nulls sort last
+export function compareValues(a: unknown, b: unknown): number {
+  if (a == null || b == null) return a == null ? (b == null ? 0 : 1) : -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  const left = String(a);
+  const right = String(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function likePattern(pattern: string): RegExp {
+  const source = pattern
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/%/g, '.*')
+    .replace(/_/g, '.');
+  return new RegExp(`^${source}$`, 'is');
+}
+
+function containsValue(haystack: unknown, needle: unknown): boolean {
+  if (Array.isArray(needle)) {
+    return Array.isArray(haystack) && needle.every(item => haystack.some(entry => containsValue(entry, item)));
+  }
+  if (needle && typeof needle === 'object') {
+    return Boolean(haystack) && typeof haystack === 'object' &&
+      Object.entries(needle).every(([key, value]) => containsValue((haystack as any)[key], value));
+  }
+  return haystack === needle;
+}
+
+// In-memory equivalent of applyFilters, for rows served from the local cache
+export function matchesFilters(row: Record<string, unknown>, filters: QueryFilter<any>[] = []): boolean {
+  return filters.every(({ column, operator, value }) => {
+    const actual = row[column];
+    switch (operator) {
+      case 'eq': return actual != null && compareValues(actual, value) === 0;
+      case 'neq': return actual != null && compareValues(actual, value) !== 0;
+      case 'gt': return actual != null && compareValues(actual, value) > 0;
+      case 'gte': return actual != null && compareValues(actual, value) >= 0;
+      case 'lt': return actual != null && compareValues(actual, value) < 0;
+      case 'lte': return actual != null && compareValues(actual, value) <= 0;
+      case 'in':
+        if (!Array.isArray(value)) throw new ValidationError(`Filter '${column}' with 'in' requires an array`);
+        return value.some(candidate => compareValues(actual, candidate) === 0);
+      case 'ilike': return actual != null && likePattern(String(value)).test(String(actual));
+      case 'contains': return containsValue(actual, value);
+      case 'is': return value === null ? actual == null : actual === value;
+    }
+  });
+}
+
+// Sorts by the column, then id, like the server-side order
+export function sortRows<TRow extends { id: string }>(rows: TRow[], sort: { column: string; ascending: boolean }): TRow[] {
+  const direction = sort.ascending ? 1 : -1;
+  const value = (row: TRow) => (row as Record<string, unknown>)[sort.column];
+  return [...rows].sort((a, b) => direction * (compareValues(value(a), value(b)) || compareValues(a.id, b.id)));
+}
+
+// Pages cached rows with the same filter, sort and cursor rules as a server query
+export function queryRows<TRow extends { id: string }>(
+  rows: TRow[],
+  options: QueryOptions<TRow>,
+  sort: { column: string; ascending: boolean },
+  keysetCapable: boolean
+): { rows: TRow[]; total: number; nextCursor: string | null; hasMore: boolean } {
+  const limit = normalizeLimit(options.limit);
+  const direction = sort.ascending ? 1 : -1;
+  const value = (row: TRow) => (row as Record<string, unknown>)[sort.column];
+
+  let matching = sortRows(rows.filter(row => matchesFilters(row, options.filters)), sort);
+  const total = matching.length;
+
+  if (options.cursor) {
+    const cursor = decodeCursor(options.cursor);
+    if (!keysetCapable || cursor.column !== sort.column || cursor.ascending !== sort.ascending) {
+      throw new ValidationError('Pagination cursor does not match the requested sort');
+    }
+    matching = matching.filter(row =>
+      direction * (compareValues(value(row), cursor.value) || compareValues(row.id, cursor.id)) > 0
+    );
+  }
+
+  const offset = options.offset || 0;
+  const page = matching.slice(offset, offset + limit);
+  const hasMore = matching.length > offset + limit;
+
+  return {
+    rows: page,
+    total,
+    nextCursor: nextPageCursor(page[page.length - 1], sort, hasMore, keysetCapable),
+    hasMore
+  };
+}
@@ -0,0 +1,336 @@
+import type {
+  REALTIME_POSTGRES_CHANGES_LISTEN_EVENT,
+  RealtimeChannel,
+  RealtimePostgresChangesFilter,
+  RealtimePostgresChangesPayload,
+  SupabaseClient
+} from '@supabase/supabase-js';
+import type { Tables } from '../types/database';
+import type { Container, Event, EventRecipe, Method, PrepList, Recipe } from './entities';
+
+// Domain model delivered for each table, as returned by the load methods
+export interface RealtimeModels {
+  prep_lists: PrepList;
+  events: Event;
+  event_recipes: EventRecipe;
+  recipes: Recipe;
+  methods: Method;
+  containers: Container;
+}
+
+export type RealtimeTable = keyof RealtimeModels;
+
+export type RealtimeEventType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export type RealtimeFilterOperator = 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte' | 'in';
+
+// One server-side filter, e.g. { column: 'company_id', value: companyId }.
+// Supabase does not filter DELETE events; those reach every subscriber.
+export interface RealtimeFilter<T extends RealtimeTable> {
+  column: keyof Tables<T> & string;
+  operator?: RealtimeFilterOperator;
+  value: string | number | boolean | (string | number)[];
+}
+
+export interface RealtimeSubscribeOptions<T extends RealtimeTable> {
+  // Defaults to every event
+  event?: RealtimeEventType | '*';
+  filter?: RealtimeFilter<T>;
+}
+
+export interface RealtimeChange<T extends RealtimeTable> {
+  table: T;
+  event: RealtimeEventType;
+  id: string;
+  // The row after the change; null for deletes
+  new: RealtimeModels[T] | null;
+  // The row before the change, when the table sends full old rows
+  // (REPLICA IDENTITY FULL); otherwise null and only `id` is known
+  old: RealtimeModels[T] | null;
+  commitTimestamp: string;
+}
+
+export type RealtimeHandler<T extends RealtimeTable> = (change: RealtimeChange<T>) => void;
+
+// Converts a raw row to its domain model, or null when the row is incomplete
+export type RealtimeMappers = { [T in RealtimeTable]: (row: unknown) => RealtimeModels[T] | null };
+
+export type RealtimeChannelStatus = 'connecting' | 'connected' | 'retrying' | 'closed';
+
+export interface RealtimeChannelHealth {
+  key: string;
+  table: RealtimeTable;
+  status: RealtimeChannelStatus;
+  subscribers: number;
+  retries: number;
+  lastError: string | null;
+  lastEventAt: string | null;
+}
+
+export interface RealtimeHealth {
+  // idle: nothing subscribed; degraded: some channels are down
+  status: 'idle' | 'connecting' | 'connected' | 'degraded' | 'disconnected';
+  channels: RealtimeChannelHealth[];
+  lastEventAt: string | null;
+}
+
+export type RealtimeHealthListener = (health: RealtimeHealth) => void;
+
+const MIN_RETRY_MS = 1_000;
+const MAX_RETRY_MS = 30_000;
+
+interface ChannelEntry {
+  key: string;
+  table: RealtimeTable;
+  event: RealtimeEventType | '*';
+  filter?: string;
+  handlers: Set<RealtimeHandler<any>>;
+  channel: RealtimeChannel | null;
+  status: RealtimeChannelStatus;
+  retries: number;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  lastError: string | null;
+  lastEventAt: string | null;
+}
+
+export function formatRealtimeFilter<T extends RealtimeTable>(filter: RealtimeFilter<T>): string {
+  const operator = filter.operator || (Array.isArray(filter.value) ? 'in' : 'eq');
+  const value = Array.isArray(filter.value) ? `(${filter.value.join(',')})` : String(filter.value);
+  return `${filter.column}=${operator}.${value}`;
+}
+
+// channel.on() has one overload per event literal, so an event chosen at
+// runtime goes through the '*' one, whose payload covers every event
+function onPostgresChanges(
+  channel: RealtimeChannel,
+  filter: RealtimePostgresChangesFilter<`${REALTIME_POSTGRES_CHANGES_LISTEN_EVENT}`>,
+  callback: (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => void
+): RealtimeChannel {
+  return channel.on('postgres_changes', filter as RealtimePostgresChangesFilter<`${REALTIME_POSTGRES_CHANGES_LISTEN_EVENT.ALL}`>, callback);
+}
+
+// postgres_changes subscriptions shared by every caller with the same table,
+// event and filter. Channels close when their last subscriber leaves and are
+// reopened with backoff when they fail or the signed-in user changes.
+export class RealtimeManager {
+  private entries = new Map<string, ChannelEntry>();
+  private listeners = new Set<RealtimeHealthListener>();
+  private generation = 0;
+
+  constructor(private readonly client: SupabaseClient, private readonly mappers: RealtimeMappers) {}
+
+  // e.g. subscribe('events', { event: 'UPDATE', filter: { column: 'status', value: 'active' } }, change => …)
+  // Returns an unsubscribe function
+  subscribe<T extends RealtimeTable>(
+    table: T,
+    options: RealtimeSubscribeOptions<T>,
+    handler: RealtimeHandler<T>
+  ): () => void {
+    const event = options.event || '*';
+    const filter = options.filter ? formatRealtimeFilter(options.filter) : undefined;
+    const key = [table, event, filter].filter(Boolean).join(':');
+
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = {
+        key,
+        table,
+        event,
+        filter,
+        handlers: new Set(),
+        channel: null,
+        status: 'connecting',
+        retries: 0,
+        retryTimer: null,
+        lastError: null,
+        lastEventAt: null
+      };
+      this.entries.set(key, entry);
+      this.connect(entry);
+    }
+    entry.handlers.add(handler);
+    this.emit();
+
+    const subscribed = entry;
+    let active = true;
+    return () => {
+      if (!active) return;
+      active = false;
+      subscribed.handlers.delete(handler);
+      if (subscribed.handlers.size === 0) this.close(subscribed);
+      this.emit();
+    };
+  }
+
+  // Reopens every channel, e.g. after sign-in so RLS sees the new user
+  resubscribeAll(): void {
+    for (const entry of this.entries.values()) {
+      entry.retries = 0;
+      this.reconnect(entry);
+    }
+    this.emit();
+  }
+
+  // Closes every channel and drops all subscribers
+  closeAll(): void {
+    for (const entry of [...this.entries.values()]) this.close(entry);
+    this.emit();
+  }
+
+  getHealth(): RealtimeHealth {
+    const channels: RealtimeChannelHealth[] = [...this.entries.values()].map(entry => ({
+      key: entry.key,
+      table: entry.table,
+      status: entry.status,
+      subscribers: entry.handlers.size,
+      retries: entry.retries,
+      lastError: entry.lastError,
+      lastEventAt: entry.lastEventAt
+    }));
+    const connected = channels.filter(channel => channel.status === 'connected').length;
+    const lastEventAt = channels.reduce<string | null>(
+      (latest, channel) => (channel.lastEventAt && (!latest || channel.lastEventAt > latest) ? channel.lastEventAt : latest),
+      null
+    );
+
+    let status: RealtimeHealth['status'];
+    if (channels.length === 0) status = 'idle';
+    else if (connected === channels.length) status = 'connected';
+    else if (channels.every(channel => channel.status === 'connecting')) status = 'connecting';
+    else status = connected > 0 ? 'degraded' : 'disconnected';
+
+    return { status, channels, lastEventAt };
+  }
+
+  // Calls the listener now and on every change; returns an unsubscribe function
+  onHealthChange(listener: RealtimeHealthListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getHealth());
+    return () => this.listeners.delete(listener);
+  }
+
+  private connect(entry: ChannelEntry): void {
+    entry.status = entry.retries > 0 ? 'retrying' : 'connecting';
+
+    // A fresh topic per attempt, so a channel still closing cannot be reused
+    const channel = this.client.channel(`db-changes:${entry.key}:${++this.generation}`);
+    entry.channel = channel;
+
+    // Trashing a row is an UPDATE that RLS hides from subscribers, so deletes
+    // come from the audit entry it writes instead
+    if (entry.event === '*' || entry.event === 'DELETE') {
+      onPostgresChanges(
+        channel,
+        { event: 'INSERT', schema: 'public', table: 'audit_log', filter: `table_name=eq.${entry.table}` },
+        payload => this.deliverTrashed(entry, payload)
+      );
+    }
+
+    onPostgresChanges(
+      channel,
+      { event: entry.event, schema: 'public', table: entry.table, ...(entry.filter ? { filter: entry.filter } : {}) },
+      payload => this.deliver(entry, payload)
+    )
+      .subscribe((status, error) => {
+        // Ignore callbacks from channels this entry has already replaced
+        if (entry.channel !== channel) return;
+
+        if (status === 'SUBSCRIBED') {
+          entry.status = 'connected';
+          entry.retries = 0;
+          entry.lastError = null;
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          entry.lastError = error?.message || status;
+          console.warn(`[RealtimeManager] Channel ${entry.key}: ${entry.lastError}`);
+          this.scheduleRetry(entry);
+        }
+        this.emit();
+      });
+  }
+
+  private deliver(entry: ChannelEntry, payload: RealtimePostgresChangesPayload<Record<string, unknown>>): void {
+    const mapper = this.mappers[entry.table] as (row: unknown) => RealtimeModels[RealtimeTable] | null;
+    const newRow = payload.eventType === 'DELETE' ? null : payload.new;
+    const oldRow = payload.eventType === 'INSERT' ? null : payload.old;
+
+    const change: RealtimeChange<RealtimeTable> = {
+      table: entry.table,
+      event: payload.eventType,
+      id: String(newRow?.id ?? oldRow?.id ?? ''),
+      new: newRow ? mapper(newRow) : null,
+      old: oldRow && Object.keys(oldRow).length > 1 ? mapper(oldRow) : null,
+      commitTimestamp: payload.commit_timestamp
+    };
+    this.notify(entry, change);
+  }
+
+  private deliverTrashed(entry: ChannelEntry, payload: RealtimePostgresChangesPayload<Record<string, unknown>>): void {
+    if (payload.eventType !== 'INSERT' || payload.new.operation !== 'DELETE') return;
+    this.notify(entry, {
+      table: entry.table,
+      event: 'DELETE',
+      id: String(payload.new.record_id),
+      new: null,
+      old: null,
+      commitTimestamp: payload.commit_timestamp
+    });
+  }
+
+  private notify(entry: ChannelEntry, change: RealtimeChange<RealtimeTable>): void {
+    entry.lastEventAt = new Date().toISOString();
+    entry.handlers.forEach(handler => {
+      try {
+        handler(change);
+      } catch (error) {
+        console.error(`[RealtimeManager] Handler for ${entry.key} failed:`, error);
+      }
+    });
+  }
+
+  private scheduleRetry(entry: ChannelEntry): void {
+    if (entry.retryTimer || !this.entries.has(entry.key)) return;
+    const delay = Math.min(MIN_RETRY_MS * 2 ** entry.retries, MAX_RETRY_MS);
+    entry.retries++;
+    entry.status = 'retrying';
+    entry.retryTimer = setTimeout(() => {
+      entry.retryTimer = null;
+      this.reconnect(entry);
+      this.emit();
+    }, delay);
+  }
+
+  private reconnect(entry: ChannelEntry): void {
+    this.release(entry);
+    this.connect(entry);
+  }
+
+  private close(entry: ChannelEntry): void {
+    this.entries.delete(entry.key);
+    entry.handlers.clear();
+    entry.status = 'closed';
+    this.release(entry);
+  }
+
+  private release(entry: ChannelEntry): void {
+    if (entry.retryTimer) {
+      clearTimeout(entry.retryTimer);
+      entry.retryTimer = null;
+    }
+    const channel = entry.channel;
+    entry.channel = null;
+    if (channel) {
+      void this.client.removeChannel(channel);
+    }
+  }
+
+  private emit(): void {
+    const health = this.getHealth();
+    this.listeners.forEach(listener => {
+      try {
+        listener(health);
+      } catch (error) {
+        console.error('[RealtimeManager] Health listener failed:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,456 @@
+import type { FieldError } from './errors';
+import type { Method, Recipe } from './entities';
+import { formatIngredient, parseIngredient } from './ingredients';
+import { EntitySchema, methodSchema, recipeSchema, validateSchema } from './schemas';
+
+// Recipes and methods in formats from outside the app: CSV from spreadsheets
+// and schema.org Recipe JSON-LD as published by recipe sites. Pure functions
+// only; DatabaseService previews and saves the results.
+
+export type RecipeFormat = 'csv' | 'json-ld';
+
+// One source row (a CSV line or a JSON-LD Recipe) and what it became
+export interface ImportRow<T> {
+  // 1-based: the spreadsheet row number for CSV (the header is row 1), or the
+  // position of the Recipe among those found for JSON-LD; 0 for problems
+  // with the source as a whole
+  row: number;
+  // Null only when nothing usable could be read
+  entity: T | null;
+  errors: FieldError[];
+}
+
+export interface ImportPreview<T> {
+  rows: ImportRow<T>[];
+  // The entities from rows without errors, ready to save
+  valid: T[];
+  invalidCount: number;
+}
+
+export interface ImportOptions {
+  // Save the valid rows and leave out the rest, instead of saving nothing
+  skipInvalid?: boolean;
+}
+
+export interface ImportResult<T> {
+  preview: ImportPreview<T>;
+  // As saved, in the order of preview.valid
+  saved: T[];
+}
+
+// RFC 4180: quoted fields may hold commas, quotes ("") and line breaks
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^﻿/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Spreadsheets run cells starting with these as formulas, and imported web
+// recipes can carry them (e.g. "=HYPERLINK(…)"); a leading ' keeps them text
+const FORMULA_START = /^[=+\-@\t\r]/;
+const NUMBER = /^[-+]?\d+(\.\d+)?$/;
+
+function csvField(cell: string): string {
+  const value = FORMULA_START.test(cell) && !NUMBER.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Undoes csvField's formula guard, so exports import unchanged
+function unguardFormula(cell: string): string {
+  return cell.startsWith("'") && FORMULA_START.test(cell.slice(1)) && !NUMBER.test(cell.slice(1)) ? cell.slice(1) : cell;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Column definitions shared by the importer and exporter of one entity
+interface CsvColumn<T> {
+  header: string;
+  // Extra header spellings accepted on import (compared lowercased, without
+  // spaces, dashes or underscores)
+  aliases?: string[];
+  read: (cell: string, entity: Partial<T>, errors: FieldError[]) => void;
+  write: (entity: T) => string;
+}
+
+// List cells hold one entry per line; " | " also separates entries, for
+// spreadsheets where line breaks in a cell are awkward to type
+function splitList(cell: string): string[] {
+  return cell.split(/\r?\n|\s\|\s/).map(entry => entry.trim()).filter(Boolean);
+}
+
+function joinList(values: string[] | undefined): string {
+  return (values || []).join('\n');
+}
+
+function headerKey(header: string): string {
+  return header.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function text<T>(header: keyof T & string, aliases?: string[]): CsvColumn<T> {
+  return {
+    header,
+    aliases,
+    read: (cell, entity) => {
+      if (cell.trim()) (entity as Record<string, unknown>)[header] = cell.trim();
+    },
+    write: entity => String(entity[header] ?? '')
+  };
+}
+
+function list<T>(header: keyof T & string, aliases?: string[]): CsvColumn<T> {
+  return {
+    header,
+    aliases,
+    read: (cell, entity) => {
+      (entity as Record<string, unknown>)[header] = splitList(cell);
+    },
+    write: entity => joinList(entity[header] as string[] | undefined)
+  };
+}
+
+// Minutes; also accepts "1h 30m", "90 min" and ISO 8601 ("PT1H30M")
+function minutes<T>(header: keyof T & string, aliases?: string[]): CsvColumn<T> {
+  return {
+    header,
+    aliases,
+    read: (cell, entity, errors) => {
+      if (!cell.trim()) return;
+      const value = parseDuration(cell);
+      if (value === null) errors.push({ path: header, message: 'Must be minutes or a duration such as 1h 30m' });
+      else (entity as Record<string, unknown>)[header] = value;
+    },
+    write: entity => (entity[header] === undefined || entity[header] === null ? '' : String(entity[header]))
+  };
+}
+
+// Matches the allowed values case-insensitively ("easy" → "Easy")
+function choice<T>(header: keyof T & string, values: readonly string[], aliases?: string[]): CsvColumn<T> {
+  return {
+    header,
+    aliases,
+    read: (cell, entity) => {
+      if (!cell.trim()) return;
+      const match = values.find(value => value.toLowerCase() === cell.trim().toLowerCase());
+      // Unknown values are kept so the schema reports them
+      (entity as Record<string, unknown>)[header] = match || cell.trim();
+    },
+    write: entity => String(entity[header] ?? '')
+  };
+}
+
+const idColumn = <T extends { id: string }>(): CsvColumn<T> => ({
+  header: 'id',
+  // Rows keep their id, so re-importing an export updates instead of duplicating
+  read: (cell, entity) => {
+    if (UUID.test(cell.trim())) entity.id = cell.trim();
+  },
+  write: entity => entity.id
+});
+
+const RECIPE_COLUMNS: CsvColumn<Recipe>[] = [
+  idColumn<Recipe>(),
+  text('name', ['title', 'recipe', 'recipename']),
+  text('description'),
+  {
+    header: 'ingredients',
+    read: (cell, entity) => {
+      entity.ingredients = splitList(cell).map(parseIngredient);
+    },
+    write: recipe => joinList(recipe.ingredients.map(formatIngredient))
+  },
+  list('instructions', ['steps', 'directions', 'method']),
+  text('yield', ['servings', 'yields', 'recipeyield']),
+  minutes('prepTime', ['prep', 'preptimeminutes']),
+  minutes('cookTime', ['cook', 'cooktimeminutes']),
+  minutes('totalTime', ['total', 'totaltimeminutes']),
+  choice('difficulty', ['Easy', 'Medium', 'Hard']),
+  list('tags', ['keywords', 'categories']),
+  text('notes'),
+  text('image', ['imageurl', 'photo'])
+];
+
+const METHOD_COLUMNS: CsvColumn<Method>[] = [
+  idColumn<Method>(),
+  text('name', ['title', 'method', 'technique']),
+  text('description'),
+  text('category'),
+  text('videoUrl', ['video']),
+  list('instructions', ['steps', 'directions']),
+  minutes('estimatedTime', ['time', 'duration', 'minutes']),
+  choice('difficultyLevel', ['Beginner', 'Intermediate', 'Advanced'], ['difficulty', 'level']),
+  list('tags', ['keywords']),
+  list('equipment', ['tools']),
+  list('tips')
+];
+
+function previewCsv<T extends { id: string }>(
+  source: string,
+  columns: CsvColumn<T>[],
+  schema: EntitySchema<T>,
+  blank: () => T
+): ImportPreview<T> {
+  const [headers = [], ...lines] = parseCsv(source);
+  const byKey = new Map<string, CsvColumn<T>>();
+  for (const column of columns) {
+    for (const key of [column.header, ...(column.aliases || [])]) byKey.set(headerKey(key), column);
+  }
+  const mapped = headers.map(header => byKey.get(headerKey(header)) || null);
+  const headerErrors: FieldError[] = mapped.some(column => column?.header === 'name')
+    ? []
+    : [{ path: 'name', message: 'The CSV has no name column' }];
+
+  const rows = lines
+    .map((cells, index) => ({ cells, row: index + 2 }))
+    .filter(({ cells }) => cells.some(cell => cell.trim()))
+    .map(({ cells, row }): ImportRow<T> => {
+      const entity = blank();
+      const errors = [...headerErrors];
+      mapped.forEach((column, index) => column?.read(unguardFormula(cells[index] ?? ''), entity, errors));
+      errors.push(...validateSchema(schema, entity));
+      return { row, entity, errors };
+    });
+
+  return toPreview(rows);
+}
+
+function toPreview<T>(rows: ImportRow<T>[]): ImportPreview<T> {
+  const valid = rows.filter(row => row.entity && row.errors.length === 0).map(row => row.entity as T);
+  return { rows, valid, invalidCount: rows.length - valid.length };
+}
+
+const newRecipe = (): Recipe => ({ id: crypto.randomUUID(), name: '', ingredients: [], instructions: [] });
+const newMethod = (): Method => ({ id: crypto.randomUUID(), name: '', instructions: [] });
+
+export function previewRecipeCsv(text: string): ImportPreview<Recipe> {
+  return previewCsv(text, RECIPE_COLUMNS, recipeSchema, newRecipe);
+}
+
+export function previewMethodCsv(text: string): ImportPreview<Method> {
+  return previewCsv(text, METHOD_COLUMNS, methodSchema, newMethod);
+}
+
+export function recipesToCsv(recipes: Recipe[]): string {
+  return toCsv([RECIPE_COLUMNS.map(column => column.header), ...recipes.map(recipe => RECIPE_COLUMNS.map(column => column.write(recipe)))]);
+}
+
+export function methodsToCsv(methods: Method[]): string {
+  return toCsv([METHOD_COLUMNS.map(column => column.header), ...methods.map(method => METHOD_COLUMNS.map(column => column.write(method)))]);
+}
+
+const ISO_DURATION = /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i;
+const TEXT_DURATION = /(\d+(?:\.\d+)?)\s*(d|days?|h|hrs?|hours?|m|mins?|minutes?)\b/gi;
+
+// Whole minutes from "90", "1h 30m", "1 hour 30 minutes" or "PT1H30M"
+export function parseDuration(value: string): number | null {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.round(Number(trimmed));
+
+  const iso = ISO_DURATION.exec(trimmed);
+  if (iso && trimmed.length > 1) {
+    const [, days = 0, hours = 0, mins = 0, seconds = 0] = iso.map(part => Number(part) || 0);
+    return Math.round(days * 1440 + hours * 60 + mins + seconds / 60);
+  }
+
+  let total = 0;
+  let matched = false;
+  for (const [, amount, unit] of trimmed.matchAll(TEXT_DURATION)) {
+    matched = true;
+    const scale = unit[0].toLowerCase() === 'd' ? 1440 : unit[0].toLowerCase() === 'h' ? 60 : 1;
+    total += Number(amount) * scale;
+  }
+  return matched ? Math.round(total) : null;
+}
+
+// ISO 8601 as used by schema.org, e.g. 90 → "PT1H30M"
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `PT${hours ? `${hours}H` : ''}${rest || !hours ? `${rest}M` : ''}`;
+}
+
+type JsonLd = Record<string, unknown>;
+
+const LD_SCRIPT = /<script[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+function isType(node: JsonLd, type: string): boolean {
+  const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+  return types.some(value => typeof value === 'string' && value.replace(/^.*[/:]/, '') === type);
+}
+
+// Every Recipe node, wherever the page nests it (arrays, @graph, mainEntity)
+function findRecipes(node: unknown, found: JsonLd[] = []): JsonLd[] {
+  if (Array.isArray(node)) {
+    node.forEach(child => findRecipes(child, found));
+  } else if (node && typeof node === 'object') {
+    const object = node as JsonLd;
+    if (isType(object, 'Recipe')) found.push(object);
+    else for (const key of ['@graph', 'mainEntity', 'itemListElement', 'item']) findRecipes(object[key], found);
+  }
+  return found;
+}
+
+function asText(value: unknown): string | undefined {
+  if (typeof value === 'string') return decodeEntities(value).trim() || undefined;
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return asText(value[0]);
+  if (value && typeof value === 'object') {
+    const object = value as JsonLd;
+    return asText(object.text ?? object.name ?? object.url);
+  }
+  return undefined;
+}
+
+function asTextList(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') return value.split(',').map(entry => decodeEntities(entry).trim()).filter(Boolean);
+  return (Array.isArray(value) ? value : [value]).map(asText).filter((entry): entry is string => Boolean(entry));
+}
+
+// Strings, HowToStep objects and HowToSection groups of steps
+function instructionSteps(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return decodeEntities(value).replace(/<[^>]+>/g, '\n').split(/\n+/).map(step => step.trim()).filter(Boolean);
+  }
+  if (Array.isArray(value)) return value.flatMap(instructionSteps);
+  if (value && typeof value === 'object') {
+    const object = value as JsonLd;
+    if (object.itemListElement) return instructionSteps(object.itemListElement);
+    const step = asText(object.text ?? object.name);
+    return step ? [step] : [];
+  }
+  return [];
+}
+
+// Out-of-range references (e.g. &#99999999;) are left as written
+function fromCodePoint(match: string, code: number): string {
+  return code <= 0x10ffff ? String.fromCodePoint(code) : match;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#(\d+);/g, (match, code: string) => fromCodePoint(match, Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (match, code: string) => fromCodePoint(match, parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+function recipeFromJsonLd(node: JsonLd, errors: FieldError[]): Recipe {
+  const recipe = newRecipe();
+  const identifier = asText(node.identifier);
+  if (identifier && UUID.test(identifier)) recipe.id = identifier;
+  recipe.name = asText(node.name) || '';
+  recipe.description = asText(node.description);
+  recipe.ingredients = asTextList(node.recipeIngredient ?? node.ingredients).map(parseIngredient);
+  recipe.instructions = instructionSteps(node.recipeInstructions);
+  recipe.yield = asText(node.recipeYield);
+  recipe.image = asText(node.image);
+
+  for (const [source, field] of [['prepTime', 'prepTime'], ['cookTime', 'cookTime'], ['totalTime', 'totalTime']] as const) {
+    const value = asText(node[source]);
+    if (!value) continue;
+    const parsed = parseDuration(value);
+    if (parsed === null) errors.push({ path: field, message: `Could not read duration "${value}"` });
+    else recipe[field] = parsed;
+  }
+
+  const tags = [...asTextList(node.keywords), ...asTextList(node.recipeCategory), ...asTextList(node.recipeCuisine)];
+  const unique = [...new Map(tags.map(tag => [tag.toLowerCase(), tag])).values()];
+  if (unique.length > 0) recipe.tags = unique;
+  return recipe;
+}
+
+// Accepts a JSON-LD document or a whole HTML page with ld+json scripts
+export function previewRecipeJsonLd(source: string): ImportPreview<Recipe> {
+  const trimmed = source.trim();
+  const documents = trimmed.startsWith('{') || trimmed.startsWith('[')
+    ? [trimmed]
+    : [...trimmed.matchAll(LD_SCRIPT)].map(match => match[1]);
+
+  const rows: ImportRow<Recipe>[] = [];
+  const nodes: JsonLd[] = [];
+  documents.forEach((document, index) => {
+    try {
+      findRecipes(JSON.parse(document), nodes);
+    } catch (error) {
+      rows.push({ row: 0, entity: null, errors: [{ path: `document[${index}]`, message: `Not valid JSON: ${(error as Error).message}` }] });
+    }
+  });
+  if (nodes.length === 0 && rows.length === 0) {
+    rows.push({ row: 0, entity: null, errors: [{ path: '', message: 'No schema.org Recipe found' }] });
+  }
+
+  nodes.forEach((node, index) => {
+    const errors: FieldError[] = [];
+    const entity = recipeFromJsonLd(node, errors);
+    errors.push(...validateSchema(recipeSchema, entity));
+    rows.push({ row: index + 1, entity, errors });
+  });
+  return toPreview(rows);
+}
+
+export function recipeToJsonLd(recipe: Recipe): JsonLd {
+  const node: JsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    identifier: recipe.id,
+    name: recipe.name,
+    recipeIngredient: recipe.ingredients.map(formatIngredient),
+    recipeInstructions: recipe.instructions.map(step => ({ '@type': 'HowToStep', text: step }))
+  };
+  if (recipe.description) node.description = recipe.description;
+  if (recipe.yield) node.recipeYield = recipe.yield;
+  if (recipe.prepTime !== undefined && recipe.prepTime !== null) node.prepTime = formatDuration(recipe.prepTime);
+  if (recipe.cookTime !== undefined && recipe.cookTime !== null) node.cookTime = formatDuration(recipe.cookTime);
+  if (recipe.totalTime !== undefined && recipe.totalTime !== null) node.totalTime = formatDuration(recipe.totalTime);
+  // A list, so tags containing commas survive the round trip
+  if (recipe.tags?.length) node.keywords = [...recipe.tags];
+  if (recipe.image) node.image = recipe.image;
+  return node;
+}
+
+// A JSON array of Recipe nodes, which previewRecipeJsonLd reads back
+export function recipesToJsonLd(recipes: Recipe[]): string {
+  return JSON.stringify(recipes.map(recipeToJsonLd), null, 2);
+}
@@ -0,0 +1,256 @@
+import { DatabaseError, NetworkError, TRANSIENT_CODES } from './errors';
+import { OfflineError, isNetworkError } from './sync';
+
+export interface RetryPolicy {
+  // Per attempt; the attempt is abandoned (not aborted) when it runs over
+  timeoutMs: number;
+  // Extra attempts after the first, for transient failures only
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerPolicy {
+  // Consecutive transient failures that open the circuit
+  failureThreshold: number;
+  // How long an open circuit fails fast before letting one trial call through
+  cooldownMs: number;
+}
+
+export interface ResilienceConfig {
+  defaults: RetryPolicy;
+  // Keyed by full operation name ('recipes.load') or its last part ('load')
+  operations: Record<string, Partial<RetryPolicy>>;
+  breaker: CircuitBreakerPolicy;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+// Tracked from real traffic instead of probing before each call
+export interface ConnectionHealth {
+  status: 'healthy' | 'degraded' | 'down';
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  // Mean of the most recent successful calls
+  averageLatencyMs: number | null;
+  // When an open circuit lets the next trial call through
+  retryAt: string | null;
+}
+
+export const DEFAULT_RESILIENCE: ResilienceConfig = {
+  defaults: { timeoutMs: 15_000, retries: 2, baseDelayMs: 250, maxDelayMs: 4_000 },
+  operations: {
+    // Not safe to repeat if the first attempt reached the server
+    createCompany: { retries: 0 },
+    acceptCompanyInvite: { retries: 0 },
+    inviteToCompany: { retries: 0 },
+    applyPrepItemOp: { retries: 0 },
+    saveBundle: { retries: 0, timeoutMs: 60_000 },
+    exportCompanyData: { timeoutMs: 120_000 },
+    importCompanyData: { retries: 0, timeoutMs: 300_000 },
+    seedDemoData: { retries: 0, timeoutMs: 600_000 },
+    cleanupSeedData: { timeoutMs: 120_000 },
+    generatePrepListForEvent: { timeoutMs: 30_000 },
+    upgradeRecipeIngredients: { timeoutMs: 60_000 }
+  },
+  breaker: { failureThreshold: 5, cooldownMs: 30_000 }
+};
+
+const LATENCY_SAMPLES = 20;
+
+// Failures an inner call already retried, so wrapping operations (which call
+// other operations) do not multiply the attempts
+const exhausted = new WeakSet<object>();
+
+export class TimeoutError extends NetworkError {
+  constructor(operation: string, readonly timeoutMs: number) {
+    super(`${operation} timed out after ${timeoutMs}ms`, { operation });
+  }
+}
+
+// Thrown without calling the server while the circuit is open; an OfflineError,
+// so cached tables fall back to the offline cache and write queue
+export class CircuitOpenError extends OfflineError {
+  constructor(readonly retryAt: string) {
+    super(`Database temporarily unavailable after repeated failures; retrying after ${retryAt}`);
+  }
+}
+
+// Network errors, timeouts and 5xx; never 4xx (bad input, RLS, conflicts)
+export function isTransientError(error: any): boolean {
+  if (!error) return false;
+  if (error instanceof CircuitOpenError) return false;
+  if (error instanceof DatabaseError) return error.retryable;
+  if (isNetworkError(error)) return true;
+
+  const code = typeof error.code === 'string' ? error.code : '';
+  if (TRANSIENT_CODES.has(code) || code.startsWith('08')) return true;
+
+  // Set by withStatus from the response; auth errors carry their own
+  const status = Number(error.status ?? error.statusCode);
+  if (status >= 500) return true;
+  if (status >= 400 || code) return false;
+
+  // Only errors from outside PostgREST and auth (no code, no status) are read
+  return /\b50[234]\b|Service Unavailable|Gateway Time-?out|upstream connect error/i.test(String(error.message || ''));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function withTimeout<T>(promise: Promise<T>, operation: string, timeoutMs: number): Promise<T> {
+  if (!(timeoutMs > 0) || !Number.isFinite(timeoutMs)) return promise;
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(operation, timeoutMs)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Runs database calls with a timeout, retries with exponential backoff and
+// jitter, and a circuit breaker shared by every operation
+export class ResilientExecutor {
+  private config: ResilienceConfig;
+  private circuit: CircuitState = 'closed';
+  private openedAt = 0;
+  private trialInFlight = false;
+  private consecutiveFailures = 0;
+  private lastSuccessAt: string | null = null;
+  private lastFailureAt: string | null = null;
+  private lastError: string | null = null;
+  private latencies: number[] = [];
+
+  constructor(config: Partial<ResilienceConfig> = {}) {
+    this.config = { ...DEFAULT_RESILIENCE };
+    this.configure(config);
+  }
+
+  // Merges into the current settings; operation overrides merge per operation
+  configure(config: Partial<ResilienceConfig>): void {
+    this.config = {
+      defaults: { ...this.config.defaults, ...config.defaults },
+      operations: { ...this.config.operations, ...config.operations },
+      breaker: { ...this.config.breaker, ...config.breaker }
+    };
+  }
+
+  // For errors that already went through run() in a nested call and were
+  // mapped to a new object since
+  markHandled(error: unknown): void {
+    if (error && typeof error === 'object') exhausted.add(error);
+  }
+
+  policyFor(operation: string): RetryPolicy {
+    const shortName = operation.split('.').pop() || operation;
+    return {
+      ...this.config.defaults,
+      ...this.config.operations[shortName],
+      ...this.config.operations[operation]
+    };
+  }
+
+  async run<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    const policy = this.policyFor(operation);
+
+    for (let attempt = 0; ; attempt++) {
+      const trial = this.beforeCall();
+      const started = Date.now();
+
+      try {
+        const result = await withTimeout(fn(), operation, policy.timeoutMs);
+        this.recordSuccess(Date.now() - started);
+        return result;
+      } catch (error: any) {
+        if (!isTransientError(error)) {
+          // The server answered, so the connection itself is fine
+          if (!(error instanceof CircuitOpenError)) this.recordSuccess(Date.now() - started);
+          throw error;
+        }
+
+        if (exhausted.has(error)) throw error;
+        this.recordFailure(error);
+        if (attempt >= policy.retries || this.circuit === 'open') {
+          if (typeof error === 'object') exhausted.add(error);
+          throw error;
+        }
+
+        const delay = Math.min(policy.baseDelayMs * 2 ** attempt, policy.maxDelayMs);
+        const jittered = delay / 2 + Math.random() * (delay / 2);
+        console.warn(`[DatabaseService:${operation}] Attempt ${attempt + 1} failed (${error.message}); retrying in ${Math.round(jittered)}ms`);
+        await sleep(jittered);
+      } finally {
+        // A trial that ended without a verdict frees the slot for the next call
+        if (trial) this.trialInFlight = false;
+      }
+    }
+  }
+
+  getHealth(): ConnectionHealth {
+    const { cooldownMs } = this.config.breaker;
+    const averageLatencyMs = this.latencies.length
+      ? Math.round(this.latencies.reduce((sum, latency) => sum + latency, 0) / this.latencies.length)
+      : null;
+
+    return {
+      status: this.circuit === 'open' ? 'down' : this.consecutiveFailures > 0 || this.circuit === 'half_open' ? 'degraded' : 'healthy',
+      circuit: this.circuit,
+      consecutiveFailures: this.consecutiveFailures,
+      lastSuccessAt: this.lastSuccessAt,
+      lastFailureAt: this.lastFailureAt,
+      lastError: this.lastError,
+      averageLatencyMs,
+      retryAt: this.circuit === 'open' ? new Date(this.openedAt + cooldownMs).toISOString() : null
+    };
+  }
+
+  // Closes the circuit, e.g. after the configuration or user changed
+  reset(): void {
+    this.circuit = 'closed';
+    this.trialInFlight = false;
+    this.consecutiveFailures = 0;
+    this.lastError = null;
+  }
+
+  // Throws while the circuit is open; returns true for a half-open trial call
+  private beforeCall(): boolean {
+    if (this.circuit === 'closed') return false;
+
+    const retryAt = this.openedAt + this.config.breaker.cooldownMs;
+    if (this.circuit === 'open' && Date.now() >= retryAt) {
+      this.circuit = 'half_open';
+    }
+    // Half open lets a single trial call through; the rest keep failing fast
+    if (this.circuit === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    throw new CircuitOpenError(new Date(retryAt).toISOString());
+  }
+
+  private recordSuccess(latencyMs: number): void {
+    this.circuit = 'closed';
+    this.trialInFlight = false;
+    this.consecutiveFailures = 0;
+    this.lastSuccessAt = new Date().toISOString();
+    this.latencies = [...this.latencies, latencyMs].slice(-LATENCY_SAMPLES);
+  }
+
+  private recordFailure(error: any): void {
+    this.consecutiveFailures++;
+    this.lastFailureAt = new Date().toISOString();
+    this.lastError = error?.message || String(error);
+
+    if (this.circuit === 'half_open' || this.consecutiveFailures >= this.config.breaker.failureThreshold) {
+      if (this.circuit !== 'open') {
+        console.warn(`[DatabaseService] Circuit opened after ${this.consecutiveFailures} consecutive failures`);
+      }
+      this.circuit = 'open';
+      this.openedAt = Date.now();
+      this.trialInFlight = false;
+    }
+  }
+}
@@ -0,0 +1,410 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createIsolatedClient } from '../supabase';
+import type { Database } from '../types/database';
+import type { CompanyRole, InviteRole } from './entities';
+import { PERMISSIONS, PermissionAction, PermissionTable } from './permissions';
+
+type Client = SupabaseClient<Database>;
+// Untyped view for table names chosen at runtime
+type AnyClient = SupabaseClient;
+
+export type RlsActor = 'anon' | 'memberA' | 'memberB' | 'adminA';
+export type SignedInActor = Exclude<RlsActor, 'anon'>;
+export type RlsOperation = 'select' | 'insert' | 'update' | 'delete';
+export type RlsOutcome = 'allow' | 'deny';
+// Company owning the row an operation targets (or the row being inserted)
+export type RlsTarget = 'companyA' | 'companyB';
+export type RlsTable = Exclude<PermissionTable, 'event_recipes'>;
+
+export interface RlsScenario {
+  name: string;
+  actor: RlsActor;
+  table: RlsTable;
+  operation: RlsOperation;
+  target: RlsTarget;
+  expect: RlsOutcome;
+  // Columns changed by an update; defaults to renaming the fixture
+  patch?: Record<string, unknown>;
+}
+
+export interface RlsCredentials {
+  email: string;
+  password: string;
+}
+
+export interface RlsHarnessConfig {
+  // adminA owns (or administers) company A, memberA is invited into it and
+  // memberB owns company B
+  actors: Record<SignedInActor, RlsCredentials>;
+  // Reuse existing companies instead of creating new ones on every run
+  companyAId?: string;
+  companyBId?: string;
+  // Role memberA holds in company A
+  memberRole?: InviteRole;
+  // Defaults to defaultRlsScenarios(memberRole)
+  scenarios?: RlsScenario[];
+}
+
+export type RlsStatus = 'passed' | 'failed' | 'error';
+
+export interface RlsScenarioResult {
+  scenario: RlsScenario;
+  status: RlsStatus;
+  actual?: RlsOutcome;
+  // Database error behind a deny, or why the scenario could not run
+  message?: string;
+  durationMs: number;
+}
+
+export interface RlsReport {
+  startedAt: string;
+  durationMs: number;
+  companyAId: string;
+  companyBId: string;
+  results: RlsScenarioResult[];
+  passed: number;
+  failed: number;
+  errors: number;
+}
+
+export const RLS_TABLES: RlsTable[] = ['prep_lists', 'events', 'recipes', 'methods', 'containers'];
+
+const OPERATION_ACTIONS: Record<RlsOperation, PermissionAction> = {
+  select: 'view',
+  insert: 'save',
+  update: 'save',
+  delete: 'delete'
+};
+
+function expectFor(role: CompanyRole, table: RlsTable, action: PermissionAction): RlsOutcome {
+  return PERMISSIONS[table][action]?.includes(role) ? 'allow' : 'deny';
+}
+
+function scenario(
+  actor: RlsActor,
+  operation: RlsOperation,
+  table: RlsTable,
+  target: RlsTarget,
+  expect: RlsOutcome,
+  patch?: Record<string, unknown>
+): RlsScenario {
+  const suffix = patch ? ` (${Object.entries(patch).map(([key, value]) => `${key}=${value}`).join(', ')})` : '';
+  return { name: `${actor} ${operation} ${table} in ${target}${suffix}`, actor, table, operation, target, expect, patch };
+}
+
+// Anonymous and cross-company access is always denied; in-company access
+// follows the role matrix, so a mismatch also means RLS and the client disagree
+export function defaultRlsScenarios(memberRole: InviteRole = 'chef'): RlsScenario[] {
+  const operations: RlsOperation[] = ['select', 'insert', 'update', 'delete'];
+  const scenarios: RlsScenario[] = [];
+
+  for (const table of RLS_TABLES) {
+    scenarios.push(scenario('anon', 'select', table, 'companyA', 'deny'));
+    scenarios.push(scenario('anon', 'insert', table, 'companyA', 'deny'));
+
+    for (const operation of operations) {
+      scenarios.push(scenario('memberB', operation, table, 'companyA', 'deny'));
+    }
+    for (const operation of operations) {
+      scenarios.push(scenario('memberA', operation, table, 'companyA', expectFor(memberRole, table, OPERATION_ACTIONS[operation])));
+    }
+    for (const operation of operations) {
+      scenarios.push(scenario('adminA', operation, table, 'companyA', expectFor('admin', table, OPERATION_ACTIONS[operation])));
+    }
+    scenarios.push(scenario('adminA', 'select', table, 'companyB', 'deny'));
+  }
+
+  const complete = { status: 'complete' };
+  const memberCanComplete = expectFor(memberRole, 'events', 'save') === 'allow' && expectFor(memberRole, 'events', 'complete') === 'allow';
+  scenarios.push(scenario('memberA', 'update', 'events', 'companyA', memberCanComplete ? 'allow' : 'deny', complete));
+  scenarios.push(scenario('adminA', 'update', 'events', 'companyA', 'allow', complete));
+
+  return scenarios;
+}
+
+// A valid row for each table; ids are real UUIDs so only RLS can refuse them
+function fixtureRow(table: RlsTable, companyId: string): Record<string, unknown> {
+  const base = { id: crypto.randomUUID(), company_id: companyId };
+  switch (table) {
+    case 'prep_lists':
+      return { ...base, name: 'RLS Fixture List', items: [] };
+    case 'events':
+      return { ...base, name: 'RLS Fixture Event', date: new Date().toISOString().split('T')[0], status: 'planning' };
+    case 'recipes':
+      return { ...base, name: 'RLS Fixture Recipe', ingredients: [], instructions: [] };
+    case 'methods':
+      return { ...base, name: 'RLS Fixture Method', instructions: [] };
+    case 'containers':
+      return { ...base, name: 'RLS Fixture Container', type: 'rls-fixture' };
+  }
+}
+
+async function signIn(actor: SignedInActor, credentials: RlsCredentials): Promise<Client> {
+  const client = createIsolatedClient(`rls-harness-${actor}`);
+  const { error } = await client.auth.signInWithPassword(credentials);
+  if (error) {
+    throw new Error(`Could not sign in RLS actor ${actor} (${credentials.email}): ${error.message}`);
+  }
+  return client;
+}
+
+async function userIdOf(client: Client): Promise<string> {
+  const { data, error } = await client.auth.getUser();
+  if (error || !data.user) {
+    throw new Error(`Could not resolve the signed-in user: ${error?.message || 'no user'}`);
+  }
+  return data.user.id;
+}
+
+async function roleIn(client: Client, companyId: string): Promise<CompanyRole | null> {
+  const { data, error } = await client
+    .from('company_employees')
+    .select('role')
+    .eq('company_id', companyId)
+    .eq('auth_user_id', await userIdOf(client))
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.role || null;
+}
+
+// Uses the given company after checking the owner can administer it, or creates one
+async function ensureCompany(owner: Client, companyId: string | undefined, name: string): Promise<string> {
+  if (companyId) {
+    const role = await roleIn(owner, companyId);
+    if (role !== 'owner' && role !== 'admin') {
+      throw new Error(`RLS fixture company ${companyId} must be administered by its actor (role: ${role || 'none'})`);
+    }
+    return companyId;
+  }
+
+  const { data, error } = await owner.rpc('create_company', { company_name: name });
+  if (error) throw error;
+  return data;
+}
+
+// Brings the member into the company with exactly the given role
+async function ensureMembership(
+  admin: Client,
+  member: Client,
+  memberEmail: string,
+  companyId: string,
+  role: InviteRole
+): Promise<void> {
+  const current = await roleIn(member, companyId);
+  if (current === role) return;
+
+  if (current) {
+    const { error } = await admin
+      .from('company_employees')
+      .update({ role })
+      .eq('company_id', companyId)
+      .eq('auth_user_id', await userIdOf(member));
+    if (error) throw error;
+    return;
+  }
+
+  const email = memberEmail.trim().toLowerCase();
+  const { error: clearError } = await admin
+    .from('company_invites')
+    .delete()
+    .eq('company_id', companyId)
+    .eq('email', email)
+    .is('accepted_at', null);
+  if (clearError) throw clearError;
+
+  const { data: invite, error: inviteError } = await admin
+    .from('company_invites')
+    .insert({ company_id: companyId, email, role })
+    .select('token')
+    .single();
+  if (inviteError) throw inviteError;
+
+  const { error: acceptError } = await member.rpc('accept_company_invite', { invite_token: invite.token });
+  if (acceptError) throw acceptError;
+}
+
+// Runs one operation and reports whether RLS let it through. supabase-js does
+// not throw, so both errors and silently filtered rows count as a deny.
+async function attempt(
+  client: Client,
+  operation: RlsOperation,
+  table: RlsTable,
+  row: Record<string, unknown>,
+  patch: Record<string, unknown>
+): Promise<{ outcome: RlsOutcome; message?: string }> {
+  const db = client as unknown as AnyClient;
+  const id = row.id as string;
+
+  const { data, error } =
+    operation === 'select' ? await db.from(table).select('id').eq('id', id)
+    : operation === 'insert' ? await db.from(table).insert(row)
+    : operation === 'update' ? await db.from(table).update(patch).eq('id', id).select('id')
+    : await db.from(table).delete().eq('id', id);
+
+  if (error) {
+    return { outcome: 'deny', message: `${error.code || 'error'}: ${error.message}` };
+  }
+  if (operation === 'insert') {
+    return { outcome: 'allow' };
+  }
+  // Allowed deletes move the row to the trash and report no rows
+  if (operation === 'delete') {
+    const { data: trash, error: trashError } = await db.rpc('list_trash', { target_table: table });
+    if (trashError) return { outcome: 'deny', message: `${trashError.code || 'error'}: ${trashError.message}` };
+    return (trash || []).some((trashed: { id?: string } | null) => trashed?.id === id)
+      ? { outcome: 'allow' }
+      : { outcome: 'deny', message: 'Row was not moved to the trash' };
+  }
+  return Array.isArray(data) && data.length > 0
+    ? { outcome: 'allow' }
+    : { outcome: 'deny', message: 'No rows visible to this actor' };
+}
+
+async function removeFixture(owner: Client, table: RlsTable, id: string): Promise<void> {
+  const { error } = await (owner as unknown as AnyClient).from(table).delete().eq('id', id);
+  if (error) {
+    console.warn(`[RLS harness] Failed to remove fixture ${table}/${id}:`, error.message);
+  }
+}
+
+// Signs in every actor, provisions companies A and B, then runs each scenario
+// against a fresh fixture row that the owning company's admin cleans up
+export async function runRlsScenarios(config: RlsHarnessConfig): Promise<RlsReport> {
+  const started = Date.now();
+  const memberRole = config.memberRole || 'chef';
+  const scenarios = config.scenarios || defaultRlsScenarios(memberRole);
+
+  const clients: Record<RlsActor, Client> = {
+    anon: createIsolatedClient('rls-harness-anon'),
+    adminA: await signIn('adminA', config.actors.adminA),
+    memberA: await signIn('memberA', config.actors.memberA),
+    memberB: await signIn('memberB', config.actors.memberB)
+  };
+
+  try {
+    const stamp = new Date().toISOString();
+    const companyAId = await ensureCompany(clients.adminA, config.companyAId, `RLS Harness A ${stamp}`);
+    const companyBId = await ensureCompany(clients.memberB, config.companyBId, `RLS Harness B ${stamp}`);
+    await ensureMembership(clients.adminA, clients.memberA, config.actors.memberA.email, companyAId, memberRole);
+
+    const companies: Record<RlsTarget, { id: string; owner: Client }> = {
+      companyA: { id: companyAId, owner: clients.adminA },
+      companyB: { id: companyBId, owner: clients.memberB }
+    };
+
+    const results: RlsScenarioResult[] = [];
+    for (const scenario of scenarios) {
+      const scenarioStart = Date.now();
+      const company = companies[scenario.target];
+      const row = fixtureRow(scenario.table, company.id);
+
+      try {
+        if (scenario.operation !== 'insert') {
+          const { error } = await (company.owner as unknown as AnyClient).from(scenario.table).insert(row);
+          if (error) throw new Error(`Fixture setup failed: ${error.message}`);
+        }
+
+        const { outcome, message } = await attempt(
+          clients[scenario.actor],
+          scenario.operation,
+          scenario.table,
+          row,
+          scenario.patch || { name: `${row.name} (updated)` }
+        );
+
+        results.push({
+          scenario,
+          status: outcome === scenario.expect ? 'passed' : 'failed',
+          actual: outcome,
+          message,
+          durationMs: Date.now() - scenarioStart
+        });
+      } catch (error: any) {
+        results.push({ scenario, status: 'error', message: error.message, durationMs: Date.now() - scenarioStart });
+      } finally {
+        await removeFixture(company.owner, scenario.table, row.id as string);
+      }
+    }
+
+    return {
+      startedAt: new Date(started).toISOString(),
+      durationMs: Date.now() - started,
+      companyAId,
+      companyBId,
+      results,
+      passed: results.filter(result => result.status === 'passed').length,
+      failed: results.filter(result => result.status === 'failed').length,
+      errors: results.filter(result => result.status === 'error').length
+    };
+  } finally {
+    await Promise.all((['adminA', 'memberA', 'memberB'] as const).map(actor => clients[actor].auth.signOut()));
+  }
+}
+
+// Plain-text pass/fail table for logs and the console
+export function formatRlsReport(report: RlsReport): string {
+  const header = ['Status', 'Actor', 'Operation', 'Table', 'Target', 'Expected', 'Actual', 'Detail'];
+  const rows = report.results.map(result => [
+    result.status.toUpperCase(),
+    result.scenario.actor,
+    result.scenario.operation + (result.scenario.patch ? '*' : ''),
+    result.scenario.table,
+    result.scenario.target,
+    result.scenario.expect,
+    result.actual || '-',
+    result.status === 'passed' ? '' : result.message || ''
+  ]);
+
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+  return [
+    line(header),
+    line(widths.map(width => '-'.repeat(width))),
+    ...rows.map(line),
+    '',
+    `${report.passed} passed, ${report.failed} failed, ${report.errors} errors in ${(report.durationMs / 1000).toFixed(1)}s`
+  ].join('\n');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// JUnit XML for CI dashboards: one testcase per scenario, classed by table
+export function toJUnitXml(report: RlsReport, suiteName = 'rls-policies'): string {
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+  const cases = report.results.map(result => {
+    const attributes = `classname="${escapeXml(`${suiteName}.${result.scenario.table}`)}" name="${escapeXml(result.scenario.name)}" time="${seconds(result.durationMs)}"`;
+    if (result.status === 'passed') {
+      return `    <testcase ${attributes}/>`;
+    }
+
+    const tag = result.status === 'failed' ? 'failure' : 'error';
+    const summary = result.status === 'failed'
+      ? `Expected ${result.scenario.expect}, got ${result.actual}`
+      : 'Scenario could not run';
+    return [
+      `    <testcase ${attributes}>`,
+      `      <${tag} message="${escapeXml(summary)}">${escapeXml(result.message || '')}</${tag}>`,
+      '    </testcase>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites tests="${report.results.length}" failures="${report.failed}" errors="${report.errors}" time="${seconds(report.durationMs)}">`,
+    `  <testsuite name="${escapeXml(suiteName)}" tests="${report.results.length}" failures="${report.failed}" errors="${report.errors}" time="${seconds(report.durationMs)}" timestamp="${report.startedAt}">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    ''
+  ].join('\n');
+}
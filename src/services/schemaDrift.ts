@@ -0,0 +1,131 @@
+import { migrationSchema } from '../types/database';
+import type { TableDefinition } from './entities';
+
+// Column names per table, from the migrations or a live database
+export interface SchemaSnapshot {
+  tables: { [table: string]: readonly string[] };
+}
+
+// The columns a single service method writes to one table
+export interface WriteSurface {
+  source: string;
+  table: string;
+  columns: string[];
+}
+
+export interface DriftIssue {
+  severity: 'error' | 'warning';
+  kind: 'missing-table' | 'missing-column' | 'unresolved-reference' | 'unapplied-migration';
+  table: string;
+  column?: string;
+  source: string;
+  message: string;
+}
+
+export interface SchemaDriftReport {
+  against: 'migrations' | 'live';
+  checkedTables: string[];
+  issues: DriftIssue[];
+}
+
+// Columns written by a repository-backed save method
+export function writeSurfaceOf<TDomain, TRow>(
+  source: string,
+  definition: TableDefinition<TDomain, TRow>
+): WriteSurface {
+  return {
+    source,
+    table: definition.table,
+    columns: definition.fields.filter(field => !field.readOnly).map(field => field.column)
+  };
+}
+
+// Compares what the service writes against a schema snapshot
+export function detectSchemaDrift(
+  surfaces: WriteSurface[],
+  snapshot: SchemaSnapshot,
+  against: SchemaDriftReport['against']
+): SchemaDriftReport {
+  const issues: DriftIssue[] = [];
+
+  for (const surface of surfaces) {
+    const columns = snapshot.tables[surface.table];
+    if (!columns) {
+      issues.push({
+        severity: 'error',
+        kind: 'missing-table',
+        table: surface.table,
+        source: surface.source,
+        message: `${surface.source} writes to '${surface.table}', which does not exist in the ${against} schema`
+      });
+      continue;
+    }
+
+    for (const column of surface.columns) {
+      if (columns.includes(column)) continue;
+      issues.push({
+        severity: 'error',
+        kind: 'missing-column',
+        table: surface.table,
+        column,
+        source: surface.source,
+        message: `${surface.source} writes '${surface.table}.${column}', which does not exist in the ${against} schema`
+      });
+    }
+  }
+
+  return {
+    against,
+    checkedTables: [...new Set(surfaces.map(surface => surface.table))].sort(),
+    issues
+  };
+}
+
+// Offline check: service writes and policy references against supabase/migrations
+export function detectMigrationDrift(surfaces: WriteSurface[]): SchemaDriftReport {
+  const report = detectSchemaDrift(surfaces, migrationSchema, 'migrations');
+
+  for (const reference of migrationSchema.unresolvedReferences) {
+    report.issues.push({
+      severity: 'error',
+      kind: 'unresolved-reference',
+      table: reference.table,
+      source: reference.file,
+      message: `${reference.referencedBy} references '${reference.table}', which no migration creates`
+    });
+  }
+
+  return report;
+}
+
+// Live check: service writes and migrated tables against information_schema
+export function detectLiveDrift(
+  surfaces: WriteSurface[],
+  columns: { table_name: string; column_name: string }[]
+): SchemaDriftReport {
+  const live: { [table: string]: string[] } = {};
+  for (const { table_name, column_name } of columns) {
+    (live[table_name] ||= []).push(column_name);
+  }
+
+  const report = detectSchemaDrift(surfaces, { tables: live }, 'live');
+
+  for (const [table, expected] of Object.entries(migrationSchema.tables) as [string, readonly string[]][]) {
+    const actual = live[table];
+    const missing = actual ? expected.filter(column => !actual.includes(column)) : [];
+    if (actual && missing.length === 0) continue;
+
+    report.issues.push({
+      severity: 'warning',
+      kind: 'unapplied-migration',
+      table,
+      column: missing.length === 1 ? missing[0] : undefined,
+      source: 'supabase/migrations',
+      message: actual
+        ? `'${table}' is missing migrated column(s): ${missing.join(', ')}`
+        : `'${table}' is defined in migrations but missing from the database`
+    });
+  }
+
+  return report;
+}
@@ -0,0 +1,256 @@
+import type { FieldError } from './errors';
+import type { Container, Event, EventRecipe, Ingredient, Method, PrepItem, PrepList, Recipe } from './entities';
+
+// Runtime checks that mirror the column types and CHECK constraints in
+// supabase/migrations, so bad data is reported field by field before it
+// reaches the server (and rows that slipped past are caught on load).
+
+// Checks one value, adding any failures under `path`
+export type Schema = (value: unknown, path: string, errors: FieldError[]) => void;
+
+// One schema per field; the mapped type keeps schemas in step with the entities
+export type EntitySchema<T> = { [K in keyof T]-?: Schema };
+
+interface RuleOptions {
+  // Accepts undefined and null (nullable columns, optional fields)
+  optional?: boolean;
+}
+
+interface NumberOptions extends RuleOptions {
+  min?: number;
+  max?: number;
+}
+
+const INT4_MAX = 2_147_483_647;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:$|T)/;
+
+function rule(options: RuleOptions, test: (value: unknown) => string | null): Schema {
+  return (value, path, errors) => {
+    if (value === undefined || value === null) {
+      if (!options.optional) errors.push({ path, message: 'Required' });
+      return;
+    }
+    const message = test(value);
+    if (message) errors.push({ path, message });
+  };
+}
+
+function inRange(value: number, { min, max }: NumberOptions): string | null {
+  if (min !== undefined && value < min) return `Must be at least ${min}`;
+  if (max !== undefined && value > max) return `Must be at most ${max}`;
+  return null;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+export const rules = {
+  // Column type uuid
+  uuid: (options: RuleOptions = {}): Schema =>
+    rule(options, value => (typeof value === 'string' && UUID.test(value) ? null : 'Must be a UUID')),
+
+  // nonBlank mirrors the name checks (NOT NULL and not just whitespace)
+  text: (options: RuleOptions & { nonBlank?: boolean; maxLength?: number } = {}): Schema =>
+    rule(options, value => {
+      if (typeof value !== 'string') return 'Must be text';
+      if (options.nonBlank && !value.trim()) return 'Must not be blank';
+      if (options.maxLength !== undefined && value.length > options.maxLength) {
+        return `Must be at most ${options.maxLength} characters`;
+      }
+      return null;
+    }),
+
+  // Column type integer unless a wider max is given (bigint counters)
+  integer: (options: NumberOptions = {}): Schema =>
+    rule(options, value => {
+      if (typeof value !== 'number' || !Number.isInteger(value)) return 'Must be a whole number';
+      return inRange(value, { min: -INT4_MAX - 1, max: INT4_MAX, ...options });
+    }),
+
+  number: (options: NumberOptions = {}): Schema =>
+    rule(options, value => (typeof value === 'number' && Number.isFinite(value) ? inRange(value, options) : 'Must be a number')),
+
+  boolean: (options: RuleOptions = {}): Schema =>
+    rule(options, value => (typeof value === 'boolean' ? null : 'Must be true or false')),
+
+  // CHECK (column IN (...))
+  oneOf: <T extends string>(values: readonly T[], options: RuleOptions = {}): Schema =>
+    rule(options, value => (values.includes(value as T) ? null : `Must be one of ${values.join(', ')}`)),
+
+  // Column type date: a real calendar day as YYYY-MM-DD (a time part is ignored)
+  date: (options: RuleOptions = {}): Schema =>
+    rule(options, value => {
+      const match = typeof value === 'string' ? ISO_DATE.exec(value) : null;
+      if (!match) return 'Must be a date (YYYY-MM-DD)';
+      const [, year, month, day] = match.map(Number);
+      const parsed = new Date(Date.UTC(year, month - 1, day));
+      return parsed.getUTCFullYear() === year && parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day
+        ? null
+        : 'Must be a real calendar date';
+    }),
+
+  // Column type timestamptz
+  timestamp: (options: RuleOptions = {}): Schema =>
+    rule(options, value => (typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? null : 'Must be a timestamp')),
+
+  // jsonb arrays; uniqueKey rejects two elements with the same key (e.g. item ids)
+  array: (item: Schema, options: RuleOptions & { uniqueKey?: string } = {}): Schema =>
+    (value, path, errors) => {
+      rule(options, entry => (Array.isArray(entry) ? null : 'Must be a list'))(value, path, errors);
+      if (!Array.isArray(value)) return;
+
+      const seen = new Set<unknown>();
+      value.forEach((entry, index) => {
+        item(entry, join(path, index), errors);
+        if (options.uniqueKey && entry && typeof entry === 'object') {
+          const key = (entry as Record<string, unknown>)[options.uniqueKey];
+          if (seen.has(key)) errors.push({ path: join(join(path, index), options.uniqueKey), message: 'Must be unique in the list' });
+          seen.add(key);
+        }
+      });
+    },
+
+  object: <T>(shape: EntitySchema<T>, options: RuleOptions = {}): Schema =>
+    (value, path, errors) => {
+      rule(options, entry => (typeof entry === 'object' && !Array.isArray(entry) ? null : 'Must be an object'))(value, path, errors);
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return;
+
+      for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        shape[key]((value as Record<string, unknown>)[key], join(path, key), errors);
+      }
+    }
+};
+
+// Returns every failure; an empty list means the entity is valid
+export function validateSchema<T>(schema: EntitySchema<T>, entity: T): FieldError[] {
+  const errors: FieldError[] = [];
+  rules.object(schema)(entity, '', errors);
+  return errors;
+}
+
+// e.g. "name: Must not be blank; items[1].unit: Must be text"
+export function formatFieldErrors(errors: FieldError[]): string {
+  return errors.map(error => `${error.path || 'value'}: ${error.message}`).join('; ');
+}
+
+const optionalText = () => rules.text({ optional: true });
+const textList = () => rules.array(rules.text(), { optional: true });
+
+const snakeOwnership = {
+  company_id: rules.uuid({ optional: true }),
+  user_id: rules.uuid({ optional: true }),
+  created_at: rules.timestamp({ optional: true }),
+  updated_at: rules.timestamp({ optional: true }),
+  deleted_at: rules.timestamp({ optional: true }),
+  seed_batch: rules.uuid({ optional: true })
+};
+
+const camelOwnership = {
+  company_id: rules.uuid({ optional: true }),
+  user_id: rules.uuid({ optional: true }),
+  createdAt: rules.timestamp({ optional: true }),
+  updatedAt: rules.timestamp({ optional: true }),
+  deletedAt: rules.timestamp({ optional: true }),
+  seed_batch: rules.uuid({ optional: true })
+};
+
+// Items live in jsonb, so their ids are free text (generated items use
+// readable ids) but must be unique within a list
+export const prepItemSchema: EntitySchema<PrepItem> = {
+  id: rules.text({ nonBlank: true }),
+  name: rules.text({ nonBlank: true }),
+  quantity: rules.text(),
+  unit: rules.text(),
+  category: optionalText(),
+  completed: rules.boolean({ optional: true }),
+  assignedTo: optionalText(),
+  notes: optionalText(),
+  eventId: rules.uuid({ optional: true }),
+  recipeIds: rules.array(rules.uuid(), { optional: true })
+};
+
+const prepItems = () => rules.array(rules.object(prepItemSchema), { uniqueKey: 'id' });
+
+export const prepListSchema: EntitySchema<PrepList> = {
+  id: rules.uuid(),
+  name: rules.text({ nonBlank: true }),
+  items: prepItems(),
+  event_id: rules.uuid({ optional: true }),
+  item_version: rules.integer({ optional: true, min: 0, max: Number.MAX_SAFE_INTEGER }),
+  ...snakeOwnership
+};
+
+export const eventSchema: EntitySchema<Event> = {
+  id: rules.uuid(),
+  name: rules.text({ nonBlank: true }),
+  date: rules.date(),
+  invoiceNumber: optionalText(),
+  prepItems: prepItems(),
+  status: rules.oneOf(['planning', 'prep', 'active', 'complete']),
+  totalServings: rules.integer({ min: 0 }),
+  ...snakeOwnership
+};
+
+export const eventRecipeSchema: EntitySchema<EventRecipe> = {
+  id: rules.uuid(),
+  eventId: rules.uuid(),
+  recipeId: rules.uuid(),
+  // CHECK (servings > 0)
+  servings: rules.integer({ min: 1 }),
+  notes: optionalText(),
+  sortOrder: rules.integer({ optional: true }),
+  ...snakeOwnership
+};
+
+export const ingredientSchema: EntitySchema<Ingredient> = {
+  quantity: rules.number({ optional: true, min: 0 }),
+  quantityMax: rules.number({ optional: true, min: 0 }),
+  unit: optionalText(),
+  item: rules.text({ nonBlank: true }),
+  prepNote: optionalText(),
+  containerId: rules.uuid({ optional: true })
+};
+
+export const recipeSchema: EntitySchema<Recipe> = {
+  id: rules.uuid(),
+  name: rules.text({ nonBlank: true }),
+  description: optionalText(),
+  ingredients: rules.array(rules.object(ingredientSchema)),
+  instructions: rules.array(rules.text()),
+  yield: optionalText(),
+  prepTime: rules.integer({ optional: true, min: 0 }),
+  cookTime: rules.integer({ optional: true, min: 0 }),
+  totalTime: rules.integer({ optional: true, min: 0 }),
+  difficulty: rules.oneOf(['Easy', 'Medium', 'Hard'], { optional: true }),
+  tags: textList(),
+  notes: optionalText(),
+  image: optionalText(),
+  ...camelOwnership
+};
+
+export const methodSchema: EntitySchema<Method> = {
+  id: rules.uuid(),
+  name: rules.text({ nonBlank: true }),
+  description: optionalText(),
+  category: optionalText(),
+  videoUrl: optionalText(),
+  instructions: rules.array(rules.text()),
+  estimatedTime: rules.integer({ optional: true, min: 0 }),
+  difficultyLevel: rules.oneOf(['Beginner', 'Intermediate', 'Advanced'], { optional: true }),
+  tags: textList(),
+  equipment: textList(),
+  tips: textList(),
+  ...camelOwnership
+};
+
+export const containerSchema: EntitySchema<Container> = {
+  id: rules.uuid(),
+  name: rules.text({ nonBlank: true }),
+  type: rules.text({ nonBlank: true }),
+  size: optionalText(),
+  description: optionalText(),
+  ...snakeOwnership
+};
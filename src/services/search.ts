@@ -0,0 +1,63 @@
+import type { Json } from '../types/database';
+
+export interface SearchOptions<TDifficulty extends string> {
+  // Free text: fuzzy on name, full-text across the other searchable fields
+  query?: string;
+  // Only items carrying every one of these tags
+  tags?: string[];
+  difficulty?: TDifficulty[];
+  // Minutes; total time for recipes, estimated time for methods
+  minTime?: number;
+  maxTime?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchMatch {
+  field: string;
+  // Matched text with <mark>…</mark> around the hits
+  text: string;
+}
+
+export interface SearchHit<T> {
+  item: T;
+  rank: number;
+  nameSimilarity: number;
+  highlights: {
+    name: string;
+    description: string | null;
+  };
+  matches: SearchMatch[];
+}
+
+export interface SearchResults<T> {
+  hits: SearchHit<T>[];
+  total: number;
+}
+
+// Row shape shared by the search_recipes and search_methods functions
+export interface SearchRow {
+  row_data: Json;
+  rank: number;
+  name_similarity: number;
+  name_highlight: string;
+  description_highlight: string;
+  matches: Json;
+  total_count: number;
+}
+
+export function toSearchResults<T>(rows: SearchRow[], fromRow: (row: any) => T): SearchResults<T> {
+  return {
+    hits: rows.map(row => ({
+      item: fromRow(row.row_data),
+      rank: Number(row.rank) || 0,
+      nameSimilarity: Number(row.name_similarity) || 0,
+      highlights: {
+        name: row.name_highlight,
+        description: row.description_highlight ?? null
+      },
+      matches: Array.isArray(row.matches) ? (row.matches as unknown as SearchMatch[]) : []
+    })),
+    total: Number(rows[0]?.total_count) || 0
+  };
+}
@@ -0,0 +1,373 @@
+import type { Container, Event, EventRecipe, InviteRole, Method, PrepList, Recipe, TrashTable } from './entities';
+import { Ingredient, formatQuantity } from './ingredients';
+import { buildEventPrepItems } from './prepGeneration';
+
+// Seedable fake kitchen data for demos, load tests and local development.
+// The same seed and batch always produce the same rows (ids included), so a
+// run can be reproduced or re-applied in place. Pure functions only;
+// DatabaseService.seedDemoData writes the result.
+
+export interface SeedVolume {
+  // Per company
+  recipes: number;
+  methods: number;
+  containers: number;
+  // Event dates span this many years, centred on startDate: past events are
+  // complete, the next fortnight is in prep, later ones are planning
+  eventYears: number;
+  eventsPerWeek: number;
+  // Prep lists not tied to an event, on top of one per upcoming event
+  prepLists: number;
+}
+
+export interface SeedOptions extends Partial<SeedVolume> {
+  seed?: number | string;
+  // Tags every row; defaults to an id derived from the seed
+  batch?: string;
+  // Companies to fill; the first is the caller's active one when they have one
+  companies?: number;
+  // Fake staff per company, used as prep item assignees and invites
+  usersPerCompany?: number;
+  // Middle of the event range (YYYY-MM-DD); defaults to today
+  startDate?: string;
+}
+
+export const DEFAULT_SEED_VOLUME: SeedVolume = {
+  recipes: 40,
+  methods: 12,
+  containers: 10,
+  eventYears: 0.5,
+  eventsPerWeek: 3,
+  prepLists: 3
+};
+
+export interface SeedUser {
+  name: string;
+  email: string;
+  role: InviteRole;
+}
+
+export interface SeedCompany {
+  name: string;
+  users: SeedUser[];
+  containers: Container[];
+  recipes: Recipe[];
+  methods: Method[];
+  events: Event[];
+  eventRecipes: EventRecipe[];
+  prepLists: PrepList[];
+}
+
+export interface SeedData {
+  seed: string;
+  batch: string;
+  companies: SeedCompany[];
+}
+
+export interface SeedCompanyReport {
+  id: string;
+  name: string;
+  counts: Record<TrashTable, number>;
+  // Fake staff invited by email; empty where the caller cannot invite
+  invited: string[];
+}
+
+export interface SeedReport {
+  seed: string;
+  batch: string;
+  companies: SeedCompanyReport[];
+}
+
+// mulberry32 over a 32-bit FNV-1a hash of the seed
+export function createRandom(seed: number | string): () => number {
+  let state = 2166136261;
+  for (const char of String(seed)) {
+    state ^= char.charCodeAt(0);
+    state = Math.imul(state, 16777619);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+class Picker {
+  constructor(readonly random: () => number) {}
+
+  int(min: number, max: number): number {
+    return min + Math.floor(this.random() * (max - min + 1));
+  }
+
+  chance(probability: number): boolean {
+    return this.random() < probability;
+  }
+
+  one<T>(values: readonly T[]): T {
+    return values[Math.floor(this.random() * values.length)];
+  }
+
+  some<T>(values: readonly T[], min: number, max: number): T[] {
+    const pool = [...values];
+    const count = Math.min(this.int(min, max), pool.length);
+    const picked: T[] = [];
+    while (picked.length < count) picked.push(pool.splice(Math.floor(this.random() * pool.length), 1)[0]);
+    return picked;
+  }
+
+  // Version 4 layout, so the uuid columns and schemas accept it
+  uuid(): string {
+    const hex = Array.from({ length: 32 }, () => Math.floor(this.random() * 16).toString(16));
+    hex[12] = '4';
+    hex[16] = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+    const text = hex.join('');
+    return `${text.slice(0, 8)}-${text.slice(8, 12)}-${text.slice(12, 16)}-${text.slice(16, 20)}-${text.slice(20)}`;
+  }
+}
+
+// Ingredient pool: item, unit, typical quantity range for a batch of ~10
+const INGREDIENTS: [string, string | null, number, number][] = [
+  ['chicken thighs', 'lb', 2, 6], ['beef short rib', 'lb', 3, 8], ['pork shoulder', 'lb', 4, 10], ['salmon fillet', 'lb', 2, 5],
+  ['shrimp', 'lb', 1, 4], ['lamb leg', 'lb', 3, 7], ['duck breast', 'lb', 2, 4], ['cod', 'lb', 2, 5], ['bacon', 'lb', 1, 2],
+  ['yellow onion', null, 1, 4], ['garlic', 'clove', 3, 12], ['shallot', null, 2, 6], ['carrot', null, 2, 6], ['celery', 'stalk', 2, 5],
+  ['russet potato', 'lb', 2, 6], ['cherry tomato', 'pint', 1, 3], ['red bell pepper', null, 1, 4], ['zucchini', null, 2, 5],
+  ['cremini mushroom', 'lb', 1, 3], ['baby spinach', 'oz', 5, 16], ['kale', 'bunch', 1, 3], ['lemon', null, 1, 4], ['lime', null, 2, 6],
+  ['ginger', 'tbsp', 1, 3], ['scallion', 'bunch', 1, 2], ['flat-leaf parsley', 'cup', 0.5, 2], ['cilantro', 'cup', 0.5, 2],
+  ['thyme', 'tbsp', 1, 3], ['rosemary', 'tbsp', 1, 2], ['basil', 'cup', 0.5, 2], ['butter', 'tbsp', 2, 8], ['heavy cream', 'cup', 0.5, 2],
+  ['parmesan', 'cup', 0.5, 1.5], ['eggs', null, 2, 8], ['whole milk', 'cup', 1, 4], ['creme fraiche', 'cup', 0.5, 1],
+  ['olive oil', 'tbsp', 2, 6], ['red wine vinegar', 'tbsp', 1, 3], ['dijon mustard', 'tbsp', 1, 2], ['soy sauce', 'tbsp', 2, 4],
+  ['chicken stock', 'cup', 2, 8], ['honey', 'tbsp', 1, 3], ['all-purpose flour', 'cup', 1, 4], ['sugar', 'cup', 0.25, 1.5],
+  ['arborio rice', 'cup', 1, 3], ['farro', 'cup', 1, 2], ['orzo', 'cup', 1, 3], ['panko breadcrumbs', 'cup', 0.5, 2],
+  ['smoked paprika', 'tsp', 1, 3], ['ground cumin', 'tsp', 1, 3], ['kosher salt', 'tsp', 1, 4], ['black pepper', 'tsp', 0.5, 2],
+  ['chili flakes', 'tsp', 0.25, 1], ['toasted almonds', 'cup', 0.25, 1], ['dark chocolate', 'oz', 4, 10], ['vanilla extract', 'tsp', 1, 2]
+];
+
+const PREP_NOTES = ['diced', 'minced', 'julienned', 'chopped', 'zested', 'room temperature', 'trimmed', 'sliced thin', 'picked'];
+
+const DISH_STYLES = ['Braised', 'Roasted', 'Grilled', 'Pan-Seared', 'Smoked', 'Crispy', 'Charred', 'Slow-Cooked', 'Herb-Crusted', 'Glazed', 'Poached', 'Blackened'];
+const DISH_MAINS = ['Short Rib', 'Chicken Thighs', 'Pork Belly', 'Salmon', 'Cauliflower', 'Lamb Shoulder', 'Duck Breast', 'Cod', 'Mushrooms', 'Carrots', 'Shrimp', 'Eggplant', 'Brussels Sprouts', 'Flank Steak', 'Tofu'];
+const DISH_SIDES = ['Salsa Verde', 'Romesco', 'Lemon Butter', 'Chimichurri', 'Miso Glaze', 'Gremolata', 'Harissa Yogurt', 'Red Wine Jus', 'Brown Butter', 'Chili Crisp', 'Herb Oil', 'Tahini Sauce'];
+const EXTRA_DISHES = ['Mushroom Risotto', 'Caesar Salad', 'Tomato Bisque', 'Potato Gratin', 'Chocolate Pots de Crème', 'Lemon Tart', 'Farro Salad', 'Gazpacho', 'Panna Cotta', 'Focaccia'];
+const TAGS = ['gluten-free', 'vegetarian', 'dairy-free', 'spicy', 'family meal', 'banquet', 'make-ahead', 'seasonal', 'signature', 'brunch'];
+
+const STEP_TEMPLATES = [
+  'Prep the {a} and {b}; keep chilled until service.',
+  'Season the {a} generously and rest 20 minutes.',
+  'Sweat the {b} in {c} over medium heat until soft, about 8 minutes.',
+  'Add the {a} and cook until deeply browned.',
+  'Deglaze, scraping the fond, and reduce by half.',
+  'Finish with {c} and adjust seasoning.',
+  'Hold at 140°F or above; label and date any leftovers.',
+  'Plate, garnish with {b} and serve immediately.'
+];
+
+const METHOD_FIXTURES: Omit<Method, 'id'>[] = [
+  { name: 'Braising', category: 'Moist Heat', instructions: ['Sear the protein hard on all sides.', 'Add aromatics and liquid to a third of the way up.', 'Cover and cook low until fork tender.'], equipment: ['rondeau', 'tongs'], tips: ['Do not crowd the pan when searing.', 'Braises taste better the next day.'] },
+  { name: 'Brunoise', category: 'Knife Skills', instructions: ['Square off the vegetable.', 'Cut 3 mm planks, then 3 mm batons.', 'Cross-cut into 3 mm cubes.'], equipment: ['chef knife', 'cutting board'], tips: ['Keep the knife tip on the board.'] },
+  { name: 'Sous Vide', category: 'Precision Cooking', instructions: ['Season and vacuum-seal.', 'Cook in a water bath at the target temperature.', 'Chill in ice water or sear to finish.'], equipment: ['immersion circulator', 'vacuum sealer'], tips: ['Log bath temperatures for HACCP.'] },
+  { name: 'Emulsified Vinaigrette', category: 'Sauces', instructions: ['Whisk acid, mustard and salt.', 'Stream in oil while whisking.', 'Adjust acidity to taste.'], equipment: ['whisk', 'mixing bowl'], tips: ['Mustard helps the emulsion hold.'] },
+  { name: 'Blanch and Shock', category: 'Moist Heat', instructions: ['Boil heavily salted water.', 'Cook vegetables until just tender.', 'Plunge into ice water and drain.'], equipment: ['stockpot', 'spider', 'ice bath'], tips: ['Work in batches to keep the boil.'] },
+  { name: 'Pan Sauce', category: 'Sauces', instructions: ['Pour off excess fat.', 'Deglaze with wine or stock.', 'Reduce and mount with cold butter.'], equipment: ['sauté pan', 'wooden spoon'], tips: ['Take the pan off the heat before adding butter.'] },
+  { name: 'Laminated Dough', category: 'Pastry', instructions: ['Encase the butter block.', 'Roll and fold in thirds.', 'Rest chilled between turns.'], equipment: ['rolling pin', 'sheeter'], tips: ['Keep butter and dough at the same firmness.'] },
+  { name: 'Confit', category: 'Slow Cooking', instructions: ['Cure overnight with salt and aromatics.', 'Submerge in fat.', 'Cook low until tender; store under the fat.'], equipment: ['hotel pan', 'thermometer'], tips: ['Rinse the cure off before cooking.'] },
+  { name: 'Tempering Chocolate', category: 'Pastry', instructions: ['Melt to 45°C.', 'Seed down to 27°C.', 'Work at 31-32°C.'], equipment: ['bain-marie', 'thermometer', 'offset spatula'], tips: ['Test on parchment before dipping.'] },
+  { name: 'Stock Clarification', category: 'Stocks', instructions: ['Mix a raft of egg white and mirepoix.', 'Heat slowly without stirring.', 'Ladle through a hole in the raft.'], equipment: ['stockpot', 'chinois', 'cheesecloth'], tips: ['Never let it boil.'] },
+  { name: 'Dry Brining', category: 'Preparation', instructions: ['Salt the protein evenly.', 'Refrigerate uncovered on a rack.', 'Cook without rinsing.'], equipment: ['sheet tray', 'wire rack'], tips: ['Allow 1 hour per pound, up to 2 days.'] },
+  { name: 'Chiffonade', category: 'Knife Skills', instructions: ['Stack the leaves.', 'Roll tightly.', 'Slice across into thin ribbons.'], equipment: ['chef knife'], tips: ['Cut right before service to avoid bruising.'] }
+];
+
+const CONTAINER_FIXTURES: [string, string, string][] = [
+  ['Full Hotel Pan', 'hotel pan', '4 in'], ['Half Hotel Pan', 'hotel pan', '2.5 in'], ['Third Pan', 'hotel pan', '6 in'],
+  ['Sixth Pan', 'hotel pan', '4 in'], ['Ninth Pan', 'hotel pan', '4 in'], ['Cambro 22 qt', 'storage', '22 qt'],
+  ['Cambro 8 qt', 'storage', '8 qt'], ['Deli Cup', 'deli', '32 oz'], ['Deli Cup Small', 'deli', '16 oz'],
+  ['Sheet Tray', 'sheet pan', 'full'], ['Half Sheet Tray', 'sheet pan', 'half'], ['Lexan Bin', 'storage', '12 qt'],
+  ['Squeeze Bottle', 'bottle', '16 oz'], ['Bain Marie', 'insert', '4 qt']
+];
+
+const EVENT_HOSTS = ['Alvarez', 'Chen', 'Okafor', 'Nguyen', 'Schmidt', 'Patel', "O'Brien", 'Kowalski', 'Haddad', 'Rossi', 'Tanaka', 'Johansson'];
+const EVENT_KINDS = ['Wedding', 'Rehearsal Dinner', 'Corporate Lunch', 'Gala', 'Birthday Party', 'Retirement Dinner', 'Product Launch', 'Holiday Party', 'Charity Brunch', 'Anniversary'];
+const COMPANY_NAMES = ['Copper Pot Catering', 'Salt & Ember Kitchen', 'Greenleaf Events', 'Harbor Table Co.', 'Juniper Provisions', 'Northside Banquets'];
+const FIRST_NAMES = ['Sam', 'Priya', 'Diego', 'Mei', 'Jordan', 'Amara', 'Luca', 'Noor', 'Tomás', 'Hana', 'Eli', 'Zainab'];
+const LAST_NAMES = ['Rivera', 'Kim', 'Mensah', 'Dubois', 'Silva', 'Ivanova', 'Brooks', 'Yamamoto', 'Farah', 'Lindqvist'];
+const ROLES: InviteRole[] = ['admin', 'chef', 'chef', 'staff', 'staff', 'staff'];
+
+function isoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 86_400_000);
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '.').replace(/^\.|\.$/g, '');
+}
+
+function dishNames(pick: Picker, count: number): string[] {
+  const names = new Set<string>();
+  const all = DISH_STYLES.length * DISH_MAINS.length * DISH_SIDES.length + EXTRA_DISHES.length;
+  while (names.size < Math.min(count, all)) {
+    names.add(pick.chance(0.1)
+      ? pick.one(EXTRA_DISHES)
+      : `${pick.one(DISH_STYLES)} ${pick.one(DISH_MAINS)} with ${pick.one(DISH_SIDES)}`);
+  }
+  // Past the combinations, numbered variations keep names unique
+  const list = [...names];
+  for (let variation = 2; list.length < count; variation++) {
+    list.push(...[...names].slice(0, count - list.length).map(name => `${name} No. ${variation}`));
+  }
+  return list;
+}
+
+function recipe(pick: Picker, name: string, containers: Container[]): Recipe {
+  const ingredients: Ingredient[] = pick.some(INGREDIENTS, 5, 10).map(([item, unit, min, max]) => {
+    // Nearest quarter, as a cook would write it
+    const quantity = Math.max(0.25, Math.round((min + pick.random() * (max - min)) * 4) / 4);
+    const ingredient: Ingredient = { quantity, unit, item };
+    if (pick.chance(0.3)) ingredient.prepNote = pick.one(PREP_NOTES);
+    if (containers.length > 0 && pick.chance(0.2)) ingredient.containerId = pick.one(containers).id;
+    return ingredient;
+  });
+  const [a, b, c] = [0, 1, 2].map(index => ingredients[index % ingredients.length].item);
+  const prepTime = pick.int(1, 12) * 5;
+  const cookTime = pick.int(0, 24) * 5;
+
+  return {
+    id: pick.uuid(),
+    name,
+    description: `House ${name.toLowerCase()}, batched for service.`,
+    ingredients,
+    instructions: pick.some(STEP_TEMPLATES, 3, 6).map(step => step.replace('{a}', a).replace('{b}', b).replace('{c}', c)),
+    yield: `Serves ${pick.int(2, 12) * 2}`,
+    prepTime,
+    cookTime,
+    totalTime: prepTime + cookTime,
+    difficulty: pick.one(['Easy', 'Medium', 'Hard'] as const),
+    tags: pick.some(TAGS, 0, 3)
+  };
+}
+
+function company(pick: Picker, index: number, volume: SeedVolume, usersPerCompany: number, middle: Date): SeedCompany {
+  const name = COMPANY_NAMES[index % COMPANY_NAMES.length] + (index >= COMPANY_NAMES.length ? ` ${Math.floor(index / COMPANY_NAMES.length) + 1}` : '');
+  const users: SeedUser[] = Array.from({ length: usersPerCompany }, (_, position) => {
+    const first = pick.one(FIRST_NAMES);
+    const last = pick.one(LAST_NAMES);
+    return {
+      name: `${first} ${last}`,
+      // Reserved domain, so invites never reach a real inbox
+      email: `${slug(first)}.${slug(last)}.${index + 1}${position + 1}@example.com`,
+      role: ROLES[position % ROLES.length]
+    };
+  });
+
+  const containers: Container[] = Array.from({ length: volume.containers }, (_, position) => {
+    const [base, type, size] = CONTAINER_FIXTURES[position % CONTAINER_FIXTURES.length];
+    const round = Math.floor(position / CONTAINER_FIXTURES.length);
+    return { id: pick.uuid(), name: round ? `${base} #${round + 1}` : base, type, size };
+  });
+
+  const recipes = dishNames(pick, volume.recipes).map(dish => recipe(pick, dish, containers));
+
+  const methods: Method[] = Array.from({ length: volume.methods }, (_, position) => {
+    const fixture = METHOD_FIXTURES[position % METHOD_FIXTURES.length];
+    const round = Math.floor(position / METHOD_FIXTURES.length);
+    return {
+      ...fixture,
+      id: pick.uuid(),
+      name: round ? `${fixture.name} (Variation ${round + 1})` : fixture.name,
+      description: `Station standard for ${fixture.name.toLowerCase()}.`,
+      estimatedTime: pick.int(1, 12) * 5,
+      difficultyLevel: pick.one(['Beginner', 'Intermediate', 'Advanced'] as const),
+      tags: [fixture.category!.toLowerCase()]
+    };
+  });
+
+  const events: Event[] = [];
+  const eventRecipes: EventRecipe[] = [];
+  const prepLists: PrepList[] = [];
+  const totalEvents = Math.round(volume.eventYears * 52 * volume.eventsPerWeek);
+  const spanDays = Math.round(volume.eventYears * 365);
+  const first = addDays(middle, -Math.floor(spanDays / 2));
+
+  for (let position = 0; position < totalEvents && recipes.length > 0; position++) {
+    const date = addDays(first, Math.floor((position / Math.max(totalEvents, 1)) * spanDays) + pick.int(0, 1));
+    const daysAway = Math.round((date.getTime() - middle.getTime()) / 86_400_000);
+    const status: Event['status'] = daysAway < 0 ? 'complete' : daysAway === 0 ? 'active' : daysAway <= 14 ? 'prep' : 'planning';
+    const totalServings = pick.int(2, 30) * 10;
+    const eventId = pick.uuid();
+
+    const links = pick.some(recipes, 2, 5).map((linked, sortOrder): EventRecipe => ({
+      id: pick.uuid(),
+      eventId,
+      recipeId: linked.id,
+      servings: Math.max(1, Math.round(totalServings * (0.3 + pick.random() * 0.7))),
+      sortOrder
+    }));
+    const prepItems = buildEventPrepItems(eventId, links, recipes).map(item => ({
+      ...item,
+      completed: status === 'complete' || (status !== 'planning' && pick.chance(0.4)),
+      assignedTo: users.length > 0 && pick.chance(0.7) ? pick.one(users).name : undefined
+    }));
+
+    const event: Event = {
+      id: eventId,
+      name: `${pick.one(EVENT_HOSTS)} ${pick.one(EVENT_KINDS)}`,
+      date: isoDate(date),
+      invoiceNumber: `INV-${isoDate(date).replace(/-/g, '')}-${String(position + 1).padStart(4, '0')}`,
+      status,
+      totalServings,
+      prepItems
+    };
+    events.push(event);
+    eventRecipes.push(...links);
+
+    if (status === 'prep' || status === 'active') {
+      prepLists.push({ id: pick.uuid(), name: `${event.name} Prep`, items: prepItems, event_id: eventId });
+    }
+  }
+
+  for (let position = 0; position < volume.prepLists; position++) {
+    const items = pick.some(INGREDIENTS, 4, 9).map(([item, unit, min, max]) => ({
+      id: pick.uuid(),
+      name: item,
+      quantity: formatQuantity(min + pick.random() * (max - min)),
+      unit: unit || 'each',
+      completed: pick.chance(0.3),
+      assignedTo: users.length > 0 ? pick.one(users).name : undefined
+    }));
+    prepLists.push({ id: pick.uuid(), name: `${pick.one(['Morning', 'Afternoon', 'Weekend', 'Family Meal'])} Prep ${position + 1}`, items });
+  }
+
+  return { name, users, containers, recipes, methods, events, eventRecipes, prepLists };
+}
+
+// e.g. generateSeedData({ seed: 42, recipes: 500, eventYears: 2 })
+export function generateSeedData(options: SeedOptions = {}): SeedData {
+  const seed = String(options.seed ?? 1);
+  const volume: SeedVolume = { ...DEFAULT_SEED_VOLUME };
+  for (const key of Object.keys(volume) as (keyof SeedVolume)[]) {
+    const value = options[key];
+    if (value !== undefined) volume[key] = Math.max(0, value);
+  }
+
+  const batch = options.batch || new Picker(createRandom(`${seed}:batch`)).uuid();
+  // Ids follow the batch, so another batch from the same seed does not clash
+  const pick = new Picker(createRandom(`${seed}:${batch}`));
+  const middle = options.startDate ? new Date(`${options.startDate}T00:00:00Z`) : new Date(`${isoDate(new Date())}T00:00:00Z`);
+
+  const tag = <T extends { seed_batch?: string | null }>(rows: T[]): T[] => rows.map(row => ({ ...row, seed_batch: batch }));
+  const companies = Array.from({ length: Math.max(1, options.companies ?? 1) }, (_, index) => {
+    const generated = company(pick, index, volume, Math.max(0, options.usersPerCompany ?? 4), middle);
+    return {
+      ...generated,
+      containers: tag(generated.containers),
+      recipes: tag(generated.recipes),
+      methods: tag(generated.methods),
+      events: tag(generated.events),
+      eventRecipes: tag(generated.eventRecipes),
+      prepLists: tag(generated.prepLists)
+    };
+  });
+  return { seed, batch, companies };
+}
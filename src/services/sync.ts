@@ -0,0 +1,478 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import { ConflictError, DatabaseErrorOptions, NetworkError, isNetworkFailure, withStatus } from './errors';
+import {
+  CACHED_TABLES,
+  CachedRow,
+  CachedTable,
+  LocalStore,
+  QueuedOperation,
+  createLocalStore
+} from './localStore';
+
+// Replays run against tables chosen at runtime
+const db = supabase as unknown as SupabaseClient;
+
+const MIN_RETRY_MS = 5_000;
+const MAX_RETRY_MS = 60_000;
+const MAX_CONFLICT_HISTORY = 20;
+// Server-maintained columns never sent back on replay
+const READ_ONLY_COLUMNS = ['created_at', 'updated_at', 'deleted_at', 'search_vector'];
+
+// Thrown when the database cannot be reached at all
+export class OfflineError extends NetworkError {
+  constructor(message = 'Database connection not available', options: DatabaseErrorOptions = {}) {
+    super(message, options);
+  }
+}
+
+// fetch() failures surface as TypeErrors, or as PostgREST errors wrapping their
+// message; NetworkErrors (including OfflineError) already say so
+export function isNetworkError(error: unknown): boolean {
+  return Boolean(error) && isNetworkFailure(error);
+}
+
+export function isCachedTable(table: string): table is CachedTable {
+  return (CACHED_TABLES as string[]).includes(table);
+}
+
+export interface SyncConflict {
+  table: CachedTable;
+  id: string;
+  kind: QueuedOperation['kind'];
+  // Row the queued write would push; null for deletes
+  local: CachedRow | null;
+  // Current server row; null when it was deleted there
+  server: CachedRow | null;
+  baseUpdatedAt: string | null;
+  queuedAt: string;
+}
+
+// Keep the queued write, keep the server row, or push a merged row
+export type ConflictResolution = 'local' | 'server' | { merged: CachedRow };
+
+export type ConflictResolver = (conflict: SyncConflict) => ConflictResolution | Promise<ConflictResolution>;
+
+export const conflictResolvers: Record<'serverWins' | 'clientWins' | 'lastWriteWins', ConflictResolver> = {
+  serverWins: () => 'server',
+  clientWins: () => 'local',
+  // Whichever change happened later wins; a server-side delete counts as older
+  lastWriteWins: conflict => {
+    const serverTime = Date.parse(conflict.server?.updated_at || '');
+    return !conflict.server || !(serverTime > Date.parse(conflict.queuedAt)) ? 'local' : 'server';
+  }
+};
+
+export interface ResolvedConflict extends SyncConflict {
+  resolution: 'local' | 'server' | 'merged';
+  resolvedAt: string;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  // Queued writes waiting to be replayed
+  pending: number;
+  // Writes the server rejected; see retryFailed / discardFailed
+  failed: number;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  // Most recent conflicts, newest first
+  conflicts: ResolvedConflict[];
+}
+
+export type SyncListener = (status: SyncStatus) => void;
+
+// Local cache plus an ordered write queue that replays once the server is reachable
+export class SyncManager {
+  private store: LocalStore = createLocalStore('anonymous');
+  private namespace = 'anonymous';
+  private online = typeof navigator === 'undefined' || navigator.onLine !== false;
+  private running: Promise<void> | null = null;
+  // Queue entry being sent right now; later writes must not merge into it
+  private replayingSeq: number | null = null;
+  private pending = 0;
+  private failed = 0;
+  private lastSyncedAt: string | null = null;
+  private lastError: string | null = null;
+  private conflicts: ResolvedConflict[] = [];
+  private listeners = new Set<SyncListener>();
+  private resolver: ConflictResolver = conflictResolvers.lastWriteWins;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = MIN_RETRY_MS;
+  private started = false;
+
+  // Follows the browser's online/offline events
+  start(): void {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+
+    window.addEventListener('online', () => {
+      this.retryDelay = MIN_RETRY_MS;
+      this.setOnline(true);
+      void this.sync();
+    });
+    window.addEventListener('offline', () => this.goOffline('Browser reported the network as offline'));
+  }
+
+  // Switches to the cache and queue of another user
+  async useNamespace(namespace: string): Promise<void> {
+    if (namespace === this.namespace) return;
+    this.namespace = namespace;
+    this.store = createLocalStore(namespace);
+    this.conflicts = [];
+    this.lastSyncedAt = await this.store.getMeta<string>('lastSyncedAt').catch(() => null);
+    await this.refreshCounts();
+    if (this.online && this.pending > 0) void this.sync();
+  }
+
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  hasPending(): boolean {
+    return this.pending > 0;
+  }
+
+  // Returns true (and goes offline) when the error means the server is unreachable
+  handleFailure(error: unknown): boolean {
+    if (!isNetworkError(error)) return false;
+    this.goOffline((error as Error).message);
+    return true;
+  }
+
+  setResolver(resolver: ConflictResolver): void {
+    this.resolver = resolver;
+  }
+
+  getStatus(): SyncStatus {
+    return {
+      online: this.online,
+      syncing: this.running !== null,
+      pending: this.pending,
+      failed: this.failed,
+      lastSyncedAt: this.lastSyncedAt,
+      lastError: this.lastError,
+      conflicts: [...this.conflicts]
+    };
+  }
+
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getStatus());
+    return () => this.listeners.delete(listener);
+  }
+
+  // Small per-user values (profile, roles) needed to keep working offline
+  async remember(key: string, value: unknown): Promise<void> {
+    await this.store.setMeta(key, value).catch(() => undefined);
+  }
+
+  async recall<T>(key: string): Promise<T | null> {
+    return this.store.getMeta<T>(key).catch(() => null);
+  }
+
+  // Cache reads fall back to nothing rather than failing the caller
+  async cachedRows(table: CachedTable): Promise<CachedRow[]> {
+    return this.store.getAll(table).catch(error => {
+      console.warn(`[SyncManager] Cache read failed for ${table}:`, error);
+      return [];
+    });
+  }
+
+  async cachedRow(table: CachedTable, id: string): Promise<CachedRow | null> {
+    return this.store.get(table, id).catch(() => null);
+  }
+
+  async cacheRows(table: CachedTable, rows: CachedRow[], options: { replace?: boolean } = {}): Promise<void> {
+    try {
+      // Rows with queued writes keep their local version until replayed
+      const queued = new Set((await this.store.listQueue()).filter(op => op.table === table).map(op => op.id));
+      const fresh = rows.filter(row => !queued.has(row.id));
+      if (options.replace) {
+        const kept = (await this.store.getAll(table)).filter(row => queued.has(row.id));
+        await this.store.replace(table, [...fresh, ...kept]);
+      } else {
+        await this.store.put(table, fresh);
+      }
+    } catch (error) {
+      console.warn(`[SyncManager] Cache write failed for ${table}:`, error);
+    }
+  }
+
+  async uncache(table: CachedTable, ids: string[]): Promise<void> {
+    await this.store.remove(table, ids).catch(error => console.warn(`[SyncManager] Cache delete failed for ${table}:`, error));
+  }
+
+  // Applies a save locally and queues it; returns the row as now cached.
+  // A baseUpdatedAt is required of the server row on replay (null: the row
+  // must not exist yet); the write fails with a ConflictError otherwise.
+  async enqueueSave(table: CachedTable, row: CachedRow, baseUpdatedAt?: string | null): Promise<CachedRow> {
+    const cached = await this.store.get(table, row.id);
+    const merged = { ...(cached || {}), ...row } as CachedRow;
+    await this.store.put(table, [merged]);
+    const required = baseUpdatedAt !== undefined;
+    await this.queueWrite(table, row.id, 'save', row, required ? baseUpdatedAt : cached?.updated_at ?? null, required);
+    return merged;
+  }
+
+  async enqueueDelete(table: CachedTable, id: string): Promise<void> {
+    const cached = await this.store.get(table, id);
+    await this.store.remove(table, [id]);
+    await this.queueWrite(table, id, 'delete', undefined, cached?.updated_at ?? null);
+  }
+
+  // Later writes to a row replace its queued write in place, keeping the
+  // original base version and queue position. One already being replayed is
+  // left alone; the new write queues behind it.
+  private async queueWrite(
+    table: CachedTable,
+    id: string,
+    kind: QueuedOperation['kind'],
+    row: CachedRow | undefined,
+    baseUpdatedAt: string | null,
+    requireBase = false
+  ): Promise<void> {
+    const queuedAt = new Date().toISOString();
+    const existing = (await this.store.listQueue()).find(op =>
+      op.table === table && op.id === id && op.status === 'pending' && op.seq !== this.replayingSeq
+    );
+
+    if (existing) {
+      await this.store.updateQueued({ ...existing, kind, row, queuedAt, requireBase: existing.requireBase || requireBase });
+    } else {
+      await this.store.enqueue({
+        table,
+        kind,
+        id,
+        row,
+        baseUpdatedAt,
+        requireBase,
+        queuedAt,
+        attempts: 0,
+        status: 'pending'
+      });
+      this.pending++;
+    }
+
+    this.emit();
+    if (this.online) void this.sync();
+  }
+
+  // Replays queued writes in order; stops at the first network failure
+  sync(): Promise<void> {
+    if (!this.running) {
+      this.running = this.replayQueue().finally(() => {
+        this.running = null;
+        this.emit();
+      });
+      this.emit();
+    }
+    return this.running;
+  }
+
+  // Passes over the queue until nothing new is pending, so writes queued
+  // during a replay are sent by the same sync
+  private async replayQueue(): Promise<void> {
+    const attempted = new Set<number>();
+
+    for (;;) {
+      const queue = (await this.store.listQueue()).filter(op => op.status === 'pending' && !attempted.has(op.seq));
+      if (queue.length === 0) break;
+
+      for (const operation of queue) {
+        attempted.add(operation.seq);
+        this.replayingSeq = operation.seq;
+        try {
+          const applied = await this.replay(operation);
+          await this.store.dequeue(operation.seq);
+          await this.settleFollowing(operation, applied);
+        } catch (error: any) {
+          if (this.handleFailure(error)) return;
+
+          // The server refused this write; set it aside and keep going
+          await this.store.updateQueued({
+            ...operation,
+            status: 'failed',
+            attempts: operation.attempts + 1,
+            lastError: error.message || String(error)
+          });
+          this.lastError = `${operation.table}/${operation.id}: ${error.message || error}`;
+          console.warn(`[SyncManager] Queued ${operation.kind} of ${operation.table}/${operation.id} failed:`, error);
+        } finally {
+          this.replayingSeq = null;
+          await this.refreshCounts();
+        }
+      }
+    }
+
+    this.setOnline(true);
+    this.lastSyncedAt = new Date().toISOString();
+    await this.store.setMeta('lastSyncedAt', this.lastSyncedAt).catch(() => undefined);
+  }
+
+  // Writes queued behind the one just replayed were made on top of it. If it
+  // reached the server their base moves to the saved version, so they do not
+  // conflict with our own change; either way the cache goes back to showing
+  // them rather than the replayed row.
+  private async settleFollowing(operation: QueuedOperation, applied: boolean): Promise<void> {
+    const current = await this.store.get(operation.table, operation.id);
+    for (const next of await this.store.listQueue()) {
+      if (next.table !== operation.table || next.id !== operation.id || next.status !== 'pending') continue;
+      const baseUpdatedAt = applied && next.baseUpdatedAt === operation.baseUpdatedAt
+        ? current?.updated_at ?? null
+        : next.baseUpdatedAt;
+      await this.store.updateQueued({ ...next, baseUpdatedAt });
+      if (next.kind === 'delete') await this.uncache(operation.table, [operation.id]);
+      else await this.store.put(operation.table, [{ ...(current || {}), ...next.row! } as CachedRow]);
+    }
+  }
+
+  // Resolves true when the queued write (or a merge of it) reached the server
+  private async replay(operation: QueuedOperation): Promise<boolean> {
+    const { data: server, error, status } = await db.from(operation.table).select('*').eq('id', operation.id).maybeSingle();
+    if (error) throw withStatus(error, status);
+
+    if (operation.kind === 'delete' && !server) {
+      await this.uncache(operation.table, [operation.id]);
+      return true;
+    }
+
+    const changedOnServer = server
+      ? server.updated_at !== operation.baseUpdatedAt
+      : operation.baseUpdatedAt !== null;
+
+    if (changedOnServer && operation.requireBase) {
+      throw new ConflictError<CachedRow>(`${operation.table} row ${operation.id} was ${server ? 'changed' : 'deleted'} by someone else`, {
+        operation: `${operation.table}.save`,
+        table: operation.table,
+        server: server || null,
+        local: operation.row || null
+      });
+    }
+
+    let resolution: ConflictResolution = 'local';
+    if (changedOnServer) {
+      const conflict: SyncConflict = {
+        table: operation.table,
+        id: operation.id,
+        kind: operation.kind,
+        local: operation.row || null,
+        server: server || null,
+        baseUpdatedAt: operation.baseUpdatedAt,
+        queuedAt: operation.queuedAt
+      };
+      resolution = await this.resolver(conflict);
+      this.recordConflict(conflict, resolution);
+    }
+
+    if (resolution === 'server') {
+      if (server) await this.store.put(operation.table, [server]);
+      else await this.uncache(operation.table, [operation.id]);
+      return false;
+    }
+
+    if (operation.kind === 'delete' && resolution === 'local') {
+      const { error: deleteError, status: deleteStatus } = await db.from(operation.table).delete().eq('id', operation.id);
+      if (deleteError) throw withStatus(deleteError, deleteStatus);
+      await this.uncache(operation.table, [operation.id]);
+      return true;
+    }
+
+    const row = typeof resolution === 'object' ? resolution.merged : operation.row!;
+    const { data: saved, error: saveError, status: saveStatus } = await db
+      .from(operation.table)
+      .upsert(writableColumns(row, operation.row), { onConflict: 'id' })
+      .select()
+      .single();
+    if (saveError) throw withStatus(saveError, saveStatus);
+    await this.store.put(operation.table, [saved]);
+    return true;
+  }
+
+  // Puts rejected writes back in the queue
+  async retryFailed(): Promise<void> {
+    for (const operation of await this.store.listQueue()) {
+      if (operation.status === 'failed') {
+        await this.store.updateQueued({ ...operation, status: 'pending' });
+      }
+    }
+    await this.refreshCounts();
+    if (this.online) await this.sync();
+  }
+
+  // Drops rejected writes; the next load replaces their cached rows
+  async discardFailed(): Promise<void> {
+    for (const operation of await this.store.listQueue()) {
+      if (operation.status === 'failed') await this.store.dequeue(operation.seq);
+    }
+    await this.refreshCounts();
+  }
+
+  private recordConflict(conflict: SyncConflict, resolution: ConflictResolution): void {
+    const resolved: ResolvedConflict = {
+      ...conflict,
+      resolution: typeof resolution === 'object' ? 'merged' : resolution,
+      resolvedAt: new Date().toISOString()
+    };
+    this.conflicts = [resolved, ...this.conflicts].slice(0, MAX_CONFLICT_HISTORY);
+  }
+
+  private async refreshCounts(): Promise<void> {
+    const queue = await this.store.listQueue().catch(() => [] as QueuedOperation[]);
+    this.pending = queue.filter(op => op.status === 'pending').length;
+    this.failed = queue.length - this.pending;
+    this.emit();
+  }
+
+  private goOffline(reason: string): void {
+    this.lastError = reason;
+    this.setOnline(false);
+    this.scheduleProbe();
+  }
+
+  private setOnline(online: boolean): void {
+    if (online && this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.online === online) return;
+    this.online = online;
+    if (online) this.lastError = null;
+    this.emit();
+  }
+
+  // Polls with backoff until the server answers again, then replays the queue
+  private scheduleProbe(): void {
+    if (this.retryTimer) return;
+    this.retryTimer = setTimeout(async () => {
+      this.retryTimer = null;
+      const { error } = await db.from('prep_lists').select('id', { head: true }).limit(1);
+      if (error && isNetworkError(error)) {
+        this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_MS);
+        this.scheduleProbe();
+        return;
+      }
+      this.retryDelay = MIN_RETRY_MS;
+      this.setOnline(true);
+      void this.sync();
+    }, this.retryDelay);
+  }
+
+  private emit(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('[SyncManager] Status listener failed:', error);
+      }
+    });
+  }
+}
+
+// Only the columns the original write would have sent
+function writableColumns(row: CachedRow, template?: CachedRow): Record<string, unknown> {
+  const keys = Object.keys(template || row).filter(key => !READ_ONLY_COLUMNS.includes(key));
+  return Object.fromEntries(keys.filter(key => key in row).map(key => [key, row[key]]));
+}
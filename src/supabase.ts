@@ -1,6 +1,7 @@
 import { createClient } from "@supabase/supabase-js";
+import type { Database } from "./types/database";
 
-export const supabase = createClient(
+export const supabase = createClient<Database>(
   import.meta.env.VITE_SUPABASE_URL as string,
   import.meta.env.VITE_SUPABASE_ANON_KEY as string,
   {
@@ -12,6 +13,23 @@ export const supabase = createClient(
   }
 );
 
+// Extra clients that keep their session in memory, so several users can be
+// signed in side by side (e.g. the RLS scenario harness)
+export function createIsolatedClient(storageKey: string) {
+  return createClient<Database>(
+    import.meta.env.VITE_SUPABASE_URL as string,
+    import.meta.env.VITE_SUPABASE_ANON_KEY as string,
+    {
+      auth: {
+        storageKey,
+        persistSession: false,
+        autoRefreshToken: false,
+        detectSessionInUrl: false,
+      },
+    }
+  );
+}
+
 // Dev debug helper
 if (typeof window !== "undefined") {
   (window as any).__SUPABASE_DEBUG__ = {
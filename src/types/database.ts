@@ -0,0 +1,740 @@
+// This file is generated by scripts/generate-database-types.mjs from
+// supabase/migrations. Do not edit by hand: run `npm run generate:types`.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      audit_log: {
+        Row: {
+          actor_email: string | null
+          actor_id: string | null
+          changed_at: string
+          company_id: string | null
+          id: number
+          new_values: Json | null
+          old_values: Json | null
+          operation: "INSERT" | "UPDATE" | "DELETE" | "RESTORE" | "REVERT" | "PURGE"
+          owner_id: string | null
+          record_id: string
+          reverted_to: number | null
+          table_name: "prep_lists" | "events" | "event_recipes" | "recipes" | "methods" | "containers"
+          version: number
+        }
+        Insert: {
+          actor_email?: string | null
+          actor_id?: string | null
+          changed_at?: string
+          company_id?: string | null
+          id?: number
+          new_values?: Json | null
+          old_values?: Json | null
+          operation: "INSERT" | "UPDATE" | "DELETE" | "RESTORE" | "REVERT" | "PURGE"
+          owner_id?: string | null
+          record_id: string
+          reverted_to?: number | null
+          table_name: "prep_lists" | "events" | "event_recipes" | "recipes" | "methods" | "containers"
+          version: number
+        }
+        Update: {
+          actor_email?: string | null
+          actor_id?: string | null
+          changed_at?: string
+          company_id?: string | null
+          id?: number
+          new_values?: Json | null
+          old_values?: Json | null
+          operation?: "INSERT" | "UPDATE" | "DELETE" | "RESTORE" | "REVERT" | "PURGE"
+          owner_id?: string | null
+          record_id?: string
+          reverted_to?: number | null
+          table_name?: "prep_lists" | "events" | "event_recipes" | "recipes" | "methods" | "containers"
+          version?: number
+        }
+        Relationships: []
+      }
+      companies: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          name: string
+          seed_batch: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name: string
+          seed_batch?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name?: string
+          seed_batch?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      company_employees: {
+        Row: {
+          auth_user_id: string
+          company_id: string
+          created_at: string | null
+          id: string
+          invited_by: string | null
+          role: "owner" | "admin" | "chef" | "staff"
+          updated_at: string | null
+        }
+        Insert: {
+          auth_user_id: string
+          company_id: string
+          created_at?: string | null
+          id?: string
+          invited_by?: string | null
+          role?: "owner" | "admin" | "chef" | "staff"
+          updated_at?: string | null
+        }
+        Update: {
+          auth_user_id?: string
+          company_id?: string
+          created_at?: string | null
+          id?: string
+          invited_by?: string | null
+          role?: "owner" | "admin" | "chef" | "staff"
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      company_invites: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          company_id: string
+          created_at: string | null
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          role: "admin" | "chef" | "staff"
+          seed_batch: string | null
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          company_id: string
+          created_at?: string | null
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          role?: "admin" | "chef" | "staff"
+          seed_batch?: string | null
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          company_id?: string
+          created_at?: string | null
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          role?: "admin" | "chef" | "staff"
+          seed_batch?: string | null
+          token?: string
+        }
+        Relationships: []
+      }
+      containers: {
+        Row: {
+          company_id: string | null
+          created_at: string | null
+          deleted_at: string | null
+          description: string | null
+          id: string
+          name: string
+          seed_batch: string | null
+          size: string | null
+          type: string
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string | null
+          deleted_at?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          seed_batch?: string | null
+          size?: string | null
+          type: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string | null
+          deleted_at?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          seed_batch?: string | null
+          size?: string | null
+          type?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      event_recipes: {
+        Row: {
+          company_id: string | null
+          created_at: string | null
+          deleted_at: string | null
+          event_id: string
+          id: string
+          notes: string | null
+          recipe_id: string
+          seed_batch: string | null
+          servings: number
+          sort_order: number | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string | null
+          deleted_at?: string | null
+          event_id: string
+          id?: string
+          notes?: string | null
+          recipe_id: string
+          seed_batch?: string | null
+          servings: number
+          sort_order?: number | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string | null
+          deleted_at?: string | null
+          event_id?: string
+          id?: string
+          notes?: string | null
+          recipe_id?: string
+          seed_batch?: string | null
+          servings?: number
+          sort_order?: number | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      events: {
+        Row: {
+          company_id: string | null
+          created_at: string | null
+          date: string
+          deleted_at: string | null
+          id: string
+          invoice_number: string | null
+          name: string
+          prep_items: Json | null
+          seed_batch: string | null
+          status: "planning" | "prep" | "active" | "complete" | null
+          total_servings: number | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string | null
+          date: string
+          deleted_at?: string | null
+          id?: string
+          invoice_number?: string | null
+          name: string
+          prep_items?: Json | null
+          seed_batch?: string | null
+          status?: "planning" | "prep" | "active" | "complete" | null
+          total_servings?: number | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string | null
+          date?: string
+          deleted_at?: string | null
+          id?: string
+          invoice_number?: string | null
+          name?: string
+          prep_items?: Json | null
+          seed_batch?: string | null
+          status?: "planning" | "prep" | "active" | "complete" | null
+          total_servings?: number | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      methods: {
+        Row: {
+          category: string | null
+          company_id: string | null
+          created_at: string | null
+          deleted_at: string | null
+          description: string | null
+          difficulty_level: "Beginner" | "Intermediate" | "Advanced" | null
+          equipment: Json | null
+          estimated_time: number | null
+          id: string
+          instructions: Json | null
+          name: string
+          search_vector: unknown | null
+          seed_batch: string | null
+          tags: Json | null
+          tips: Json | null
+          updated_at: string | null
+          user_id: string | null
+          video_url: string | null
+        }
+        Insert: {
+          category?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          deleted_at?: string | null
+          description?: string | null
+          difficulty_level?: "Beginner" | "Intermediate" | "Advanced" | null
+          equipment?: Json | null
+          estimated_time?: number | null
+          id?: string
+          instructions?: Json | null
+          name: string
+          seed_batch?: string | null
+          tags?: Json | null
+          tips?: Json | null
+          updated_at?: string | null
+          user_id?: string | null
+          video_url?: string | null
+        }
+        Update: {
+          category?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          deleted_at?: string | null
+          description?: string | null
+          difficulty_level?: "Beginner" | "Intermediate" | "Advanced" | null
+          equipment?: Json | null
+          estimated_time?: number | null
+          id?: string
+          instructions?: Json | null
+          name?: string
+          seed_batch?: string | null
+          tags?: Json | null
+          tips?: Json | null
+          updated_at?: string | null
+          user_id?: string | null
+          video_url?: string | null
+        }
+        Relationships: []
+      }
+      prep_lists: {
+        Row: {
+          company_id: string | null
+          created_at: string | null
+          deleted_at: string | null
+          event_id: string | null
+          id: string
+          item_version: number
+          items: Json | null
+          name: string
+          seed_batch: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string | null
+          deleted_at?: string | null
+          event_id?: string | null
+          id?: string
+          item_version?: number
+          items?: Json | null
+          name: string
+          seed_batch?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string | null
+          deleted_at?: string | null
+          event_id?: string | null
+          id?: string
+          item_version?: number
+          items?: Json | null
+          name?: string
+          seed_batch?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      recipes: {
+        Row: {
+          company_id: string | null
+          cook_time: number | null
+          created_at: string | null
+          deleted_at: string | null
+          description: string | null
+          difficulty: "Easy" | "Medium" | "Hard" | null
+          id: string
+          image: string | null
+          ingredients: Json | null
+          instructions: Json | null
+          name: string
+          notes: string | null
+          prep_time: number | null
+          search_vector: unknown | null
+          seed_batch: string | null
+          tags: Json | null
+          total_time: number | null
+          updated_at: string | null
+          user_id: string | null
+          yield: string | null
+        }
+        Insert: {
+          company_id?: string | null
+          cook_time?: number | null
+          created_at?: string | null
+          deleted_at?: string | null
+          description?: string | null
+          difficulty?: "Easy" | "Medium" | "Hard" | null
+          id?: string
+          image?: string | null
+          ingredients?: Json | null
+          instructions?: Json | null
+          name: string
+          notes?: string | null
+          prep_time?: number | null
+          seed_batch?: string | null
+          tags?: Json | null
+          total_time?: number | null
+          updated_at?: string | null
+          user_id?: string | null
+          yield?: string | null
+        }
+        Update: {
+          company_id?: string | null
+          cook_time?: number | null
+          created_at?: string | null
+          deleted_at?: string | null
+          description?: string | null
+          difficulty?: "Easy" | "Medium" | "Hard" | null
+          id?: string
+          image?: string | null
+          ingredients?: Json | null
+          instructions?: Json | null
+          name?: string
+          notes?: string | null
+          prep_time?: number | null
+          seed_batch?: string | null
+          tags?: Json | null
+          total_time?: number | null
+          updated_at?: string | null
+          user_id?: string | null
+          yield?: string | null
+        }
+        Relationships: []
+      }
+      role_permissions: {
+        Row: {
+          action: "view" | "save" | "delete" | "complete"
+          role: "owner" | "admin" | "chef" | "staff"
+          table_name: string
+        }
+        Insert: {
+          action: "view" | "save" | "delete" | "complete"
+          role: "owner" | "admin" | "chef" | "staff"
+          table_name: string
+        }
+        Update: {
+          action?: "view" | "save" | "delete" | "complete"
+          role?: "owner" | "admin" | "chef" | "staff"
+          table_name?: string
+        }
+        Relationships: []
+      }
+      user_profiles: {
+        Row: {
+          avatar_url: string | null
+          company_id: string | null
+          created_at: string | null
+          email: string
+          full_name: string | null
+          id: string
+          role: "user" | "admin" | "owner" | null
+          updated_at: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          email: string
+          full_name?: string | null
+          id: string
+          role?: "user" | "admin" | "owner" | null
+          updated_at?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          email?: string
+          full_name?: string | null
+          id?: string
+          role?: "user" | "admin" | "owner" | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      accept_company_invite: {
+        Args: {
+          invite_token: string
+        }
+        Returns: string
+      }
+      apply_prep_item_op: {
+        Args: {
+          target_list: string
+          op: Json
+          op_id?: string
+        }
+        Returns: Json
+      }
+      company_presence_topic_member: {
+        Args: {
+          topic: string
+        }
+        Returns: boolean
+      }
+      company_role: {
+        Args: {
+          target_company: string
+        }
+        Returns: string
+      }
+      create_company: {
+        Args: {
+          company_name: string
+        }
+        Returns: string
+      }
+      delete_seed_batch: {
+        Args: {
+          batch: string
+        }
+        Returns: {
+          table_name: string
+          deleted: number
+        }[]
+      }
+      find_taken_ids: {
+        Args: {
+          target_table: string
+          target_company: string
+          ids: string[]
+        }
+        Returns: {
+          id: string
+          in_company: boolean
+          trashed: boolean
+        }[]
+      }
+      has_permission: {
+        Args: {
+          permission_table: string
+          permission_action: string
+          target_company: string
+          owner_id?: string
+        }
+        Returns: boolean
+      }
+      import_company_bundle: {
+        Args: {
+          target_company: string
+          restores: Json
+          operations: Json
+        }
+        Returns: Json
+      }
+      ingredient_text: {
+        Args: {
+          entry: Json
+        }
+        Returns: string
+      }
+      is_company_admin: {
+        Args: {
+          target_company: string
+        }
+        Returns: boolean
+      }
+      is_company_member: {
+        Args: {
+          target_company: string
+        }
+        Returns: boolean
+      }
+      list_trash: {
+        Args: {
+          target_table: string
+        }
+        Returns: Json[]
+      }
+      purge_deleted_rows: {
+        Args: {
+          retention?: string
+          target_company?: string
+        }
+        Returns: {
+          table_name: string
+          purged: number
+        }[]
+      }
+      restore_deleted_row: {
+        Args: {
+          target_table: string
+          target_id: string
+        }
+        Returns: Json
+      }
+      revert_to_version: {
+        Args: {
+          target_table: string
+          target_id: string
+          target_version: number
+        }
+        Returns: Json
+      }
+      save_bundle: {
+        Args: {
+          operations: Json
+          atomic?: boolean
+        }
+        Returns: Json
+      }
+      save_seed_bundle: {
+        Args: {
+          batch: string
+          operations: Json
+        }
+        Returns: Json
+      }
+      search_methods: {
+        Args: {
+          search_query?: string
+          tag_filter?: string[]
+          difficulty_filter?: string[]
+          min_estimated_time?: number
+          max_estimated_time?: number
+          result_limit?: number
+          result_offset?: number
+        }
+        Returns: {
+          row_data: Json
+          rank: number
+          name_similarity: number
+          name_highlight: string
+          description_highlight: string
+          matches: Json
+          total_count: number
+        }[]
+      }
+      search_recipes: {
+        Args: {
+          search_query?: string
+          tag_filter?: string[]
+          difficulty_filter?: string[]
+          min_total_time?: number
+          max_total_time?: number
+          result_limit?: number
+          result_offset?: number
+        }
+        Returns: {
+          row_data: Json
+          rank: number
+          name_similarity: number
+          name_highlight: string
+          description_highlight: string
+          matches: Json
+          total_count: number
+        }[]
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type TableName = keyof PublicSchema["Tables"]
+
+export type Tables<T extends TableName> = PublicSchema["Tables"][T]["Row"]
+
+export type TablesInsert<T extends TableName> = PublicSchema["Tables"][T]["Insert"]
+
+export type TablesUpdate<T extends TableName> = PublicSchema["Tables"][T]["Update"]
+
+export interface UnresolvedReference {
+  table: string
+  referencedBy: string
+  file: string
+}
+
+// Runtime snapshot of the migrated schema, used by the drift checks
+export const migrationSchema = {
+  tables: {
+    audit_log: ["actor_email", "actor_id", "changed_at", "company_id", "id", "new_values", "old_values", "operation", "owner_id", "record_id", "reverted_to", "table_name", "version"],
+    companies: ["created_at", "created_by", "id", "name", "seed_batch", "updated_at"],
+    company_employees: ["auth_user_id", "company_id", "created_at", "id", "invited_by", "role", "updated_at"],
+    company_invites: ["accepted_at", "accepted_by", "company_id", "created_at", "email", "expires_at", "id", "invited_by", "role", "seed_batch", "token"],
+    containers: ["company_id", "created_at", "deleted_at", "description", "id", "name", "seed_batch", "size", "type", "updated_at", "user_id"],
+    event_recipes: ["company_id", "created_at", "deleted_at", "event_id", "id", "notes", "recipe_id", "seed_batch", "servings", "sort_order", "updated_at", "user_id"],
+    events: ["company_id", "created_at", "date", "deleted_at", "id", "invoice_number", "name", "prep_items", "seed_batch", "status", "total_servings", "updated_at", "user_id"],
+    methods: ["category", "company_id", "created_at", "deleted_at", "description", "difficulty_level", "equipment", "estimated_time", "id", "instructions", "name", "search_vector", "seed_batch", "tags", "tips", "updated_at", "user_id", "video_url"],
+    prep_lists: ["company_id", "created_at", "deleted_at", "event_id", "id", "item_version", "items", "name", "seed_batch", "updated_at", "user_id"],
+    recipes: ["company_id", "cook_time", "created_at", "deleted_at", "description", "difficulty", "id", "image", "ingredients", "instructions", "name", "notes", "prep_time", "search_vector", "seed_batch", "tags", "total_time", "updated_at", "user_id", "yield"],
+    role_permissions: ["action", "role", "table_name"],
+    user_profiles: ["avatar_url", "company_id", "created_at", "email", "full_name", "id", "role", "updated_at"],
+  },
+  unresolvedReferences: [
+  ] as readonly UnresolvedReference[],
+} as const
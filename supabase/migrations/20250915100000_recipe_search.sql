@@ -0,0 +1,188 @@
+/*
+# Recipe and Method Search
+
+Adds ranked fuzzy and full-text search over recipes and methods.
+
+## Changes
+1. **search_vector columns** - Generated tsvectors over name, description,
+   ingredients/instructions (recipes) and category, instructions, tips (methods)
+2. **Indexes** - GIN on the vectors, trigram index on methods.name
+3. **search_recipes / search_methods** - RPC functions combining trigram name
+   similarity with full-text rank, tag containment, difficulty and time filters,
+   and returning highlighted match info
+
+## Security
+- Functions run as SECURITY INVOKER, so the callers' RLS policies still apply
+*/
+
+-- Full-text vectors kept in sync by Postgres
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(description, '')), 'B') ||
+    setweight(jsonb_to_tsvector('english'::regconfig, coalesce(ingredients, '[]'::jsonb), '["string"]'), 'B') ||
+    setweight(jsonb_to_tsvector('english'::regconfig, coalesce(instructions, '[]'::jsonb), '["string"]'), 'C')
+  ) STORED;
+
+ALTER TABLE methods ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(description, '') || ' ' || coalesce(category, '')), 'B') ||
+    setweight(jsonb_to_tsvector('english'::regconfig, coalesce(instructions, '[]'::jsonb), '["string"]'), 'C') ||
+    setweight(jsonb_to_tsvector('english'::regconfig, coalesce(tips, '[]'::jsonb), '["string"]'), 'D')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_recipes_search_vector ON recipes USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_methods_search_vector ON methods USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_methods_name_gin ON methods USING gin(name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_methods_tags ON methods USING gin(tags);
+
+-- Ranked recipe search
+CREATE OR REPLACE FUNCTION search_recipes(
+  search_query text DEFAULT NULL,
+  tag_filter text[] DEFAULT NULL,
+  difficulty_filter text[] DEFAULT NULL,
+  min_total_time integer DEFAULT NULL,
+  max_total_time integer DEFAULT NULL,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  row_data jsonb,
+  rank real,
+  name_similarity real,
+  name_highlight text,
+  description_highlight text,
+  matches jsonb,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH params AS (
+    SELECT
+      nullif(trim(search_query), '') AS q,
+      CASE
+        WHEN nullif(trim(search_query), '') IS NULL THEN NULL
+        ELSE websearch_to_tsquery('english', search_query)
+      END AS tsq
+  ),
+  candidates AS (
+    SELECT
+      r.*,
+      coalesce(r.total_time, coalesce(r.prep_time, 0) + coalesce(r.cook_time, 0)) AS effective_time,
+      CASE WHEN p.q IS NULL THEN 0 ELSE similarity(r.name, p.q) END AS sim,
+      CASE WHEN p.tsq IS NULL THEN 0 ELSE ts_rank(r.search_vector, p.tsq) END AS text_rank,
+      p.q,
+      p.tsq
+    FROM recipes r, params p
+    WHERE
+      (p.q IS NULL OR r.search_vector @@ p.tsq OR r.name % p.q OR r.name ILIKE '%' || p.q || '%')
+      AND (tag_filter IS NULL OR r.tags @> to_jsonb(tag_filter))
+      AND (difficulty_filter IS NULL OR r.difficulty = ANY (difficulty_filter))
+  )
+  SELECT
+    to_jsonb(c) - 'search_vector' - 'effective_time' - 'sim' - 'text_rank' - 'q' - 'tsq' AS row_data,
+    (c.text_rank + c.sim)::real AS rank,
+    c.sim::real AS name_similarity,
+    CASE WHEN c.tsq IS NULL THEN c.name
+      ELSE ts_headline('english', c.name, c.tsq, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') END AS name_highlight,
+    CASE WHEN c.tsq IS NULL OR c.description IS NULL THEN c.description
+      ELSE ts_headline('english', c.description, c.tsq, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2') END AS description_highlight,
+    coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'field', m.field,
+        'text', ts_headline('english', m.value, c.tsq, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+      ))
+      FROM (
+        SELECT 'ingredients' AS field, value #>> '{}' AS value FROM jsonb_array_elements(coalesce(c.ingredients, '[]'::jsonb))
+        UNION ALL
+        SELECT 'instructions', value #>> '{}' FROM jsonb_array_elements(coalesce(c.instructions, '[]'::jsonb))
+      ) m
+      WHERE c.tsq IS NOT NULL AND to_tsvector('english', m.value) @@ c.tsq
+    ), '[]'::jsonb) AS matches,
+    count(*) OVER () AS total_count
+  FROM candidates c
+  WHERE
+    (min_total_time IS NULL OR c.effective_time >= min_total_time)
+    AND (max_total_time IS NULL OR c.effective_time <= max_total_time)
+  ORDER BY
+    CASE WHEN c.q IS NULL THEN 0 ELSE c.text_rank + c.sim END DESC,
+    c.name ASC
+  LIMIT greatest(result_limit, 1)
+  OFFSET greatest(result_offset, 0);
+$$;
+
+-- Ranked method search
+CREATE OR REPLACE FUNCTION search_methods(
+  search_query text DEFAULT NULL,
+  tag_filter text[] DEFAULT NULL,
+  difficulty_filter text[] DEFAULT NULL,
+  min_estimated_time integer DEFAULT NULL,
+  max_estimated_time integer DEFAULT NULL,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  row_data jsonb,
+  rank real,
+  name_similarity real,
+  name_highlight text,
+  description_highlight text,
+  matches jsonb,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH params AS (
+    SELECT
+      nullif(trim(search_query), '') AS q,
+      CASE
+        WHEN nullif(trim(search_query), '') IS NULL THEN NULL
+        ELSE websearch_to_tsquery('english', search_query)
+      END AS tsq
+  ),
+  candidates AS (
+    SELECT
+      m.*,
+      CASE WHEN p.q IS NULL THEN 0 ELSE similarity(m.name, p.q) END AS sim,
+      CASE WHEN p.tsq IS NULL THEN 0 ELSE ts_rank(m.search_vector, p.tsq) END AS text_rank,
+      p.q,
+      p.tsq
+    FROM methods m, params p
+    WHERE
+      (p.q IS NULL OR m.search_vector @@ p.tsq OR m.name % p.q OR m.name ILIKE '%' || p.q || '%')
+      AND (tag_filter IS NULL OR m.tags @> to_jsonb(tag_filter))
+      AND (difficulty_filter IS NULL OR m.difficulty_level = ANY (difficulty_filter))
+      AND (min_estimated_time IS NULL OR m.estimated_time >= min_estimated_time)
+      AND (max_estimated_time IS NULL OR m.estimated_time <= max_estimated_time)
+  )
+  SELECT
+    to_jsonb(c) - 'search_vector' - 'sim' - 'text_rank' - 'q' - 'tsq' AS row_data,
+    (c.text_rank + c.sim)::real AS rank,
+    c.sim::real AS name_similarity,
+    CASE WHEN c.tsq IS NULL THEN c.name
+      ELSE ts_headline('english', c.name, c.tsq, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') END AS name_highlight,
+    CASE WHEN c.tsq IS NULL OR c.description IS NULL THEN c.description
+      ELSE ts_headline('english', c.description, c.tsq, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2') END AS description_highlight,
+    coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'field', x.field,
+        'text', ts_headline('english', x.value, c.tsq, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+      ))
+      FROM (
+        SELECT 'instructions' AS field, value #>> '{}' AS value FROM jsonb_array_elements(coalesce(c.instructions, '[]'::jsonb))
+        UNION ALL
+        SELECT 'tips', value #>> '{}' FROM jsonb_array_elements(coalesce(c.tips, '[]'::jsonb))
+      ) x
+      WHERE c.tsq IS NOT NULL AND to_tsvector('english', x.value) @@ c.tsq
+    ), '[]'::jsonb) AS matches,
+    count(*) OVER () AS total_count
+  FROM candidates c
+  ORDER BY
+    CASE WHEN c.q IS NULL THEN 0 ELSE c.text_rank + c.sim END DESC,
+    c.name ASC
+  LIMIT greatest(result_limit, 1)
+  OFFSET greatest(result_offset, 0);
+$$;
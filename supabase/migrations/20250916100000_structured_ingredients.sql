@@ -0,0 +1,110 @@
+/*
+# Structured Recipe Ingredients
+
+Recipe ingredients move from free-text strings to objects:
+`{ quantity, quantityMax?, unit, item, prepNote?, containerId? }`.
+
+## Changes
+1. **ingredient_text()** - Renders either shape as plain text
+2. **search_recipes** - Matches and highlights ingredients through
+   ingredient_text() instead of raw JSON
+
+## Compatibility
+- Existing string entries stay valid; the client parses them on load and
+  `DatabaseService.upgradeRecipeIngredients()` rewrites them in place
+- `search_vector` already indexes every string inside each entry
+*/
+
+-- Plain-text rendering of one ingredient entry (legacy string or object)
+CREATE OR REPLACE FUNCTION ingredient_text(entry jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE jsonb_typeof(entry)
+    WHEN 'string' THEN entry #>> '{}'
+    WHEN 'object' THEN concat_ws(' ',
+      entry ->> 'quantity',
+      nullif(entry ->> 'unit', 'each'),
+      entry ->> 'item',
+      CASE WHEN entry ->> 'prepNote' IS NOT NULL THEN ', ' || (entry ->> 'prepNote') END
+    )
+    ELSE entry::text
+  END;
+$$;
+
+-- Ranked recipe search, now matching structured ingredients as readable text
+CREATE OR REPLACE FUNCTION search_recipes(
+  search_query text DEFAULT NULL,
+  tag_filter text[] DEFAULT NULL,
+  difficulty_filter text[] DEFAULT NULL,
+  min_total_time integer DEFAULT NULL,
+  max_total_time integer DEFAULT NULL,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  row_data jsonb,
+  rank real,
+  name_similarity real,
+  name_highlight text,
+  description_highlight text,
+  matches jsonb,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH params AS (
+    SELECT
+      nullif(trim(search_query), '') AS q,
+      CASE
+        WHEN nullif(trim(search_query), '') IS NULL THEN NULL
+        ELSE websearch_to_tsquery('english', search_query)
+      END AS tsq
+  ),
+  candidates AS (
+    SELECT
+      r.*,
+      coalesce(r.total_time, coalesce(r.prep_time, 0) + coalesce(r.cook_time, 0)) AS effective_time,
+      CASE WHEN p.q IS NULL THEN 0 ELSE similarity(r.name, p.q) END AS sim,
+      CASE WHEN p.tsq IS NULL THEN 0 ELSE ts_rank(r.search_vector, p.tsq) END AS text_rank,
+      p.q,
+      p.tsq
+    FROM recipes r, params p
+    WHERE
+      (p.q IS NULL OR r.search_vector @@ p.tsq OR r.name % p.q OR r.name ILIKE '%' || p.q || '%')
+      AND (tag_filter IS NULL OR r.tags @> to_jsonb(tag_filter))
+      AND (difficulty_filter IS NULL OR r.difficulty = ANY (difficulty_filter))
+  )
+  SELECT
+    to_jsonb(c) - 'search_vector' - 'effective_time' - 'sim' - 'text_rank' - 'q' - 'tsq' AS row_data,
+    (c.text_rank + c.sim)::real AS rank,
+    c.sim::real AS name_similarity,
+    CASE WHEN c.tsq IS NULL THEN c.name
+      ELSE ts_headline('english', c.name, c.tsq, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') END AS name_highlight,
+    CASE WHEN c.tsq IS NULL OR c.description IS NULL THEN c.description
+      ELSE ts_headline('english', c.description, c.tsq, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2') END AS description_highlight,
+    coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'field', m.field,
+        'text', ts_headline('english', m.value, c.tsq, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+      ))
+      FROM (
+        SELECT 'ingredients' AS field, ingredient_text(value) AS value FROM jsonb_array_elements(coalesce(c.ingredients, '[]'::jsonb))
+        UNION ALL
+        SELECT 'instructions', value #>> '{}' FROM jsonb_array_elements(coalesce(c.instructions, '[]'::jsonb))
+      ) m
+      WHERE c.tsq IS NOT NULL AND to_tsvector('english', m.value) @@ c.tsq
+    ), '[]'::jsonb) AS matches,
+    count(*) OVER () AS total_count
+  FROM candidates c
+  WHERE
+    (min_total_time IS NULL OR c.effective_time >= min_total_time)
+    AND (max_total_time IS NULL OR c.effective_time <= max_total_time)
+  ORDER BY
+    CASE WHEN c.q IS NULL THEN 0 ELSE c.text_rank + c.sim END DESC,
+    c.name ASC
+  LIMIT greatest(result_limit, 1)
+  OFFSET greatest(result_offset, 0);
+$$;
@@ -0,0 +1,48 @@
+/*
+# Event Recipes
+
+Links events to the recipes they serve so prep lists can be generated from
+scaled recipe ingredients.
+
+## Changes
+1. **event_recipes** - One row per recipe on an event, with its serving count
+2. **prep_lists.event_id** - Back-reference from a generated prep list to its event
+
+## Security
+- event_recipes rows follow the visibility of their parent event: the policy
+  checks the event through its own RLS policies
+*/
+
+CREATE TABLE IF NOT EXISTS event_recipes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  recipe_id uuid NOT NULL REFERENCES recipes(id) ON DELETE CASCADE,
+  servings integer NOT NULL CHECK (servings > 0),
+  notes text,
+  sort_order integer DEFAULT 0,
+  company_id uuid,
+  user_id uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (event_id, recipe_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_recipes_event_id ON event_recipes(event_id);
+CREATE INDEX IF NOT EXISTS idx_event_recipes_recipe_id ON event_recipes(recipe_id);
+
+ALTER TABLE prep_lists ADD COLUMN IF NOT EXISTS event_id uuid REFERENCES events(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_prep_lists_event_id ON prep_lists(event_id);
+
+ALTER TABLE event_recipes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Event recipes follow event access" ON event_recipes
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM events e WHERE e.id = event_recipes.event_id)
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM events e WHERE e.id = event_recipes.event_id)
+  );
+
+CREATE TRIGGER update_event_recipes_updated_at BEFORE UPDATE ON event_recipes FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
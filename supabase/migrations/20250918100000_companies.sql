@@ -0,0 +1,279 @@
+/*
+# Companies and Memberships
+
+Creates the company tables the team collaboration policies already join
+against, plus email invites and role management.
+
+## Changes
+1. **companies** - One row per kitchen/business
+2. **company_employees** - Membership of an auth user in a company, with a role
+   (owner, admin, chef, staff)
+3. **company_invites** - Pending email invitations, accepted by token
+4. **user_profiles.company_id** - Now the caller's active company; it must be a
+   company the user belongs to
+5. **create_company / accept_company_invite** - Atomic RPCs that also set up the
+   membership and active company
+6. **protect_company_owners** - Trigger stopping non-owners from granting or
+   revoking ownership, and anyone from removing a company's last owner
+
+## Security
+- Membership checks run through SECURITY DEFINER helpers so the
+  company_employees policies do not recurse into themselves
+- Members see their companies, co-members and the profiles of anyone they
+  share a company with
+- Only owners and admins invite, change roles and remove members; any member
+  may leave
+*/
+
+CREATE TABLE IF NOT EXISTS companies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS company_employees (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  auth_user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'staff' CHECK (role IN ('owner', 'admin', 'chef', 'staff')),
+  invited_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (company_id, auth_user_id)
+);
+
+CREATE TABLE IF NOT EXISTS company_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role text NOT NULL DEFAULT 'staff' CHECK (role IN ('admin', 'chef', 'staff')),
+  token uuid NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  invited_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  accepted_by uuid REFERENCES auth.users(id),
+  accepted_at timestamptz,
+  expires_at timestamptz NOT NULL DEFAULT (now() + interval '14 days'),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_employees_auth_user_id ON company_employees(auth_user_id);
+CREATE INDEX IF NOT EXISTS idx_company_employees_company_id ON company_employees(company_id);
+CREATE INDEX IF NOT EXISTS idx_company_invites_company_id ON company_invites(company_id);
+CREATE INDEX IF NOT EXISTS idx_company_invites_email ON company_invites(lower(email));
+-- One open invite per address and company
+CREATE UNIQUE INDEX IF NOT EXISTS idx_company_invites_pending
+  ON company_invites(company_id, lower(email))
+  WHERE accepted_at IS NULL;
+
+-- Existing rows may carry company ids from before companies existed
+ALTER TABLE user_profiles
+  ADD CONSTRAINT user_profiles_company_id_fkey
+  FOREIGN KEY (company_id) REFERENCES companies(id) ON DELETE SET NULL NOT VALID;
+
+-- Membership helpers (SECURITY DEFINER so policies on company_employees can use them)
+CREATE OR REPLACE FUNCTION company_role(target_company uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM company_employees
+  WHERE company_id = target_company AND auth_user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION is_company_member(target_company uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT company_role(target_company) IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION is_company_admin(target_company uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(company_role(target_company) IN ('owner', 'admin'), false);
+$$;
+
+-- Creates a company with the caller as owner and makes it their active company
+CREATE OR REPLACE FUNCTION create_company(company_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_company uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required to create a company' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO companies (name, created_by)
+  VALUES (trim(company_name), auth.uid())
+  RETURNING id INTO new_company;
+
+  INSERT INTO company_employees (company_id, auth_user_id, role)
+  VALUES (new_company, auth.uid(), 'owner');
+
+  UPDATE user_profiles SET company_id = new_company
+  WHERE id = auth.uid() AND company_id IS NULL;
+
+  RETURN new_company;
+END;
+$$;
+
+-- Accepts an invite addressed to the caller's email and switches to that company
+CREATE OR REPLACE FUNCTION accept_company_invite(invite_token uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invite company_invites%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required to accept an invite' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO invite FROM company_invites WHERE token = invite_token FOR UPDATE;
+
+  IF NOT FOUND OR invite.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invite not found or already used' USING ERRCODE = 'P0002';
+  END IF;
+  IF invite.expires_at < now() THEN
+    RAISE EXCEPTION 'Invite has expired' USING ERRCODE = 'P0001';
+  END IF;
+  IF lower(invite.email) <> lower(coalesce(auth.jwt() ->> 'email', '')) THEN
+    RAISE EXCEPTION 'Invite was sent to a different email address' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO company_employees (company_id, auth_user_id, role, invited_by)
+  VALUES (invite.company_id, auth.uid(), invite.role, invite.invited_by)
+  ON CONFLICT (company_id, auth_user_id) DO NOTHING;
+
+  UPDATE company_invites SET accepted_at = now(), accepted_by = auth.uid()
+  WHERE id = invite.id;
+
+  UPDATE user_profiles SET company_id = invite.company_id
+  WHERE id = auth.uid();
+
+  RETURN invite.company_id;
+END;
+$$;
+
+-- Ownership changes need an owner, and a company always keeps one owner
+-- (cascades from deleting the company or the auth user are let through)
+CREATE OR REPLACE FUNCTION protect_company_owners()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NOT EXISTS (SELECT 1 FROM companies WHERE id = OLD.company_id) THEN
+    IF TG_OP = 'DELETE' THEN
+      RETURN OLD;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP = 'DELETE' OR NEW.role <> 'owner') AND OLD.role = 'owner' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM company_employees
+      WHERE company_id = OLD.company_id AND role = 'owner' AND id <> OLD.id
+    ) THEN
+      RAISE EXCEPTION 'A company must keep at least one owner' USING ERRCODE = '23514';
+    END IF;
+  END IF;
+
+  IF (OLD.role = 'owner' OR (TG_OP = 'UPDATE' AND NEW.role = 'owner'))
+    AND NOT (TG_OP = 'DELETE' AND OLD.auth_user_id = auth.uid())
+    AND company_role(OLD.company_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only owners can grant or revoke ownership' USING ERRCODE = '42501';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER protect_company_owners BEFORE UPDATE OR DELETE ON company_employees FOR EACH ROW EXECUTE PROCEDURE protect_company_owners();
+CREATE TRIGGER update_companies_updated_at BEFORE UPDATE ON companies FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+CREATE TRIGGER update_company_employees_updated_at BEFORE UPDATE ON company_employees FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+ALTER TABLE companies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_employees ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_invites ENABLE ROW LEVEL SECURITY;
+
+-- Companies: created through create_company, visible to members
+CREATE POLICY "Members can view their companies" ON companies
+  FOR SELECT
+  TO authenticated
+  USING (is_company_member(id));
+
+CREATE POLICY "Admins can update their companies" ON companies
+  FOR UPDATE
+  TO authenticated
+  USING (is_company_admin(id))
+  WITH CHECK (is_company_admin(id));
+
+CREATE POLICY "Owners can delete their companies" ON companies
+  FOR DELETE
+  TO authenticated
+  USING (company_role(id) = 'owner');
+
+-- Company employees: rows are added by the RPCs, managed by admins
+CREATE POLICY "Members can view co-members" ON company_employees
+  FOR SELECT
+  TO authenticated
+  USING (is_company_member(company_id));
+
+CREATE POLICY "Admins can change member roles" ON company_employees
+  FOR UPDATE
+  TO authenticated
+  USING (is_company_admin(company_id))
+  WITH CHECK (is_company_admin(company_id));
+
+CREATE POLICY "Admins can remove members and members can leave" ON company_employees
+  FOR DELETE
+  TO authenticated
+  USING (is_company_admin(company_id) OR auth_user_id = auth.uid());
+
+-- Company invites: managed by admins, visible to the invited address
+CREATE POLICY "Admins can manage invites" ON company_invites
+  FOR ALL
+  TO authenticated
+  USING (is_company_admin(company_id))
+  WITH CHECK (is_company_admin(company_id) AND accepted_at IS NULL);
+
+CREATE POLICY "Invitees can view their invites" ON company_invites
+  FOR SELECT
+  TO authenticated
+  USING (lower(email) = lower(coalesce(auth.jwt() ->> 'email', '')));
+
+-- Profiles: co-members can see each other, and the active company must be one of yours
+CREATE POLICY "Members can view co-member profiles" ON user_profiles
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM company_employees theirs
+      WHERE theirs.auth_user_id = user_profiles.id
+        AND is_company_member(theirs.company_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update own profile" ON user_profiles;
+CREATE POLICY "Users can update own profile" ON user_profiles
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = id)
+  WITH CHECK (auth.uid() = id AND (company_id IS NULL OR is_company_member(company_id)));
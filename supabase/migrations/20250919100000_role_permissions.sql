@@ -0,0 +1,335 @@
+/*
+# Role-Based Permissions
+
+Replaces the overlapping user-, profile- and team-scoped policies on the kitchen
+tables with one permission matrix keyed on the caller's company role.
+
+## Changes
+1. **role_permissions** - Which company roles may view, save, delete or complete
+   rows of each table (mirrored client-side in src/services/permissions.ts)
+2. **has_permission** - Checks the matrix for the row's company; rows without a
+   company are private to the user who created them
+3. **Policies** - One SELECT, INSERT, UPDATE and DELETE policy per kitchen table
+4. **Events** - Marking an event complete, or changing a completed event, needs
+   the `complete` permission
+
+## Security
+- Drops the "Public access for testing" policies; anonymous clients no longer
+  see or change kitchen data
+- Drops the policies that trusted `user_profiles.company_id` or let anyone see
+  rows without a company
+- Roles are per company (company_employees.role); the global
+  `user_profiles.role` is not consulted
+*/
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  table_name text NOT NULL,
+  action text NOT NULL CHECK (action IN ('view', 'save', 'delete', 'complete')),
+  role text NOT NULL CHECK (role IN ('owner', 'admin', 'chef', 'staff')),
+  PRIMARY KEY (table_name, action, role)
+);
+
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read the permission matrix" ON role_permissions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO role_permissions (table_name, action, role) VALUES
+  ('prep_lists', 'view', 'owner'),
+  ('prep_lists', 'view', 'admin'),
+  ('prep_lists', 'view', 'chef'),
+  ('prep_lists', 'view', 'staff'),
+  ('prep_lists', 'save', 'owner'),
+  ('prep_lists', 'save', 'admin'),
+  ('prep_lists', 'save', 'chef'),
+  ('prep_lists', 'save', 'staff'),
+  ('prep_lists', 'delete', 'owner'),
+  ('prep_lists', 'delete', 'admin'),
+  ('prep_lists', 'delete', 'chef'),
+  ('events', 'view', 'owner'),
+  ('events', 'view', 'admin'),
+  ('events', 'view', 'chef'),
+  ('events', 'view', 'staff'),
+  ('events', 'save', 'owner'),
+  ('events', 'save', 'admin'),
+  ('events', 'save', 'chef'),
+  ('events', 'delete', 'owner'),
+  ('events', 'delete', 'admin'),
+  ('events', 'complete', 'owner'),
+  ('events', 'complete', 'admin'),
+  ('event_recipes', 'view', 'owner'),
+  ('event_recipes', 'view', 'admin'),
+  ('event_recipes', 'view', 'chef'),
+  ('event_recipes', 'view', 'staff'),
+  ('event_recipes', 'save', 'owner'),
+  ('event_recipes', 'save', 'admin'),
+  ('event_recipes', 'save', 'chef'),
+  ('event_recipes', 'delete', 'owner'),
+  ('event_recipes', 'delete', 'admin'),
+  ('event_recipes', 'delete', 'chef'),
+  ('recipes', 'view', 'owner'),
+  ('recipes', 'view', 'admin'),
+  ('recipes', 'view', 'chef'),
+  ('recipes', 'view', 'staff'),
+  ('recipes', 'save', 'owner'),
+  ('recipes', 'save', 'admin'),
+  ('recipes', 'save', 'chef'),
+  ('recipes', 'delete', 'owner'),
+  ('recipes', 'delete', 'admin'),
+  ('methods', 'view', 'owner'),
+  ('methods', 'view', 'admin'),
+  ('methods', 'view', 'chef'),
+  ('methods', 'view', 'staff'),
+  ('methods', 'save', 'owner'),
+  ('methods', 'save', 'admin'),
+  ('methods', 'save', 'chef'),
+  ('methods', 'delete', 'owner'),
+  ('methods', 'delete', 'admin'),
+  ('containers', 'view', 'owner'),
+  ('containers', 'view', 'admin'),
+  ('containers', 'view', 'chef'),
+  ('containers', 'view', 'staff'),
+  ('containers', 'save', 'owner'),
+  ('containers', 'save', 'admin'),
+  ('containers', 'save', 'chef'),
+  ('containers', 'delete', 'owner'),
+  ('containers', 'delete', 'admin')
+ON CONFLICT DO NOTHING;
+
+-- Whether the caller may perform an action on a row of the given company
+CREATE OR REPLACE FUNCTION has_permission(
+  permission_table text,
+  permission_action text,
+  target_company uuid,
+  owner_id uuid DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN auth.uid() IS NULL THEN false
+    WHEN target_company IS NULL THEN coalesce(owner_id = auth.uid(), false)
+    ELSE EXISTS (
+      SELECT 1 FROM role_permissions p
+      WHERE p.table_name = permission_table
+        AND p.action = permission_action
+        AND p.role = company_role(target_company)
+    )
+  END;
+$$;
+
+-- Prep lists
+DROP POLICY IF EXISTS "Users can view own prep lists" ON prep_lists;
+DROP POLICY IF EXISTS "Users can view company prep lists" ON prep_lists;
+DROP POLICY IF EXISTS "Users can insert own prep lists" ON prep_lists;
+DROP POLICY IF EXISTS "Users can update own prep lists" ON prep_lists;
+DROP POLICY IF EXISTS "Users can delete own prep lists" ON prep_lists;
+DROP POLICY IF EXISTS "Team can access company prep lists" ON prep_lists;
+DROP POLICY IF EXISTS "Public access for testing" ON prep_lists;
+
+CREATE POLICY "Role can view prep lists" ON prep_lists
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('prep_lists', 'view', company_id, user_id));
+
+CREATE POLICY "Role can create prep lists" ON prep_lists
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_permission('prep_lists', 'save', company_id, user_id)
+  );
+
+CREATE POLICY "Role can update prep lists" ON prep_lists
+  FOR UPDATE
+  TO authenticated
+  USING (
+    has_permission('prep_lists', 'save', company_id, user_id)
+  )
+  WITH CHECK (
+    has_permission('prep_lists', 'save', company_id, user_id)
+  );
+
+CREATE POLICY "Role can delete prep lists" ON prep_lists
+  FOR DELETE
+  TO authenticated
+  USING (has_permission('prep_lists', 'delete', company_id, user_id));
+
+-- Events
+DROP POLICY IF EXISTS "Users can view own events" ON events;
+DROP POLICY IF EXISTS "Users can view company events" ON events;
+DROP POLICY IF EXISTS "Users can insert own events" ON events;
+DROP POLICY IF EXISTS "Users can update own events" ON events;
+DROP POLICY IF EXISTS "Users can delete own events" ON events;
+DROP POLICY IF EXISTS "Team can access company events" ON events;
+DROP POLICY IF EXISTS "Public access for testing events" ON events;
+
+CREATE POLICY "Role can view events" ON events
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('events', 'view', company_id, user_id));
+
+CREATE POLICY "Role can create events" ON events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_permission('events', 'save', company_id, user_id)
+    AND (status IS DISTINCT FROM 'complete' OR has_permission('events', 'complete', company_id, user_id))
+  );
+
+CREATE POLICY "Role can update events" ON events
+  FOR UPDATE
+  TO authenticated
+  USING (
+    has_permission('events', 'save', company_id, user_id)
+    AND (status IS DISTINCT FROM 'complete' OR has_permission('events', 'complete', company_id, user_id))
+  )
+  WITH CHECK (
+    has_permission('events', 'save', company_id, user_id)
+    AND (status IS DISTINCT FROM 'complete' OR has_permission('events', 'complete', company_id, user_id))
+  );
+
+CREATE POLICY "Role can delete events" ON events
+  FOR DELETE
+  TO authenticated
+  USING (has_permission('events', 'delete', company_id, user_id));
+
+-- Event recipes
+DROP POLICY IF EXISTS "Event recipes follow event access" ON event_recipes;
+
+CREATE POLICY "Role can view event recipes" ON event_recipes
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('event_recipes', 'view', company_id, user_id));
+
+CREATE POLICY "Role can create event recipes" ON event_recipes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_permission('event_recipes', 'save', company_id, user_id)
+  );
+
+CREATE POLICY "Role can update event recipes" ON event_recipes
+  FOR UPDATE
+  TO authenticated
+  USING (
+    has_permission('event_recipes', 'save', company_id, user_id)
+  )
+  WITH CHECK (
+    has_permission('event_recipes', 'save', company_id, user_id)
+  );
+
+CREATE POLICY "Role can delete event recipes" ON event_recipes
+  FOR DELETE
+  TO authenticated
+  USING (has_permission('event_recipes', 'delete', company_id, user_id));
+
+-- Recipes
+DROP POLICY IF EXISTS "Users can view own recipes" ON recipes;
+DROP POLICY IF EXISTS "Users can view company recipes" ON recipes;
+DROP POLICY IF EXISTS "Users can insert own recipes" ON recipes;
+DROP POLICY IF EXISTS "Users can update own recipes" ON recipes;
+DROP POLICY IF EXISTS "Users can delete own recipes" ON recipes;
+DROP POLICY IF EXISTS "Team can access company recipes" ON recipes;
+DROP POLICY IF EXISTS "Public access for testing recipes" ON recipes;
+
+CREATE POLICY "Role can view recipes" ON recipes
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('recipes', 'view', company_id, user_id));
+
+CREATE POLICY "Role can create recipes" ON recipes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_permission('recipes', 'save', company_id, user_id)
+  );
+
+CREATE POLICY "Role can update recipes" ON recipes
+  FOR UPDATE
+  TO authenticated
+  USING (
+    has_permission('recipes', 'save', company_id, user_id)
+  )
+  WITH CHECK (
+    has_permission('recipes', 'save', company_id, user_id)
+  );
+
+CREATE POLICY "Role can delete recipes" ON recipes
+  FOR DELETE
+  TO authenticated
+  USING (has_permission('recipes', 'delete', company_id, user_id));
+
+-- Methods
+DROP POLICY IF EXISTS "Users can view own methods" ON methods;
+DROP POLICY IF EXISTS "Users can view company methods" ON methods;
+DROP POLICY IF EXISTS "Users can insert own methods" ON methods;
+DROP POLICY IF EXISTS "Users can update own methods" ON methods;
+DROP POLICY IF EXISTS "Users can delete own methods" ON methods;
+DROP POLICY IF EXISTS "Team can access company methods" ON methods;
+
+CREATE POLICY "Role can view methods" ON methods
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('methods', 'view', company_id, user_id));
+
+CREATE POLICY "Role can create methods" ON methods
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_permission('methods', 'save', company_id, user_id)
+  );
+
+CREATE POLICY "Role can update methods" ON methods
+  FOR UPDATE
+  TO authenticated
+  USING (
+    has_permission('methods', 'save', company_id, user_id)
+  )
+  WITH CHECK (
+    has_permission('methods', 'save', company_id, user_id)
+  );
+
+CREATE POLICY "Role can delete methods" ON methods
+  FOR DELETE
+  TO authenticated
+  USING (has_permission('methods', 'delete', company_id, user_id));
+
+-- Containers
+DROP POLICY IF EXISTS "Users can view own containers" ON containers;
+DROP POLICY IF EXISTS "Users can view company containers" ON containers;
+DROP POLICY IF EXISTS "Users can insert own containers" ON containers;
+DROP POLICY IF EXISTS "Users can update own containers" ON containers;
+DROP POLICY IF EXISTS "Users can delete own containers" ON containers;
+DROP POLICY IF EXISTS "Team can access company containers" ON containers;
+
+CREATE POLICY "Role can view containers" ON containers
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('containers', 'view', company_id, user_id));
+
+CREATE POLICY "Role can create containers" ON containers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_permission('containers', 'save', company_id, user_id)
+  );
+
+CREATE POLICY "Role can update containers" ON containers
+  FOR UPDATE
+  TO authenticated
+  USING (
+    has_permission('containers', 'save', company_id, user_id)
+  )
+  WITH CHECK (
+    has_permission('containers', 'save', company_id, user_id)
+  );
+
+CREATE POLICY "Role can delete containers" ON containers
+  FOR DELETE
+  TO authenticated
+  USING (has_permission('containers', 'delete', company_id, user_id));
@@ -0,0 +1,178 @@
+/*
+# Prep Item Operations
+
+Item-level edits to a prep list (tick, assign, change quantity, reorder, add,
+remove) applied atomically on the server and broadcast to everyone viewing the
+list, so concurrent edits to different items no longer overwrite each other.
+
+## Changes
+1. **prep_lists.item_version** - Bumped on every change to `items`; clients
+   use it to order events and to notice ones they missed
+2. **apply_prep_item_op** - Locks the list, applies one operation to `items`,
+   and broadcasts an `item_op` event on the `prep_list:<id>` topic
+3. **broadcast_prep_list_items** - Whole-list saves that change `items` bump the
+   version and broadcast an `items_replaced` event
+
+## Security
+- apply_prep_item_op runs as the caller, so the prep_lists UPDATE policy decides
+  who may edit items
+- prep_list topics are private channels; a user receives a list's events only
+  if they can see the list
+*/
+
+ALTER TABLE prep_lists ADD COLUMN IF NOT EXISTS item_version bigint NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION apply_prep_item_op(target_list uuid, op jsonb, op_id text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  list_items jsonb;
+  list_version bigint;
+  op_type text := op->>'type';
+  item_id text := COALESCE(op->>'itemId', op->'item'->>'id');
+  item_index integer;
+  target_index integer;
+  moving jsonb;
+  result_item jsonb;
+  event jsonb;
+BEGIN
+  SELECT COALESCE(items, '[]'::jsonb), item_version
+    INTO list_items, list_version
+    FROM prep_lists
+    WHERE id = target_list
+    FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prep list % not found', target_list USING ERRCODE = 'P0002';
+  END IF;
+
+  IF item_id IS NULL THEN
+    RAISE EXCEPTION 'Prep item operation % needs an item id', op_type USING ERRCODE = '22023';
+  END IF;
+
+  SELECT (position - 1)::integer INTO item_index
+    FROM jsonb_array_elements(list_items) WITH ORDINALITY AS entry(item, position)
+    WHERE entry.item->>'id' = item_id;
+
+  IF op_type = 'add' AND item_index IS NOT NULL THEN
+    RAISE EXCEPTION 'Item % is already on prep list %', item_id, target_list USING ERRCODE = '23505';
+  ELSIF op_type <> 'add' AND item_index IS NULL THEN
+    RAISE EXCEPTION 'Item % is not on prep list %', item_id, target_list USING ERRCODE = 'P0002';
+  END IF;
+
+  CASE op_type
+    WHEN 'toggle' THEN
+      result_item := jsonb_set(
+        list_items->item_index,
+        '{completed}',
+        to_jsonb(COALESCE((op->>'completed')::boolean, NOT COALESCE((list_items->item_index->>'completed')::boolean, false)))
+      );
+      list_items := jsonb_set(list_items, ARRAY[item_index::text], result_item);
+    WHEN 'assign' THEN
+      result_item := (list_items->item_index) - 'assignedTo';
+      IF jsonb_typeof(op->'assignedTo') = 'string' THEN
+        result_item := result_item || jsonb_build_object('assignedTo', op->'assignedTo');
+      END IF;
+      list_items := jsonb_set(list_items, ARRAY[item_index::text], result_item);
+    WHEN 'set_quantity' THEN
+      IF jsonb_typeof(op->'quantity') IS DISTINCT FROM 'string' THEN
+        RAISE EXCEPTION 'set_quantity needs a quantity' USING ERRCODE = '22023';
+      END IF;
+      result_item := (list_items->item_index) || jsonb_strip_nulls(jsonb_build_object('quantity', op->'quantity', 'unit', op->'unit'));
+      list_items := jsonb_set(list_items, ARRAY[item_index::text], result_item);
+    WHEN 'move' THEN
+      moving := list_items->item_index;
+      list_items := list_items - item_index;
+      target_index := LEAST(GREATEST(COALESCE((op->>'toIndex')::integer, 0), 0), jsonb_array_length(list_items));
+      IF target_index = jsonb_array_length(list_items) THEN
+        list_items := list_items || jsonb_build_array(moving);
+      ELSE
+        list_items := jsonb_insert(list_items, ARRAY[target_index::text], moving);
+      END IF;
+      result_item := moving;
+    WHEN 'add' THEN
+      IF jsonb_typeof(op->'item') IS DISTINCT FROM 'object' THEN
+        RAISE EXCEPTION 'add needs an item' USING ERRCODE = '22023';
+      END IF;
+      result_item := op->'item';
+      target_index := LEAST(GREATEST(COALESCE((op->>'index')::integer, jsonb_array_length(list_items)), 0), jsonb_array_length(list_items));
+      IF target_index = jsonb_array_length(list_items) THEN
+        list_items := list_items || jsonb_build_array(result_item);
+      ELSE
+        list_items := jsonb_insert(list_items, ARRAY[target_index::text], result_item);
+      END IF;
+    WHEN 'remove' THEN
+      list_items := list_items - item_index;
+      result_item := NULL;
+    ELSE
+      RAISE EXCEPTION 'Unknown prep item operation: %', op_type USING ERRCODE = '22023';
+  END CASE;
+
+  list_version := list_version + 1;
+
+  UPDATE prep_lists
+    SET items = list_items, item_version = list_version
+    WHERE id = target_list;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not allowed to edit prep list %', target_list USING ERRCODE = '42501';
+  END IF;
+
+  event := jsonb_build_object(
+    'type', 'item_op',
+    'listId', target_list,
+    'version', list_version,
+    'opId', op_id,
+    'op', op,
+    'item', result_item,
+    'actor', auth.uid(),
+    'at', now()
+  );
+
+  PERFORM realtime.send(event, 'item_op', 'prep_list:' || target_list::text, true);
+  RETURN event;
+END;
+$$;
+
+-- Whole-list saves replace items wholesale; tell open sessions to reload them
+CREATE OR REPLACE FUNCTION broadcast_prep_list_items()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.items IS DISTINCT FROM OLD.items AND NEW.item_version = OLD.item_version THEN
+    NEW.item_version := OLD.item_version + 1;
+    PERFORM realtime.send(
+      jsonb_build_object(
+        'type', 'items_replaced',
+        'listId', NEW.id,
+        'version', NEW.item_version,
+        'items', COALESCE(NEW.items, '[]'::jsonb),
+        'actor', auth.uid(),
+        'at', now()
+      ),
+      'items_replaced',
+      'prep_list:' || NEW.id::text,
+      true
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER broadcast_prep_list_items BEFORE UPDATE ON prep_lists FOR EACH ROW EXECUTE PROCEDURE broadcast_prep_list_items();
+
+CREATE POLICY "Prep list viewers receive item events" ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'broadcast'
+    AND realtime.topic() LIKE 'prep_list:%'
+    AND EXISTS (
+      SELECT 1 FROM prep_lists pl
+      WHERE pl.id::text = split_part(realtime.topic(), ':', 2)
+    )
+  );
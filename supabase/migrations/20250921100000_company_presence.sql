@@ -0,0 +1,45 @@
+/*
+# Company Presence
+
+Lets company members share who is online and which prep list or event (and
+which item on it) they are working on, over a private Realtime presence
+channel per company.
+
+## Changes
+1. **company_presence_topic_member** - True when the caller belongs to the
+   company named by a `company:<id>:presence` topic
+
+## Security
+- Only members of a company can join its presence channel, publish their own
+  presence or see anyone else's
+*/
+
+CREATE OR REPLACE FUNCTION company_presence_topic_member(topic text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN topic ~ '^company:[0-9a-fA-F-]{36}:presence$'
+      THEN is_company_member(split_part(topic, ':', 2)::uuid)
+    ELSE false
+  END;
+$$;
+
+CREATE POLICY "Company members receive company presence" ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'presence'
+    AND company_presence_topic_member(realtime.topic())
+  );
+
+CREATE POLICY "Company members publish company presence" ON realtime.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'presence'
+    AND company_presence_topic_member(realtime.topic())
+  );
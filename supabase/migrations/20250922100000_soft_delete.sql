@@ -0,0 +1,254 @@
+/*
+# Soft Delete and Trash
+
+Deleting a kitchen row now moves it to the trash instead of removing it, so
+mistakes can be undone. Trashed rows are purged for good after a retention
+window.
+
+## Changes
+1. **deleted_at** - When the row was moved to the trash; NULL for live rows.
+   Added to prep_lists, events, event_recipes, recipes, methods and containers
+2. **soft_delete_row** - BEFORE DELETE trigger that stamps `deleted_at` and
+   cancels the delete. Trashing an event or recipe also trashes its
+   event_recipes links with the same stamp
+3. **list_trash** - Trashed rows of one table that the caller can view, newest
+   first
+4. **restore_deleted_row** - Clears `deleted_at` on one row, and on the links
+   trashed along with it
+5. **purge_deleted_rows** - Really deletes rows trashed longer ago than the
+   retention window (30 days by default); scheduled nightly when pg_cron is
+   installed
+
+## Security
+- A restrictive SELECT policy hides trashed rows from every normal query, so
+  they cannot be read or updated until restored
+- Deleting still goes through each table's DELETE policy; the trigger only
+  runs for rows the caller was allowed to delete
+- Restoring needs the table's `delete` permission for the row's company
+- Signed-in users can purge only their own personal rows or, as a company
+  admin, their company's rows; purging everything is left to the service role
+  and the scheduled job
+*/
+
+ALTER TABLE prep_lists ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE event_recipes ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE methods ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE containers ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+-- Only the trash is looked up by deleted_at
+CREATE INDEX IF NOT EXISTS idx_prep_lists_deleted_at ON prep_lists(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_events_deleted_at ON events(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_event_recipes_deleted_at ON event_recipes(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_recipes_deleted_at ON recipes(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_methods_deleted_at ON methods(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_containers_deleted_at ON containers(deleted_at) WHERE deleted_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION soft_delete_row()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  stamp timestamptz := now();
+BEGIN
+  -- Purges and foreign key cascades (fired from another trigger) really delete
+  IF current_setting('app.hard_delete', true) = 'on' OR pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+
+  EXECUTE format('UPDATE %I SET deleted_at = $1 WHERE id = $2 AND deleted_at IS NULL', TG_TABLE_NAME)
+    USING stamp, OLD.id;
+
+  IF TG_TABLE_NAME = 'events' THEN
+    UPDATE event_recipes SET deleted_at = stamp WHERE event_id = OLD.id AND deleted_at IS NULL;
+  ELSIF TG_TABLE_NAME = 'recipes' THEN
+    UPDATE event_recipes SET deleted_at = stamp WHERE recipe_id = OLD.id AND deleted_at IS NULL;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS soft_delete_prep_lists ON prep_lists;
+CREATE TRIGGER soft_delete_prep_lists BEFORE DELETE ON prep_lists FOR EACH ROW EXECUTE PROCEDURE soft_delete_row();
+DROP TRIGGER IF EXISTS soft_delete_events ON events;
+CREATE TRIGGER soft_delete_events BEFORE DELETE ON events FOR EACH ROW EXECUTE PROCEDURE soft_delete_row();
+DROP TRIGGER IF EXISTS soft_delete_event_recipes ON event_recipes;
+CREATE TRIGGER soft_delete_event_recipes BEFORE DELETE ON event_recipes FOR EACH ROW EXECUTE PROCEDURE soft_delete_row();
+DROP TRIGGER IF EXISTS soft_delete_recipes ON recipes;
+CREATE TRIGGER soft_delete_recipes BEFORE DELETE ON recipes FOR EACH ROW EXECUTE PROCEDURE soft_delete_row();
+DROP TRIGGER IF EXISTS soft_delete_methods ON methods;
+CREATE TRIGGER soft_delete_methods BEFORE DELETE ON methods FOR EACH ROW EXECUTE PROCEDURE soft_delete_row();
+DROP TRIGGER IF EXISTS soft_delete_containers ON containers;
+CREATE TRIGGER soft_delete_containers BEFORE DELETE ON containers FOR EACH ROW EXECUTE PROCEDURE soft_delete_row();
+
+-- Restrictive, so they combine with the role policies instead of widening them
+CREATE POLICY "Hide trashed prep lists" ON prep_lists AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (deleted_at IS NULL);
+
+CREATE POLICY "Hide trashed events" ON events AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (deleted_at IS NULL);
+
+CREATE POLICY "Hide trashed event recipes" ON event_recipes AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (deleted_at IS NULL);
+
+CREATE POLICY "Hide trashed recipes" ON recipes AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (deleted_at IS NULL);
+
+CREATE POLICY "Hide trashed methods" ON methods AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (deleted_at IS NULL);
+
+CREATE POLICY "Hide trashed containers" ON containers AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (deleted_at IS NULL);
+
+CREATE OR REPLACE FUNCTION list_trash(target_table text)
+RETURNS SETOF jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF target_table NOT IN ('prep_lists', 'events', 'event_recipes', 'recipes', 'methods', 'containers') THEN
+    RAISE EXCEPTION 'Table % has no trash', target_table USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT to_jsonb(t) FROM %I t
+      WHERE t.deleted_at IS NOT NULL
+        AND has_permission(%L, ''view'', t.company_id, t.user_id)
+      ORDER BY t.deleted_at DESC',
+    target_table,
+    target_table
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_deleted_row(target_table text, target_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target jsonb;
+  stamp timestamptz;
+  restored jsonb;
+BEGIN
+  IF target_table NOT IN ('prep_lists', 'events', 'event_recipes', 'recipes', 'methods', 'containers') THEN
+    RAISE EXCEPTION 'Table % has no trash', target_table USING ERRCODE = '22023';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE t.id = $1 FOR UPDATE', target_table)
+    INTO target
+    USING target_id;
+
+  -- Rows the caller cannot see are reported as missing
+  IF target IS NULL
+    OR target->>'deleted_at' IS NULL
+    OR NOT has_permission(target_table, 'view', (target->>'company_id')::uuid, (target->>'user_id')::uuid) THEN
+    RAISE EXCEPTION '% % is not in the trash', target_table, target_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT has_permission(target_table, 'delete', (target->>'company_id')::uuid, (target->>'user_id')::uuid) THEN
+    RAISE EXCEPTION 'Not allowed to restore % %', target_table, target_id USING ERRCODE = '42501';
+  END IF;
+
+  IF target_table = 'event_recipes' AND (
+    EXISTS (SELECT 1 FROM events e WHERE e.id = (target->>'event_id')::uuid AND e.deleted_at IS NOT NULL)
+    OR EXISTS (SELECT 1 FROM recipes r WHERE r.id = (target->>'recipe_id')::uuid AND r.deleted_at IS NOT NULL)
+  ) THEN
+    RAISE EXCEPTION 'Restore the event and recipe before the link between them' USING ERRCODE = '23503';
+  END IF;
+
+  stamp := (target->>'deleted_at')::timestamptz;
+  EXECUTE format('UPDATE %I SET deleted_at = NULL WHERE id = $1 RETURNING to_jsonb(%I.*)', target_table, target_table)
+    INTO restored
+    USING target_id;
+
+  -- Links trashed together with this event or recipe come back with it,
+  -- unless the other end is still in the trash
+  IF target_table = 'events' THEN
+    UPDATE event_recipes l SET deleted_at = NULL
+      WHERE l.event_id = target_id
+        AND l.deleted_at = stamp
+        AND NOT EXISTS (SELECT 1 FROM recipes r WHERE r.id = l.recipe_id AND r.deleted_at IS NOT NULL);
+  ELSIF target_table = 'recipes' THEN
+    UPDATE event_recipes l SET deleted_at = NULL
+      WHERE l.recipe_id = target_id
+        AND l.deleted_at = stamp
+        AND NOT EXISTS (SELECT 1 FROM events e WHERE e.id = l.event_id AND e.deleted_at IS NOT NULL);
+  END IF;
+
+  RETURN restored;
+END;
+$$;
+
+-- Without a signed-in user (service role, pg_cron) every company is purged;
+-- a signed-in user purges their personal rows (target_company NULL) or, as
+-- an admin, one company's rows
+CREATE OR REPLACE FUNCTION purge_deleted_rows(
+  retention interval DEFAULT interval '30 days',
+  target_company uuid DEFAULT NULL
+)
+RETURNS TABLE (table_name text, purged integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  kitchen_table text;
+  scope text;
+  removed integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    scope := CASE WHEN target_company IS NULL THEN 'true' ELSE format('company_id = %L', target_company) END;
+  ELSIF target_company IS NULL THEN
+    scope := format('company_id IS NULL AND user_id = %L', auth.uid());
+  ELSIF is_company_admin(target_company) THEN
+    scope := format('company_id = %L', target_company);
+  ELSE
+    RAISE EXCEPTION 'Only company admins can purge the trash' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_config('app.hard_delete', 'on', true);
+
+  -- Links first, so purging an event or recipe does not count them twice
+  FOREACH kitchen_table IN ARRAY ARRAY['event_recipes', 'prep_lists', 'events', 'recipes', 'methods', 'containers'] LOOP
+    EXECUTE format('DELETE FROM %I WHERE deleted_at < now() - $1 AND %s', kitchen_table, scope)
+      USING retention;
+    GET DIAGNOSTICS removed = ROW_COUNT;
+    table_name := kitchen_table;
+    purged := removed;
+    RETURN NEXT;
+  END LOOP;
+
+  PERFORM set_config('app.hard_delete', 'off', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION purge_deleted_rows(interval, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION purge_deleted_rows(interval, uuid) TO authenticated, service_role;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('purge-deleted-rows', '17 3 * * *', 'SELECT purge_deleted_rows()');
+  END IF;
+END;
+$$;
@@ -0,0 +1,199 @@
+/*
+# Audit Log
+
+Records every change to the kitchen tables, so "who changed the servings on
+this event, and when" can be answered. Any earlier version of a row can be
+restored.
+
+## Changes
+1. **audit_log** - One entry per change: the table, row, per-row version
+   number, operation, acting user and the changed columns before and after.
+   `updated_at`, `item_version` and `search_vector` are not tracked
+2. **record_audit_entry** - AFTER trigger on prep_lists, events,
+   event_recipes, recipes, methods and containers. Soft deletes and restores
+   are logged as DELETE and RESTORE; purges as PURGE
+3. **revert_to_version** - Puts a row's tracked columns back to how they were
+   at a version. The revert is itself logged as a REVERT entry
+
+## Security
+- Entries are visible to whoever may view the audited row: members of its
+  company with the table's `view` permission, or the owner of a personal row
+- Only the trigger writes entries; there are no INSERT, UPDATE or DELETE
+  policies, so clients cannot change history
+- revert_to_version runs as the caller, so the table's UPDATE policy decides
+  who may revert
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  table_name text NOT NULL CHECK (table_name IN ('prep_lists', 'events', 'event_recipes', 'recipes', 'methods', 'containers')),
+  record_id uuid NOT NULL,
+  -- 1, 2, 3… per row, in the order the changes committed
+  version integer NOT NULL,
+  operation text NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE', 'RESTORE', 'REVERT', 'PURGE')),
+  -- Copied from the row, for RLS
+  company_id uuid,
+  owner_id uuid,
+  actor_id uuid DEFAULT auth.uid(),
+  actor_email text,
+  changed_at timestamptz NOT NULL DEFAULT now(),
+  -- Changed columns only; the whole row for INSERT (new) and PURGE (old)
+  old_values jsonb,
+  new_values jsonb,
+  -- For REVERT entries, the version the row was put back to
+  reverted_to integer,
+  UNIQUE (table_name, record_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_company_changed ON audit_log(company_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor_id);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Viewers of a row can read its history" ON audit_log
+  FOR SELECT
+  TO authenticated
+  USING (has_permission(table_name, 'view', company_id, owner_id));
+
+CREATE OR REPLACE FUNCTION record_audit_entry()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  untracked text[] := ARRAY['updated_at', 'item_version', 'search_vector'];
+  old_row jsonb := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) - untracked END;
+  new_row jsonb := CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) - untracked END;
+  audited_row jsonb := coalesce(new_row, old_row);
+  entry_operation text := TG_OP;
+  old_values jsonb;
+  new_values jsonb;
+  revert_target integer := nullif(current_setting('app.revert_to', true), '')::integer;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    new_values := new_row;
+  ELSIF TG_OP = 'DELETE' THEN
+    entry_operation := 'PURGE';
+    old_values := old_row;
+  ELSE
+    SELECT jsonb_object_agg(key, old_row->key), jsonb_object_agg(key, new_row->key)
+      INTO old_values, new_values
+      FROM jsonb_object_keys(new_row) AS key
+      WHERE old_row->key IS DISTINCT FROM new_row->key;
+
+    -- Nothing tracked changed (e.g. only updated_at)
+    IF new_values IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    IF revert_target IS NOT NULL THEN
+      entry_operation := 'REVERT';
+    ELSIF old_row->>'deleted_at' IS NULL AND new_row->>'deleted_at' IS NOT NULL THEN
+      entry_operation := 'DELETE';
+    ELSIF old_row->>'deleted_at' IS NOT NULL AND new_row->>'deleted_at' IS NULL THEN
+      entry_operation := 'RESTORE';
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (
+    table_name, record_id, version, operation, company_id, owner_id,
+    actor_id, actor_email, old_values, new_values, reverted_to
+  )
+  VALUES (
+    TG_TABLE_NAME,
+    (audited_row->>'id')::uuid,
+    coalesce((
+      SELECT max(a.version) FROM audit_log a
+      WHERE a.table_name = TG_TABLE_NAME AND a.record_id = (audited_row->>'id')::uuid
+    ), 0) + 1,
+    entry_operation,
+    (audited_row->>'company_id')::uuid,
+    (audited_row->>'user_id')::uuid,
+    auth.uid(),
+    auth.jwt()->>'email',
+    old_values,
+    new_values,
+    CASE WHEN entry_operation = 'REVERT' THEN revert_target END
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_prep_lists ON prep_lists;
+CREATE TRIGGER audit_prep_lists AFTER INSERT OR UPDATE OR DELETE ON prep_lists FOR EACH ROW EXECUTE PROCEDURE record_audit_entry();
+DROP TRIGGER IF EXISTS audit_events ON events;
+CREATE TRIGGER audit_events AFTER INSERT OR UPDATE OR DELETE ON events FOR EACH ROW EXECUTE PROCEDURE record_audit_entry();
+DROP TRIGGER IF EXISTS audit_event_recipes ON event_recipes;
+CREATE TRIGGER audit_event_recipes AFTER INSERT OR UPDATE OR DELETE ON event_recipes FOR EACH ROW EXECUTE PROCEDURE record_audit_entry();
+DROP TRIGGER IF EXISTS audit_recipes ON recipes;
+CREATE TRIGGER audit_recipes AFTER INSERT OR UPDATE OR DELETE ON recipes FOR EACH ROW EXECUTE PROCEDURE record_audit_entry();
+DROP TRIGGER IF EXISTS audit_methods ON methods;
+CREATE TRIGGER audit_methods AFTER INSERT OR UPDATE OR DELETE ON methods FOR EACH ROW EXECUTE PROCEDURE record_audit_entry();
+DROP TRIGGER IF EXISTS audit_containers ON containers;
+CREATE TRIGGER audit_containers AFTER INSERT OR UPDATE OR DELETE ON containers FOR EACH ROW EXECUTE PROCEDURE record_audit_entry();
+
+CREATE OR REPLACE FUNCTION revert_to_version(target_table text, target_id uuid, target_version integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  -- Ownership, trash state and server-maintained columns are left alone
+  kept text[] := ARRAY['id', 'company_id', 'user_id', 'created_at', 'updated_at', 'deleted_at', 'item_version', 'search_vector'];
+  state jsonb;
+  undone record;
+  assignments text;
+  reverted jsonb;
+BEGIN
+  IF target_table NOT IN ('prep_lists', 'events', 'event_recipes', 'recipes', 'methods', 'containers') THEN
+    RAISE EXCEPTION 'Table % has no history', target_table USING ERRCODE = '22023';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE t.id = $1 FOR UPDATE', target_table)
+    INTO state
+    USING target_id;
+
+  IF state IS NULL THEN
+    RAISE EXCEPTION '% % not found', target_table, target_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM audit_log a
+    WHERE a.table_name = target_table AND a.record_id = target_id AND a.version = target_version
+  ) THEN
+    RAISE EXCEPTION 'Version % of % % not found', target_version, target_table, target_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Undo the newer changes, newest first
+  FOR undone IN
+    SELECT a.old_values FROM audit_log a
+    WHERE a.table_name = target_table AND a.record_id = target_id AND a.version > target_version
+    ORDER BY a.version DESC
+  LOOP
+    state := state || coalesce(undone.old_values, '{}'::jsonb);
+  END LOOP;
+
+  SELECT string_agg(format('%I = r.%I', key, key), ', ')
+    INTO assignments
+    FROM jsonb_object_keys(state - kept) AS key;
+
+  PERFORM set_config('app.revert_to', target_version::text, true);
+  EXECUTE format(
+    'UPDATE %I t SET %s FROM jsonb_populate_record(NULL::%I, $1) r WHERE t.id = $2 RETURNING to_jsonb(t.*)',
+    target_table,
+    assignments,
+    target_table
+  )
+    INTO reverted
+    USING state, target_id;
+  PERFORM set_config('app.revert_to', '', true);
+
+  IF reverted IS NULL THEN
+    RAISE EXCEPTION 'Not allowed to revert % %', target_table, target_id USING ERRCODE = '42501';
+  END IF;
+
+  RETURN reverted;
+END;
+$$;
@@ -0,0 +1,210 @@
+/*
+# Save Bundle
+
+Applies a mixed list of inserts, updates and deletes across the kitchen tables
+in one transaction, so multi-row writes (an event with its recipes, links and
+prep list; test data; imports) no longer leave half the rows behind when one
+of them fails.
+
+## Changes
+1. **save_bundle** - Takes a JSON array of operations, applied in order:
+   `{ "table": "events", "action": "save", "row": {...} }` or
+   `{ "table": "events", "action": "delete", "id": "..." }`. Actions are
+   `insert` (fails if the id exists), `update` (fails if it does not), `save`
+   (either) and `delete` (moves the row to the trash). Returns
+   `{ committed, items }` with one result per operation: its status, the
+   written row, or the error it hit
+   - With `atomic` (the default) the first failure rolls everything back;
+     the operations after it are reported as skipped
+   - Without it each operation stands alone and the ones that worked are kept
+
+## Security
+- Runs as the caller, so every operation goes through the table's RLS
+  policies exactly as a single save or delete would
+- Only the six kitchen tables can be written, only real (non-generated)
+  columns are set, and a bundle holds at most 1000 operations
+*/
+
+CREATE OR REPLACE FUNCTION save_bundle(operations jsonb, atomic boolean DEFAULT true)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  operation jsonb;
+  item_index integer := 0;
+  target_table text;
+  item_action text;
+  target_row jsonb;
+  target_id uuid;
+  columns text[];
+  unknown_columns text[];
+  column_list text;
+  assignments text;
+  written jsonb;
+  results jsonb := '[]'::jsonb;
+  failed boolean := false;
+  rolled_back boolean := false;
+  error_code text;
+  error_message text;
+  error_detail text;
+BEGIN
+  IF jsonb_typeof(operations) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'operations must be a JSON array' USING ERRCODE = '22023';
+  END IF;
+  IF jsonb_array_length(operations) > 1000 THEN
+    RAISE EXCEPTION 'A bundle holds at most 1000 operations, got %', jsonb_array_length(operations) USING ERRCODE = '22023';
+  END IF;
+
+  BEGIN
+    FOR operation IN SELECT value FROM jsonb_array_elements(operations) LOOP
+      target_table := operation->>'table';
+      item_action := coalesce(operation->>'action', 'save');
+      target_id := NULL;
+      written := NULL;
+
+      -- Each operation runs in its own savepoint, so a failure is reported
+      -- against the operation instead of ending the call
+      BEGIN
+        IF target_table IS NULL OR target_table NOT IN ('prep_lists', 'events', 'event_recipes', 'recipes', 'methods', 'containers') THEN
+          RAISE EXCEPTION 'Table % cannot be written in a bundle', coalesce(target_table, '(none)') USING ERRCODE = '22023';
+        END IF;
+
+        IF item_action = 'delete' THEN
+          target_id := (operation->>'id')::uuid;
+          IF target_id IS NULL THEN
+            RAISE EXCEPTION 'Delete needs an id' USING ERRCODE = '22023';
+          END IF;
+          EXECUTE format('DELETE FROM %I WHERE id = $1', target_table) USING target_id;
+
+        ELSIF item_action IN ('insert', 'update', 'save') THEN
+          target_row := operation->'row';
+          IF jsonb_typeof(target_row) IS DISTINCT FROM 'object' OR target_row->>'id' IS NULL THEN
+            RAISE EXCEPTION '% needs a row with an id', initcap(item_action) USING ERRCODE = '22023';
+          END IF;
+          target_id := (target_row->>'id')::uuid;
+
+          SELECT array_agg(a.attname::text ORDER BY a.attnum)
+            INTO columns
+            FROM pg_attribute a
+            WHERE a.attrelid = target_table::regclass
+              AND a.attnum > 0
+              AND NOT a.attisdropped
+              AND a.attgenerated = ''
+              AND target_row ? a.attname;
+
+          SELECT array_agg(key)
+            INTO unknown_columns
+            FROM jsonb_object_keys(target_row) AS key
+            WHERE NOT key = ANY (columns);
+
+          IF unknown_columns IS NOT NULL THEN
+            RAISE EXCEPTION 'Unknown or generated columns for %: %', target_table, array_to_string(unknown_columns, ', ')
+              USING ERRCODE = '42703';
+          END IF;
+
+          SELECT string_agg(format('%I', c), ', '), string_agg(format('%I = r.%I', c, c), ', ')
+            INTO column_list, assignments
+            FROM unnest(columns) AS c;
+
+          IF item_action = 'update' THEN
+            EXECUTE format(
+              'UPDATE %I t SET %s FROM jsonb_populate_record(NULL::%I, $1) r WHERE t.id = $2 RETURNING to_jsonb(t.*)',
+              target_table,
+              assignments,
+              target_table
+            )
+              INTO written
+              USING target_row, target_id;
+
+            IF written IS NULL THEN
+              RAISE EXCEPTION '% % not found', target_table, target_id USING ERRCODE = 'P0002';
+            END IF;
+          ELSE
+            EXECUTE format(
+              'INSERT INTO %I AS t (%s) SELECT %s FROM jsonb_populate_record(NULL::%I, $1) r %s RETURNING to_jsonb(t.*)',
+              target_table,
+              column_list,
+              column_list,
+              target_table,
+              CASE WHEN item_action = 'save' THEN
+                format('ON CONFLICT (id) DO UPDATE SET %s', (SELECT string_agg(format('%I = EXCLUDED.%I', c, c), ', ') FROM unnest(columns) AS c))
+              ELSE '' END
+            )
+              INTO written
+              USING target_row;
+          END IF;
+
+        ELSE
+          RAISE EXCEPTION 'Unknown action %', item_action USING ERRCODE = '22023';
+        END IF;
+
+        results := results || jsonb_build_array(jsonb_build_object(
+          'index', item_index,
+          'table', target_table,
+          'action', item_action,
+          'id', target_id,
+          'status', CASE WHEN item_action = 'delete' THEN 'deleted' ELSE 'saved' END,
+          'row', written,
+          'error', NULL
+        ));
+      EXCEPTION WHEN OTHERS THEN
+        GET STACKED DIAGNOSTICS
+          error_code = RETURNED_SQLSTATE,
+          error_message = MESSAGE_TEXT,
+          error_detail = PG_EXCEPTION_DETAIL;
+
+        failed := true;
+        results := results || jsonb_build_array(jsonb_build_object(
+          'index', item_index,
+          'table', target_table,
+          'action', item_action,
+          'id', coalesce(target_id::text, operation->>'id', operation->'row'->>'id'),
+          'status', 'failed',
+          'row', NULL,
+          'error', jsonb_build_object('code', error_code, 'message', error_message, 'details', nullif(error_detail, ''))
+        ));
+      END;
+
+      item_index := item_index + 1;
+      -- Leaving through the outer handler undoes every earlier operation
+      EXIT WHEN failed AND atomic;
+    END LOOP;
+
+    IF failed AND atomic THEN
+      RAISE EXCEPTION 'save_bundle rolled back' USING ERRCODE = 'P0001';
+    END IF;
+  EXCEPTION WHEN raise_exception THEN
+    rolled_back := true;
+  END;
+
+  IF rolled_back THEN
+    -- The writes before the failure were undone; the rest never ran
+    SELECT coalesce(jsonb_agg(
+      CASE
+        WHEN r.value->>'status' IN ('saved', 'deleted') THEN r.value || jsonb_build_object('status', 'rolled_back', 'row', NULL)
+        ELSE r.value
+      END ORDER BY r.ordinality), '[]'::jsonb)
+      INTO results
+      FROM jsonb_array_elements(results) WITH ORDINALITY AS r(value, ordinality);
+
+    SELECT results || coalesce(jsonb_agg(jsonb_build_object(
+        'index', o.ordinality - 1,
+        'table', o.value->>'table',
+        'action', coalesce(o.value->>'action', 'save'),
+        'id', coalesce(o.value->>'id', o.value->'row'->>'id'),
+        'status', 'skipped',
+        'row', NULL,
+        'error', NULL
+      ) ORDER BY o.ordinality), '[]'::jsonb)
+      INTO results
+      FROM jsonb_array_elements(operations) WITH ORDINALITY AS o(value, ordinality)
+      WHERE o.ordinality > jsonb_array_length(results);
+  END IF;
+
+  RETURN jsonb_build_object('committed', NOT rolled_back, 'items', results);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_bundle(jsonb, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_bundle(jsonb, boolean) TO authenticated, service_role;
@@ -0,0 +1,84 @@
+/*
+# Seed Batches
+
+Generated demo and test data is tagged with the batch that created it, so it
+can be removed exactly, without guessing from names.
+
+## Changes
+1. **seed_batch** - The batch a generated row came from; NULL for real data.
+   Added to prep_lists, events, event_recipes, recipes, methods, containers,
+   companies and company_invites
+2. **delete_seed_batch** - Removes one batch for good (no trash), links first
+   and companies last. Returns how many rows went from each table
+
+## Security
+- Runs as the caller, so each table's DELETE policy still applies
+- Only rows the caller created are removed: kitchen rows they own and
+  companies they created. Tagging someone else's row does not make it
+  deletable this way
+*/
+
+ALTER TABLE prep_lists ADD COLUMN IF NOT EXISTS seed_batch uuid;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS seed_batch uuid;
+ALTER TABLE event_recipes ADD COLUMN IF NOT EXISTS seed_batch uuid;
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS seed_batch uuid;
+ALTER TABLE methods ADD COLUMN IF NOT EXISTS seed_batch uuid;
+ALTER TABLE containers ADD COLUMN IF NOT EXISTS seed_batch uuid;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS seed_batch uuid;
+ALTER TABLE company_invites ADD COLUMN IF NOT EXISTS seed_batch uuid;
+
+-- Only generated rows are looked up by batch
+CREATE INDEX IF NOT EXISTS idx_prep_lists_seed_batch ON prep_lists(seed_batch) WHERE seed_batch IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_events_seed_batch ON events(seed_batch) WHERE seed_batch IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_event_recipes_seed_batch ON event_recipes(seed_batch) WHERE seed_batch IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_recipes_seed_batch ON recipes(seed_batch) WHERE seed_batch IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_methods_seed_batch ON methods(seed_batch) WHERE seed_batch IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_containers_seed_batch ON containers(seed_batch) WHERE seed_batch IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_companies_seed_batch ON companies(seed_batch) WHERE seed_batch IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_company_invites_seed_batch ON company_invites(seed_batch) WHERE seed_batch IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION delete_seed_batch(batch uuid)
+RETURNS TABLE (table_name text, deleted integer)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  kitchen_table text;
+  removed integer;
+BEGIN
+  IF batch IS NULL THEN
+    RAISE EXCEPTION 'batch is required' USING ERRCODE = '22023';
+  END IF;
+
+  -- Generated rows skip the trash
+  PERFORM set_config('app.hard_delete', 'on', true);
+
+  FOREACH kitchen_table IN ARRAY ARRAY['event_recipes', 'prep_lists', 'events', 'recipes', 'methods', 'containers'] LOOP
+    EXECUTE format('DELETE FROM %I WHERE seed_batch = $1 AND user_id = auth.uid()', kitchen_table)
+      USING batch;
+    GET DIAGNOSTICS removed = ROW_COUNT;
+    table_name := kitchen_table;
+    deleted := removed;
+    RETURN NEXT;
+  END LOOP;
+
+  DELETE FROM company_invites i
+    WHERE i.seed_batch = batch AND i.invited_by = auth.uid();
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  table_name := 'company_invites';
+  deleted := removed;
+  RETURN NEXT;
+
+  DELETE FROM companies c
+    WHERE c.seed_batch = batch AND c.created_by = auth.uid();
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  table_name := 'companies';
+  deleted := removed;
+  RETURN NEXT;
+
+  PERFORM set_config('app.hard_delete', 'off', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION delete_seed_batch(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION delete_seed_batch(uuid) TO authenticated, service_role;
@@ -0,0 +1,20 @@
+/*
+# Member Role Updates
+
+"Admins can change member roles" let admins update any column of a
+membership, so one could point it at another user or move it into another
+company they administer.
+
+## Changes
+1. **company_employees** - Clients may update `role` only; `updated_at` is
+   still set by its trigger
+
+## Security
+- Column privileges apply on top of the RLS policy, so admins keep changing
+  roles in their own companies and nothing else
+- create_company and accept_company_invite are SECURITY DEFINER and are not
+  affected
+*/
+
+REVOKE UPDATE ON company_employees FROM anon, authenticated;
+GRANT UPDATE (role) ON company_employees TO authenticated;
@@ -0,0 +1,59 @@
+/*
+# Protect Row Ownership
+
+The kitchen tables' UPDATE policies check USING and WITH CHECK separately, so
+a member with `save` on a company row could move it to another company they
+belong to, or make it their own personal row (company_id NULL). That took
+data out of the company and got around the `delete` permission.
+
+## Changes
+1. **protect_row_ownership** - BEFORE UPDATE trigger on prep_lists, events,
+   event_recipes, recipes, methods and containers. Changing `company_id` or
+   `user_id` needs admin rights on both the old and the new company; for a
+   personal row, being the user it belongs to
+
+## Security
+- Runs as the caller, so `auth.uid()` and the company helpers see who is
+  asking
+- SECURITY DEFINER functions (restore, revert, the trash trigger), foreign key
+  actions and the service role run as another database role and are not
+  checked
+*/
+
+CREATE OR REPLACE FUNCTION protect_row_ownership()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.company_id IS NOT DISTINCT FROM OLD.company_id AND NEW.user_id IS NOT DISTINCT FROM OLD.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF CASE WHEN OLD.company_id IS NULL THEN OLD.user_id = auth.uid() ELSE is_company_admin(OLD.company_id) END
+    AND CASE WHEN NEW.company_id IS NULL THEN NEW.user_id = auth.uid() ELSE is_company_admin(NEW.company_id) END
+  THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Only company admins can move % % to another company or owner', TG_TABLE_NAME, OLD.id
+    USING ERRCODE = '42501';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_row_ownership_prep_lists ON prep_lists;
+CREATE TRIGGER protect_row_ownership_prep_lists BEFORE UPDATE ON prep_lists FOR EACH ROW EXECUTE PROCEDURE protect_row_ownership();
+DROP TRIGGER IF EXISTS protect_row_ownership_events ON events;
+CREATE TRIGGER protect_row_ownership_events BEFORE UPDATE ON events FOR EACH ROW EXECUTE PROCEDURE protect_row_ownership();
+DROP TRIGGER IF EXISTS protect_row_ownership_event_recipes ON event_recipes;
+CREATE TRIGGER protect_row_ownership_event_recipes BEFORE UPDATE ON event_recipes FOR EACH ROW EXECUTE PROCEDURE protect_row_ownership();
+DROP TRIGGER IF EXISTS protect_row_ownership_recipes ON recipes;
+CREATE TRIGGER protect_row_ownership_recipes BEFORE UPDATE ON recipes FOR EACH ROW EXECUTE PROCEDURE protect_row_ownership();
+DROP TRIGGER IF EXISTS protect_row_ownership_methods ON methods;
+CREATE TRIGGER protect_row_ownership_methods BEFORE UPDATE ON methods FOR EACH ROW EXECUTE PROCEDURE protect_row_ownership();
+DROP TRIGGER IF EXISTS protect_row_ownership_containers ON containers;
+CREATE TRIGGER protect_row_ownership_containers BEFORE UPDATE ON containers FOR EACH ROW EXECUTE PROCEDURE protect_row_ownership();
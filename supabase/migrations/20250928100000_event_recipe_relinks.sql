@@ -0,0 +1,88 @@
+/*
+# Event Recipe Relinks
+
+UNIQUE (event_id, recipe_id) still counted links in the trash, which RLS
+hides from the app. Relinking a recipe that was unlinked earlier picked a new
+id and failed as a duplicate.
+
+## Changes
+1. **event_recipes** - The unique constraint becomes a partial unique index
+   over live links only
+2. **restore_deleted_row** - Links trashed along with an event or recipe
+   stay in the trash when the same recipe has been linked to the event again
+   since. Restoring such a link directly still fails as a duplicate
+
+## Security
+- No change: restore_deleted_row keeps its permission checks
+*/
+
+ALTER TABLE event_recipes DROP CONSTRAINT IF EXISTS event_recipes_event_id_recipe_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_recipes_live_link ON event_recipes(event_id, recipe_id) WHERE deleted_at IS NULL;
+
+CREATE OR REPLACE FUNCTION restore_deleted_row(target_table text, target_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target jsonb;
+  stamp timestamptz;
+  restored jsonb;
+BEGIN
+  IF target_table NOT IN ('prep_lists', 'events', 'event_recipes', 'recipes', 'methods', 'containers') THEN
+    RAISE EXCEPTION 'Table % has no trash', target_table USING ERRCODE = '22023';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE t.id = $1 FOR UPDATE', target_table)
+    INTO target
+    USING target_id;
+
+  -- Rows the caller cannot see are reported as missing
+  IF target IS NULL
+    OR target->>'deleted_at' IS NULL
+    OR NOT has_permission(target_table, 'view', (target->>'company_id')::uuid, (target->>'user_id')::uuid) THEN
+    RAISE EXCEPTION '% % is not in the trash', target_table, target_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT has_permission(target_table, 'delete', (target->>'company_id')::uuid, (target->>'user_id')::uuid) THEN
+    RAISE EXCEPTION 'Not allowed to restore % %', target_table, target_id USING ERRCODE = '42501';
+  END IF;
+
+  IF target_table = 'event_recipes' AND (
+    EXISTS (SELECT 1 FROM events e WHERE e.id = (target->>'event_id')::uuid AND e.deleted_at IS NOT NULL)
+    OR EXISTS (SELECT 1 FROM recipes r WHERE r.id = (target->>'recipe_id')::uuid AND r.deleted_at IS NOT NULL)
+  ) THEN
+    RAISE EXCEPTION 'Restore the event and recipe before the link between them' USING ERRCODE = '23503';
+  END IF;
+
+  stamp := (target->>'deleted_at')::timestamptz;
+  EXECUTE format('UPDATE %I SET deleted_at = NULL WHERE id = $1 RETURNING to_jsonb(%I.*)', target_table, target_table)
+    INTO restored
+    USING target_id;
+
+  -- Links trashed together with this event or recipe come back with it,
+  -- unless the other end is still in the trash or the pair was relinked
+  IF target_table = 'events' THEN
+    UPDATE event_recipes l SET deleted_at = NULL
+      WHERE l.event_id = target_id
+        AND l.deleted_at = stamp
+        AND NOT EXISTS (SELECT 1 FROM recipes r WHERE r.id = l.recipe_id AND r.deleted_at IS NOT NULL)
+        AND NOT EXISTS (
+          SELECT 1 FROM event_recipes live
+          WHERE live.event_id = l.event_id AND live.recipe_id = l.recipe_id AND live.deleted_at IS NULL
+        );
+  ELSIF target_table = 'recipes' THEN
+    UPDATE event_recipes l SET deleted_at = NULL
+      WHERE l.recipe_id = target_id
+        AND l.deleted_at = stamp
+        AND NOT EXISTS (SELECT 1 FROM events e WHERE e.id = l.event_id AND e.deleted_at IS NOT NULL)
+        AND NOT EXISTS (
+          SELECT 1 FROM event_recipes live
+          WHERE live.event_id = l.event_id AND live.recipe_id = l.recipe_id AND live.deleted_at IS NULL
+        );
+  END IF;
+
+  RETURN restored;
+END;
+$$;
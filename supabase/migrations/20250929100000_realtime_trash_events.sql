@@ -0,0 +1,28 @@
+/*
+# Realtime Trash Events
+
+Trashing a row cancels the DELETE and sets `deleted_at` instead. No DELETE
+event is sent, and the "Hide trashed …" policies keep the UPDATE from
+subscribers, so nobody was told the row had gone.
+
+## Changes
+1. **supabase_realtime** - Publishes audit_log. RealtimeManager turns its
+   DELETE entries into delete events for the trashed row's table
+
+## Security
+- Realtime applies audit_log's SELECT policy, so an entry only reaches users
+  who may view the row it describes
+*/
+
+DO $$
+BEGIN
+  -- Only present where Supabase Realtime is installed
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'audit_log'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE audit_log;
+  END IF;
+END;
+$$;
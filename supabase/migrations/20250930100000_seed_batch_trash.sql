@@ -0,0 +1,69 @@
+/*
+# Seed Batch Cleanup Includes the Trash
+
+delete_seed_batch ran as the caller, and the "Hide trashed …" policies hid
+seed rows already in the trash from its DELETE. Demo rows the user had
+deleted, and links trashed along with a seeded event or recipe, were left
+behind. Deleting the seeded company then set their company_id to NULL, which
+turned them into the user's personal trash.
+
+## Changes
+1. **delete_seed_batch** - Now SECURITY DEFINER, so trashed rows of the batch
+   are deleted too
+
+## Security
+- Every statement filters on the caller explicitly, as purge_deleted_rows
+  does: kitchen rows they own (`user_id`), invites they sent and companies
+  they created and still own
+- Still requires a signed-in user; not executable by anon
+*/
+
+CREATE OR REPLACE FUNCTION delete_seed_batch(batch uuid)
+RETURNS TABLE (table_name text, deleted integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  kitchen_table text;
+  removed integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required to delete seed data' USING ERRCODE = '42501';
+  END IF;
+  IF batch IS NULL THEN
+    RAISE EXCEPTION 'batch is required' USING ERRCODE = '22023';
+  END IF;
+
+  -- Generated rows skip the trash
+  PERFORM set_config('app.hard_delete', 'on', true);
+
+  FOREACH kitchen_table IN ARRAY ARRAY['event_recipes', 'prep_lists', 'events', 'recipes', 'methods', 'containers'] LOOP
+    EXECUTE format('DELETE FROM %I WHERE seed_batch = $1 AND user_id = $2', kitchen_table)
+      USING batch, auth.uid();
+    GET DIAGNOSTICS removed = ROW_COUNT;
+    table_name := kitchen_table;
+    deleted := removed;
+    RETURN NEXT;
+  END LOOP;
+
+  DELETE FROM company_invites i
+    WHERE i.seed_batch = batch AND i.invited_by = auth.uid();
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  table_name := 'company_invites';
+  deleted := removed;
+  RETURN NEXT;
+
+  DELETE FROM companies c
+    WHERE c.seed_batch = batch AND c.created_by = auth.uid() AND company_role(c.id) = 'owner';
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  table_name := 'companies';
+  deleted := removed;
+  RETURN NEXT;
+
+  PERFORM set_config('app.hard_delete', 'off', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION delete_seed_batch(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION delete_seed_batch(uuid) TO authenticated, service_role;
@@ -0,0 +1,54 @@
+/*
+# Trashed Id Conflicts
+
+Saving a row whose id is in the trash ran into the "Hide trashed …" policies:
+the upsert found the hidden row and PostgREST reported a row-level security
+error. Re-running a seed batch after a seeded row was trashed, replaying an
+offline save for a row someone else trashed and importing a backup over
+deleted rows all failed as permission errors.
+
+## Changes
+1. **reject_trashed_id** - BEFORE INSERT trigger on prep_lists, events,
+   event_recipes, recipes, methods and containers. An insert or upsert whose
+   id is in the trash fails as a unique violation (23505) saying the row is
+   in the trash, so clients report a conflict. Restore the row first to save
+   it again
+
+## Security
+- SECURITY DEFINER so the trashed row can be seen; it only tells the caller
+  that the id they sent is taken by a trashed row, never what the row holds
+*/
+
+CREATE OR REPLACE FUNCTION reject_trashed_id()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  trashed boolean;
+BEGIN
+  EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE id = $1 AND deleted_at IS NOT NULL)', TG_TABLE_NAME)
+    INTO trashed
+    USING NEW.id;
+
+  IF trashed THEN
+    RAISE EXCEPTION '% row % is in the trash', TG_TABLE_NAME, NEW.id
+      USING ERRCODE = '23505', HINT = 'Restore it from the trash before saving it again';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reject_trashed_id_prep_lists ON prep_lists;
+CREATE TRIGGER reject_trashed_id_prep_lists BEFORE INSERT ON prep_lists FOR EACH ROW EXECUTE PROCEDURE reject_trashed_id();
+DROP TRIGGER IF EXISTS reject_trashed_id_events ON events;
+CREATE TRIGGER reject_trashed_id_events BEFORE INSERT ON events FOR EACH ROW EXECUTE PROCEDURE reject_trashed_id();
+DROP TRIGGER IF EXISTS reject_trashed_id_event_recipes ON event_recipes;
+CREATE TRIGGER reject_trashed_id_event_recipes BEFORE INSERT ON event_recipes FOR EACH ROW EXECUTE PROCEDURE reject_trashed_id();
+DROP TRIGGER IF EXISTS reject_trashed_id_recipes ON recipes;
+CREATE TRIGGER reject_trashed_id_recipes BEFORE INSERT ON recipes FOR EACH ROW EXECUTE PROCEDURE reject_trashed_id();
+DROP TRIGGER IF EXISTS reject_trashed_id_methods ON methods;
+CREATE TRIGGER reject_trashed_id_methods BEFORE INSERT ON methods FOR EACH ROW EXECUTE PROCEDURE reject_trashed_id();
+DROP TRIGGER IF EXISTS reject_trashed_id_containers ON containers;
+CREATE TRIGGER reject_trashed_id_containers BEFORE INSERT ON containers FOR EACH ROW EXECUTE PROCEDURE reject_trashed_id();
@@ -0,0 +1,51 @@
+/*
+# Import Id Lookup
+
+importCompanyData looked for id collisions with a normal select, which RLS
+limits to live rows of the caller's companies. Ids in the trash or in other
+companies were planned as inserts and the import failed on them, including
+the main recovery case: delete rows, then restore them from a backup.
+
+## Changes
+1. **find_taken_ids** - Which of the given ids one kitchen table already
+   holds, in any company and in the trash. For each it says whether the row
+   is in the target company and whether it is trashed
+
+## Security
+- SECURITY DEFINER so every row is checked; only company owners and admins
+  of the target company may call it, as only they may import
+- Rows outside the target company are reported as taken and nothing else:
+  not their company, owner or contents
+- At most 1000 ids per call
+*/
+
+CREATE OR REPLACE FUNCTION find_taken_ids(target_table text, target_company uuid, ids uuid[])
+RETURNS TABLE (id uuid, in_company boolean, trashed boolean)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF target_table NOT IN ('prep_lists', 'events', 'event_recipes', 'recipes', 'methods', 'containers') THEN
+    RAISE EXCEPTION 'Table % cannot be imported', target_table USING ERRCODE = '22023';
+  END IF;
+  IF NOT is_company_admin(target_company) THEN
+    RAISE EXCEPTION 'Only company owners and admins can import company data' USING ERRCODE = '42501';
+  END IF;
+  IF coalesce(array_length(ids, 1), 0) > 1000 THEN
+    RAISE EXCEPTION 'At most 1000 ids per call, got %', array_length(ids, 1) USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT t.id, coalesce(t.company_id = $1, false), coalesce(t.company_id = $1 AND t.deleted_at IS NOT NULL, false)
+      FROM %I t
+      WHERE t.id = ANY ($2)',
+    target_table
+  )
+    USING target_company, ids;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION find_taken_ids(text, uuid, uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION find_taken_ids(text, uuid, uuid[]) TO authenticated, service_role;
@@ -0,0 +1,107 @@
+/*
+# Import Company Bundle
+
+Archives over save_bundle's 1000 operations were imported as several bundles.
+When a later one failed, the earlier ones stayed written and the caller was
+not told which rows they held.
+
+## Changes
+1. **import_company_bundle** - Restores the listed trashed rows, then applies
+   every operation through save_bundle, 1000 at a time, in one transaction.
+   Returns save_bundle's `{ committed, items }` for the whole list. If any
+   operation fails, everything is rolled back, the restores included
+
+## Security
+- Runs as the caller: restore_deleted_row and save_bundle keep their
+  permission checks and RLS
+- Only company owners and admins of the target company may call it, and it
+  takes at most 100000 operations
+*/
+
+CREATE OR REPLACE FUNCTION import_company_bundle(target_company uuid, restores jsonb, operations jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  trashed_row jsonb;
+  total integer;
+  chunk_start integer := 0;
+  outcome jsonb;
+  results jsonb := '[]'::jsonb;
+  rolled_back boolean := false;
+BEGIN
+  IF NOT is_company_admin(target_company) THEN
+    RAISE EXCEPTION 'Only company owners and admins can import company data' USING ERRCODE = '42501';
+  END IF;
+  IF jsonb_typeof(restores) IS DISTINCT FROM 'array' OR jsonb_typeof(operations) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'restores and operations must be JSON arrays' USING ERRCODE = '22023';
+  END IF;
+  total := jsonb_array_length(operations);
+  IF total > 100000 THEN
+    RAISE EXCEPTION 'An import holds at most 100000 operations, got %', total USING ERRCODE = '22023';
+  END IF;
+
+  BEGIN
+    FOR trashed_row IN SELECT value FROM jsonb_array_elements(restores) LOOP
+      BEGIN
+        PERFORM restore_deleted_row(trashed_row->>'table', (trashed_row->>'id')::uuid);
+      EXCEPTION WHEN no_data_found THEN
+        -- Links come back with their event or recipe
+        NULL;
+      END;
+    END LOOP;
+
+    WHILE chunk_start < total LOOP
+      outcome := save_bundle(
+        (SELECT jsonb_agg(o.value ORDER BY o.ordinality)
+          FROM jsonb_array_elements(operations) WITH ORDINALITY AS o(value, ordinality)
+          WHERE o.ordinality > chunk_start AND o.ordinality <= chunk_start + 1000),
+        true
+      );
+
+      SELECT results || coalesce(jsonb_agg(
+          r.value || jsonb_build_object('index', (r.value->>'index')::integer + chunk_start)
+          ORDER BY r.ordinality), '[]'::jsonb)
+        INTO results
+        FROM jsonb_array_elements(outcome->'items') WITH ORDINALITY AS r(value, ordinality);
+      chunk_start := chunk_start + 1000;
+
+      IF NOT (outcome->>'committed')::boolean THEN
+        RAISE EXCEPTION 'import_company_bundle rolled back' USING ERRCODE = 'P0001';
+      END IF;
+    END LOOP;
+  EXCEPTION WHEN raise_exception THEN
+    rolled_back := true;
+  END;
+
+  IF rolled_back THEN
+    -- Earlier chunks were undone too; later ones never ran
+    SELECT coalesce(jsonb_agg(
+      CASE
+        WHEN r.value->>'status' IN ('saved', 'deleted') THEN r.value || jsonb_build_object('status', 'rolled_back', 'row', NULL)
+        ELSE r.value
+      END ORDER BY r.ordinality), '[]'::jsonb)
+      INTO results
+      FROM jsonb_array_elements(results) WITH ORDINALITY AS r(value, ordinality);
+
+    SELECT results || coalesce(jsonb_agg(jsonb_build_object(
+        'index', o.ordinality - 1,
+        'table', o.value->>'table',
+        'action', coalesce(o.value->>'action', 'save'),
+        'id', coalesce(o.value->>'id', o.value->'row'->>'id'),
+        'status', 'skipped',
+        'row', NULL,
+        'error', NULL
+      ) ORDER BY o.ordinality), '[]'::jsonb)
+      INTO results
+      FROM jsonb_array_elements(operations) WITH ORDINALITY AS o(value, ordinality)
+      WHERE o.ordinality > chunk_start;
+  END IF;
+
+  RETURN jsonb_build_object('committed', NOT rolled_back, 'items', results);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION import_company_bundle(uuid, jsonb, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION import_company_bundle(uuid, jsonb, jsonb) TO authenticated, service_role;
@@ -0,0 +1,148 @@
+/*
+# Seed Batch Guard
+
+delete_seed_batch runs as SECURITY DEFINER and only matched kitchen rows on
+`user_id`, so it hard-deleted rows the caller had no delete permission for,
+trashed ones included. Any save could set `seed_batch`, which let a member
+tag their rows and then remove them for good through it.
+
+## Changes
+1. **delete_seed_batch** - Kitchen rows are deleted only where
+   has_permission allows the caller to delete them
+2. **guard_seed_batch** - BEFORE INSERT OR UPDATE trigger on prep_lists,
+   events, event_recipes, recipes, methods and containers. A row may only get
+   a new `seed_batch` from save_seed_bundle. Saving a row again with the batch
+   it already has, or clearing it, is still allowed
+3. **save_seed_bundle** - save_bundle for one seed batch; the rows it writes
+   may carry that batch
+
+## Security
+- save_seed_bundle runs as the caller: save_bundle keeps its permission
+  checks and RLS
+- guard_seed_batch is SECURITY DEFINER so an upsert can see the row it is
+  about to update; it only compares that row's batch
+- Service role and migration writes are not checked
+*/
+
+CREATE OR REPLACE FUNCTION delete_seed_batch(batch uuid)
+RETURNS TABLE (table_name text, deleted integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  kitchen_table text;
+  removed integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required to delete seed data' USING ERRCODE = '42501';
+  END IF;
+  IF batch IS NULL THEN
+    RAISE EXCEPTION 'batch is required' USING ERRCODE = '22023';
+  END IF;
+
+  -- Generated rows skip the trash
+  PERFORM set_config('app.hard_delete', 'on', true);
+
+  FOREACH kitchen_table IN ARRAY ARRAY['event_recipes', 'prep_lists', 'events', 'recipes', 'methods', 'containers'] LOOP
+    EXECUTE format(
+      'DELETE FROM %I WHERE seed_batch = $1 AND user_id = $2 AND has_permission(%L, ''delete'', company_id, user_id)',
+      kitchen_table, kitchen_table
+    )
+      USING batch, auth.uid();
+    GET DIAGNOSTICS removed = ROW_COUNT;
+    table_name := kitchen_table;
+    deleted := removed;
+    RETURN NEXT;
+  END LOOP;
+
+  DELETE FROM company_invites i
+    WHERE i.seed_batch = batch AND i.invited_by = auth.uid();
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  table_name := 'company_invites';
+  deleted := removed;
+  RETURN NEXT;
+
+  DELETE FROM companies c
+    WHERE c.seed_batch = batch AND c.created_by = auth.uid() AND company_role(c.id) = 'owner';
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  table_name := 'companies';
+  deleted := removed;
+  RETURN NEXT;
+
+  PERFORM set_config('app.hard_delete', 'off', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION delete_seed_batch(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION delete_seed_batch(uuid) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION guard_seed_batch()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tagged boolean;
+BEGIN
+  IF NEW.seed_batch IS NULL OR current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+  IF current_setting('app.seed_batch', true) = NEW.seed_batch::text THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    tagged := OLD.seed_batch IS NOT DISTINCT FROM NEW.seed_batch;
+  ELSE
+    -- An upsert of a row that already has this batch
+    EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE id = $1 AND seed_batch = $2)', TG_TABLE_NAME)
+      INTO tagged
+      USING NEW.id, NEW.seed_batch;
+  END IF;
+
+  IF NOT tagged THEN
+    RAISE EXCEPTION 'seed_batch on % is set by seed data only', TG_TABLE_NAME USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_seed_batch_prep_lists ON prep_lists;
+CREATE TRIGGER guard_seed_batch_prep_lists BEFORE INSERT OR UPDATE ON prep_lists FOR EACH ROW EXECUTE PROCEDURE guard_seed_batch();
+DROP TRIGGER IF EXISTS guard_seed_batch_events ON events;
+CREATE TRIGGER guard_seed_batch_events BEFORE INSERT OR UPDATE ON events FOR EACH ROW EXECUTE PROCEDURE guard_seed_batch();
+DROP TRIGGER IF EXISTS guard_seed_batch_event_recipes ON event_recipes;
+CREATE TRIGGER guard_seed_batch_event_recipes BEFORE INSERT OR UPDATE ON event_recipes FOR EACH ROW EXECUTE PROCEDURE guard_seed_batch();
+DROP TRIGGER IF EXISTS guard_seed_batch_recipes ON recipes;
+CREATE TRIGGER guard_seed_batch_recipes BEFORE INSERT OR UPDATE ON recipes FOR EACH ROW EXECUTE PROCEDURE guard_seed_batch();
+DROP TRIGGER IF EXISTS guard_seed_batch_methods ON methods;
+CREATE TRIGGER guard_seed_batch_methods BEFORE INSERT OR UPDATE ON methods FOR EACH ROW EXECUTE PROCEDURE guard_seed_batch();
+DROP TRIGGER IF EXISTS guard_seed_batch_containers ON containers;
+CREATE TRIGGER guard_seed_batch_containers BEFORE INSERT OR UPDATE ON containers FOR EACH ROW EXECUTE PROCEDURE guard_seed_batch();
+
+CREATE OR REPLACE FUNCTION save_seed_bundle(batch uuid, operations jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  outcome jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required to seed data' USING ERRCODE = '42501';
+  END IF;
+  IF batch IS NULL THEN
+    RAISE EXCEPTION 'batch is required' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('app.seed_batch', batch::text, true);
+  outcome := save_bundle(operations, true);
+  PERFORM set_config('app.seed_batch', '', true);
+  RETURN outcome;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_seed_bundle(uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_seed_bundle(uuid, jsonb) TO authenticated, service_role;